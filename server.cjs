@@ -1,56 +1,82 @@
 // server.cjs
 const express = require('express');
 const cors = require('cors');
+const { createClient } = require('@supabase/supabase-js');
 require('dotenv').config();
+const { buildScheduleLogs } = require('./server/schedule.cjs');
+const { runRuleChecks, worseAssessment, RULES_VERSION } = require('./server/ruleEngine.cjs');
+const { createLlmProvider } = require('./server/llmProviders.cjs');
+const { requestValidOutput } = require('./server/safetyCheckSchema.cjs');
+const { cacheKey, createSafetyCheckCache } = require('./server/safetyCheckCache.cjs');
+const { createRateLimiter } = require('./server/rateLimit.cjs');
+const { createAuthMiddleware, allowedOrigins } = require('./server/auth.cjs');
+const { startOverdueDoseSweep } = require('./server/overdueDoses.cjs');
 
 const app = express();
-app.use(cors());
+const CORS_ORIGINS = allowedOrigins(process.env.CORS_ORIGINS);
+app.use(cors({ origin: CORS_ORIGINS }));
 app.use(express.json());
 
-// === OPENROUTER ===
-const OPENROUTER_API_KEY = process.env.OPENROUTER_API_KEY;
-if (!OPENROUTER_API_KEY) {
-  console.error("OPENROUTER_API_KEY missing in .env");
-  process.exit(1);
+// === LLM PROVIDER (see server/llmProviders.cjs for configuration) ===
+const llm = createLlmProvider();
+const MAX_REPAIR_ATTEMPTS = 2; // Re-prompts after an invalid model reply
+
+// === SAFETY-CHECK CACHE AND RATE LIMITS ===
+const numberFromEnv = (value, fallback) => (value !== undefined && value !== '' && Number.isFinite(Number(value)) ? Number(value) : fallback);
+
+const safetyCheckCache = createSafetyCheckCache({
+  ttlMs: numberFromEnv(process.env.SAFETY_CHECK_CACHE_TTL_MS, 10 * 60 * 1000),
+});
+
+const RATE_LIMIT_WINDOW_MS = 60 * 1000;
+const perIpLimit = createRateLimiter({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  max: numberFromEnv(process.env.RATE_LIMIT_PER_IP, 30),
+  keyFn: (req) => req.ip,
+  label: 'from this address',
+});
+const perUserLimit = createRateLimiter({
+  windowMs: RATE_LIMIT_WINDOW_MS,
+  max: numberFromEnv(process.env.RATE_LIMIT_PER_USER, 10),
+  keyFn: (req) => req.user?.id, // Set by requireDoctor
+  label: 'for this account',
+});
+
+// === SUPABASE (service role, for token verification and schedule generation) ===
+const SUPABASE_URL = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY;
+const supabaseAdmin = SUPABASE_URL && SUPABASE_SERVICE_ROLE_KEY
+  ? createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, { auth: { persistSession: false } })
+  : null;
+if (!supabaseAdmin) {
+  console.warn("SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY missing in .env - authenticated endpoints disabled");
 }
 
-const openRouterFetch = async (messages, opts = {}) => {
-  const res = await fetch('https://openrouter.ai/api/v1/chat/completions', {
-    method: 'POST',
-    headers: {
-      // MODIFICATION: Changed quotes to backticks for template literal
-      Authorization: `Bearer ${OPENROUTER_API_KEY}`,
-      'HTTP-Referer': 'http://localhost:8000', // You might want to change this later
-      'X-Title': 'SmartRX Hackathon',          // Or this
-      'Content-Type': 'application/json'
-    },
-    body: JSON.stringify({
-      model: 'meta-llama/llama-3.2-3b-instruct:free', // Using the free Llama 3.2 model
-      messages,
-      max_tokens: opts.max_tokens ?? 500
-    })
-  });
+// Pending doses past the practice's grace window become missed (0 disables the sweep)
+const OVERDUE_SWEEP_INTERVAL_MS = numberFromEnv(process.env.OVERDUE_SWEEP_INTERVAL_MS, 5 * 60 * 1000);
 
-  if (!res.ok) {
-    const txt = await res.text();
-    // MODIFICATION: Changed quotes to backticks for template literal
-    throw new Error(`OpenRouter error: ${res.status} - ${txt}`);
-  }
-  return res.json();
-};
+// Every endpoint except the health check needs a Supabase access token: a doctor's, or for
+// schedule regeneration also the patient's own (after they change their dose times)
+const requireDoctor = createAuthMiddleware(supabaseAdmin, { roles: ['doctor'] });
+const requireDoctorOrPatient = createAuthMiddleware(supabaseAdmin, { roles: ['doctor', 'patient'] });
 
-// === MAIN ENDPOINT: /run-safety-check ===
-app.post('/run-safety-check', async (req, res) => {
-  try {
-    // This expects the exact structure sent by the React frontend
-    const { patient, history, new_prescriptions } = req.body;
+const describeActiveMedication = (m) => {
+  const details = [m.dosage, m.frequency].filter(Boolean).join(', ');
+  const source = m.source === 'prescription'
+    ? `prescribed${m.prescribed_by ? ` by ${m.prescribed_by}` : ''}`
+    : 'reported by the patient';
+  return `- ${m.drug_name}${details ? `: ${details}` : ''} (${source})`;
+};
 
-    if (!patient || !history || !new_prescriptions) {
-      return res.status(400).json({ detail: "Missing patient, history, or new_prescriptions data" });
-    }
+// e.g. "Rash on Amoxicillin since 2025-03-02 (spread over both arms)"
+const describeSymptomReport = (r) =>
+  `${r.symptom}${r.medication ? ` on ${r.medication}` : ''} since ${r.onset}${r.description ? ` (${r.description})` : ''}`;
 
-    // Construct the prompt for the LLM
-    const prompt = `You are a clinical pharmacist. Analyze this prescription for safety.
+// Free-text review by the LLM; returns the parsed {overall_assessment, flags} and the model used.
+// With `onFlag`, the first reply is streamed and each flag is reported as soon as it is complete.
+const runLlmCheck = async ({ patient, history, new_prescriptions }, { signal, onFlag } = {}) => {
+  // Construct the prompt for the LLM
+  const prompt = `You are a clinical pharmacist. Analyze this prescription for safety.
 
 PATIENT:
 - Age: ${patient.age}
@@ -58,8 +84,12 @@ PATIENT:
 - Reason: ${patient.consultation_reason}
 
 HISTORY:
-- Complications: ${history.known_complications}
-- Past Meds: ${history.past_medications}
+- Allergies: ${history.allergies.join('; ') || 'None reported'}
+- Conditions: ${history.conditions.map(c => c.notes ? `${c.name} (${c.notes})` : c.name).join('; ') || 'None reported'}
+- Severe side effects reported by the patient: ${(history.symptom_reports || []).map(describeSymptomReport).join('; ') || 'None reported'}
+
+CURRENT MEDICATIONS (already taken, check interactions with these too):
+${history.active_medications.map(describeActiveMedication).join('\n') || '- None'}
 
 NEW PRESCRIPTION:
 ${new_prescriptions.map(m => `- ${m.drug_name}: ${m.dosage}, ${m.frequency}`).join('\n')}
@@ -68,58 +98,230 @@ Return ONLY valid JSON in this exact format:
 {
   "overall_assessment": "Safe" or "Caution" or "High-Risk",
   "flags": [
-    {
-      "problematic_drug": "Drug name",
-      "issue": "Short issue",
-      "explanation": "Why it's a problem",
-      "suggested_alternative": "Alternative or none"
-    }
+  {
+    "problematic_drug": "Drug name",
+    "issue": "Short issue",
+    "explanation": "Why it's a problem",
+    "suggested_alternative": "Alternative or none",
+    "replacement_drug": "Name of one drug to prescribe instead, or empty"
+  }
   ]
 }
-If safe, return empty flags array.`;
-
-    // Call OpenRouter
-    const result = await openRouterFetch(
-      [{ role: "user", content: prompt }],
-      { max_tokens: 600 } // Increased tokens slightly for potentially complex JSON
-    );
-
-    const text = result.choices?.[0]?.message?.content?.trim();
-    if (!text) throw new Error("Empty AI response");
-
-    // Extract JSON from response (robustly handles potential markdown backticks)
-    const jsonMatch = text.match(/```json\s*([\s\S]*?)\s*```|(\{[\s\S]*\})/);
-    const jsonText = jsonMatch ? (jsonMatch[1] || jsonMatch[2]) : text;
-
-    let parsed;
-    try {
-      parsed = JSON.parse(jsonText);
-    } catch (e) {
-      console.error("Invalid JSON from AI:", jsonText); // Log the cleaned JSON text
-      throw new Error("AI returned invalid JSON format");
-    }
+If safe, return empty flags array. "problematic_drug" must be the drug name exactly as listed under NEW PRESCRIPTION.`;
+
+  const { value, model } = await requestValidOutput(llm, [{ role: "user", content: prompt }], {
+    maxRepairAttempts: MAX_REPAIR_ATTEMPTS,
+    max_tokens: 600, // Increased tokens slightly for potentially complex JSON
+    signal,
+    onFlag,
+  });
+  return { ...value, model };
+};
+
+// Rule engine + LLM, merged. Identical payloads are answered from the cache unless
+// `bypassCache` is set. Returns { result, cacheStatus: 'HIT' | 'MISS' | 'BYPASS' }.
+// `onFlag` receives each flag as soon as it is known (rule flags first).
+const runSafetyCheck = async (payload, { bypassCache = false, signal, onFlag } = {}) => {
+  const key = cacheKey(payload, { rules: RULES_VERSION, provider: llm.name, model: llm.model });
+  const cached = bypassCache ? null : safetyCheckCache.get(key);
+  if (cached) {
+    cached.flags.forEach(flag => onFlag?.(flag));
+    return { result: { ...cached, cached: true }, cacheStatus: 'HIT' };
+  }
+
+  const rules = runRuleChecks(payload);
+  rules.flags.forEach(flag => onFlag?.(flag));
+
+  let llmResult = null;
+  let llmError = null;
+  try {
+    llmResult = await runLlmCheck(payload, {
+      signal,
+      onFlag: onFlag && (flag => onFlag({ ...flag, engine: 'llm' })),
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    console.error("LLM safety check failed, returning rule-based result only:", err);
+    llmError = { code: err.code || 'LLM_UNAVAILABLE', message: err.message || "AI analysis failed" };
+  }
+
+  // The merged result, with provenance for the stored record
+  const result = {
+    overall_assessment: llmResult ? worseAssessment(rules.overall_assessment, llmResult.overall_assessment) : rules.overall_assessment,
+    flags: [
+      ...rules.flags,
+      ...(llmResult ? llmResult.flags.map(f => ({ ...f, engine: 'llm' })) : []),
+    ],
+    model: llmResult?.model,
+    rules_version: rules.dataset_version,
+    ...(llmError && { llm_error: llmError.message, llm_error_code: llmError.code }),
+    checked_at: new Date().toISOString(),
+  };
+  // Rule-only fallbacks are not cached so the next request tries the LLM again
+  if (!llmError) safetyCheckCache.set(key, result);
+  return { result: { ...result, cached: false }, cacheStatus: bypassCache ? 'BYPASS' : 'MISS' };
+};
+
+// Optional history.symptom_reports entries, as built by safetyHistoryFromRecords
+const isValidSymptomReport = (r) =>
+  Boolean(r) && typeof r === 'object' &&
+  ['symptom', 'severity', 'onset'].every(field => typeof r[field] === 'string') &&
+  (r.medication === null || typeof r.medication === 'string') &&
+  (r.description === undefined || typeof r.description === 'string');
+
+// This expects the exact structure sent by the React frontend
+const isValidPayload = (body) =>
+  Boolean(body?.patient && Array.isArray(body?.new_prescriptions)) &&
+  ['allergies', 'conditions', 'active_medications'].every(field => Array.isArray(body?.history?.[field])) &&
+  (body.history.symptom_reports === undefined ||
+    (Array.isArray(body.history.symptom_reports) && body.history.symptom_reports.every(isValidSymptomReport)));
 
-    // Basic validation of the parsed structure
-    if (!parsed.overall_assessment || !Array.isArray(parsed.flags)) {
-      console.error("Invalid AI response structure:", parsed);
-      throw new Error("AI response structure does not match expected format");
+// === MAIN ENDPOINT: /run-safety-check ===
+// The local rule engine always runs; the LLM adds its own flags when it is reachable.
+// `Cache-Control: no-cache` skips the cache (the "Re-run" button).
+app.post('/run-safety-check', perIpLimit, requireDoctor, perUserLimit, async (req, res) => {
+  try {
+    if (!isValidPayload(req.body)) {
+      return res.status(400).json({ code: 'INVALID_REQUEST', detail: "Missing or malformed patient, history (allergies, conditions, active_medications, symptom_reports) or new_prescriptions data" });
     }
 
-    res.json(parsed); // Send the validated JSON back to the frontend
+    const { result, cacheStatus } = await runSafetyCheck(req.body, {
+      bypassCache: /no-cache/i.test(req.get('Cache-Control') || ''),
+    });
+    res.set('X-Cache', cacheStatus);
+    res.json(result);
 
   } catch (err) {
     console.error("Safety check failed:", err);
-    res.status(500).json({ detail: err.message || "AI analysis failed" });
+    res.status(500).json({ code: 'INTERNAL_ERROR', detail: err.message || "AI analysis failed" });
+  }
+});
+
+// === STREAMING ENDPOINT: /run-safety-check/stream ===
+// Same check, answered as newline-delimited JSON so flags can be shown as they arrive:
+//   {"type":"flag","flag":{...}}     one per flag, rule-engine flags first
+//   {"type":"result","result":{...}} the final merged result (authoritative)
+//   {"type":"error","code":"...","detail":"..."}
+// Closing the connection aborts the upstream LLM request.
+app.post('/run-safety-check/stream', perIpLimit, requireDoctor, perUserLimit, async (req, res) => {
+  if (!isValidPayload(req.body)) {
+    return res.status(400).json({ code: 'INVALID_REQUEST', detail: "Missing or malformed patient, history (allergies, conditions, active_medications, symptom_reports) or new_prescriptions data" });
+  }
+
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableEnded) controller.abort();
+  });
+  const send = (event) => {
+    if (!res.writableEnded && !res.destroyed) res.write(`${JSON.stringify(event)}\n`);
+  };
+
+  res.status(200).set({ 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache' });
+  res.flushHeaders();
+
+  try {
+    const { result } = await runSafetyCheck(req.body, {
+      bypassCache: /no-cache/i.test(req.get('Cache-Control') || ''),
+      signal: controller.signal,
+      onFlag: (flag) => send({ type: 'flag', flag }),
+    });
+    send({ type: 'result', result });
+  } catch (err) {
+    if (controller.signal.aborted) {
+      console.log("Streamed safety check cancelled by the client");
+      return;
+    }
+    console.error("Streamed safety check failed:", err);
+    send({ type: 'error', code: 'INTERNAL_ERROR', detail: err.message || "AI analysis failed" });
+  }
+  res.end();
+});
+
+const isValidTimeZone = (timeZone) => {
+  if (typeof timeZone !== 'string') return false;
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// === SCHEDULE ENDPOINT: /prescriptions/:id/schedule ===
+// (Re)generates a prescription's medication_logs from what is stored in the database.
+// A fresh prescription gets its full schedule; afterwards only pending doses from now on
+// are replaced, so taken/missed history is kept and repeated calls change nothing.
+// Callable by the prescribing doctor and by the patient the prescription is for.
+app.post('/prescriptions/:id/schedule', requireDoctorOrPatient, async (req, res) => {
+  try {
+    const { data: prescription, error: prescriptionError } = await supabaseAdmin
+      .from('prescriptions')
+      .select('*')
+      .eq('id', req.params.id)
+      .maybeSingle();
+    if (prescriptionError) throw prescriptionError;
+    if (!prescription) return res.status(404).json({ detail: "Prescription not found" });
+    const owner = req.user.role === 'doctor' ? prescription.doctor_id : prescription.patient_id;
+    if (owner !== req.user.id) {
+      return res.status(403).json({ code: 'FORBIDDEN', detail: "You can only schedule your own prescriptions" });
+    }
+
+    const { data: patient, error: patientError } = await supabaseAdmin
+      .from('profiles')
+      .select('dose_times, timezone')
+      .eq('id', prescription.patient_id)
+      .maybeSingle();
+    if (patientError) throw patientError;
+
+    const { count, error: countError } = await supabaseAdmin
+      .from('medication_logs')
+      .select('id', { count: 'exact', head: true })
+      .eq('prescription_id', prescription.id);
+    if (countError) throw countError;
+
+    // Inactive or deleted prescriptions keep their history but lose their upcoming doses
+    const isLive = prescription.status === 'active' && !prescription.deleted_at;
+    // Dose times are the patient's local times; the caller's own time zone says nothing about them
+    if (isLive && !isValidTimeZone(patient?.timezone)) {
+      return res.status(409).json({
+        code: 'PATIENT_TIMEZONE_MISSING',
+        detail: "The patient's time zone is not known yet. It is saved when they next open their dashboard or save their profile.",
+      });
+    }
+    const logs = isLive ? buildScheduleLogs(prescription, patient) : [];
+    const from = count > 0 ? new Date().toISOString() : null;
+
+    const { data, error } = await supabaseAdmin.rpc('replace_future_medication_logs', {
+      p_prescription_id: prescription.id,
+      p_from: from,
+      p_logs: logs,
+    });
+    if (error) throw error;
+
+    const { removed, inserted } = data?.[0] ?? { removed: 0, inserted: 0 };
+    res.json({ prescription_id: prescription.id, removed, inserted });
+
+  } catch (err) {
+    console.error("Schedule generation failed:", err);
+    res.status(500).json({ detail: err.message || "Schedule generation failed" });
   }
 });
 
 // === HEALTH CHECK ===
 app.get('/', (req, res) => {
-  res.json({ status: "SmartRX AI Backend Running", model: "Llama 3.2 (OpenRouter)" });
+  res.json({ status: "SmartRX AI Backend Running", provider: llm.name, model: llm.model, llm_configured: llm.configured });
 });
 
 const PORT = 8000;
 app.listen(PORT, () => {
   console.log(`✅ AI Safety Check Server Running on http://127.0.0.1:${PORT}`);
+  console.log(`🤖 LLM provider: ${llm.name} (${llm.model})`);
+  console.log(`🔒 Allowed origins: ${CORS_ORIGINS.join(', ')}`);
   console.log(`📍 Endpoint: POST /run-safety-check`);
+  console.log(`📍 Endpoint: POST /run-safety-check/stream`);
+  console.log(`📍 Endpoint: POST /prescriptions/:id/schedule`);
+  if (supabaseAdmin && OVERDUE_SWEEP_INTERVAL_MS > 0) {
+    startOverdueDoseSweep(supabaseAdmin, { intervalMs: OVERDUE_SWEEP_INTERVAL_MS });
+    console.log(`🕒 Overdue dose sweep every ${Math.round(OVERDUE_SWEEP_INTERVAL_MS / 1000)}s`);
+  }
 });
\ No newline at end of file
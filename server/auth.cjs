@@ -0,0 +1,46 @@
+// server/auth.cjs
+// Express middleware that requires a Supabase access token (Authorization: Bearer <jwt>).
+// The token is verified by Supabase itself, then the caller's profile role is checked.
+// On success `req.user` is { id, role }.
+
+const createAuthMiddleware = (supabaseAdmin, { roles }) => async (req, res, next) => {
+  if (!supabaseAdmin) {
+    return res.status(503).json({ code: 'INTERNAL_ERROR', detail: "Authentication is not configured on the server" });
+  }
+
+  const match = /^Bearer\s+(.+)$/i.exec(req.get('Authorization') || '');
+  if (!match) {
+    return res.status(401).json({ code: 'UNAUTHORIZED', detail: "Missing access token" });
+  }
+
+  try {
+    const { data: { user } = {}, error } = await supabaseAdmin.auth.getUser(match[1]);
+    if (error || !user) {
+      return res.status(401).json({ code: 'UNAUTHORIZED', detail: "Invalid or expired access token" });
+    }
+
+    const { data: profile, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('role')
+      .eq('id', user.id)
+      .maybeSingle();
+    if (profileError) throw profileError;
+    if (!profile || !roles.includes(profile.role)) {
+      return res.status(403).json({ code: 'FORBIDDEN', detail: `Only ${roles.join(' or ')} accounts can use this endpoint` });
+    }
+
+    req.user = { id: user.id, role: profile.role };
+    next();
+  } catch (err) {
+    console.error("Token verification failed:", err);
+    res.status(500).json({ code: 'INTERNAL_ERROR', detail: "Could not verify access token" });
+  }
+};
+
+// CORS origins from CORS_ORIGINS (comma separated); defaults to the Vite dev server
+const allowedOrigins = (value) => (value || 'http://localhost:5173,http://127.0.0.1:5173')
+  .split(',')
+  .map(origin => origin.trim().replace(/\/+$/, ''))
+  .filter(Boolean);
+
+module.exports = { createAuthMiddleware, allowedOrigins };
@@ -0,0 +1,154 @@
+// server/drugCatalog.cjs
+// The drug catalog behind the prescription form's drug search lives in a data file
+// (supabase/seed/drug_catalog.csv, see supabase/seed/README.md), not in migrations.
+//
+//   node server/drugCatalog.cjs seed [file]                    Upsert the file into drug_catalog
+//   node server/drugCatalog.cjs import-openfda <ndc.json> [out] Build the file from the openFDA
+//                                                              NDC directory download
+//
+// Seeding needs SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY (as for server.cjs). Rows are
+// upserted on (generic_name, strength, form, route), so it is safe to re-run.
+
+const fs = require('fs');
+const path = require('path');
+
+const DEFAULT_CATALOG_FILE = path.join(__dirname, '..', 'supabase', 'seed', 'drug_catalog.csv');
+const COLUMNS = ['generic_name', 'brand_names', 'strength', 'form', 'route'];
+const BATCH_SIZE = 500;
+
+// Minimal RFC 4180 parser: quoted fields may contain commas, quotes ("") and newlines
+const parseCsv = (text) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+};
+
+const csvField = (value) => (/[",\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+// drug_catalog rows from the CSV text; brand names are separated by ";"
+const readCatalogRows = (text) => {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || COLUMNS.some((column, index) => header[index] !== column)) {
+    throw new Error(`Expected the columns ${COLUMNS.join(', ')}`);
+  }
+  return rows.map((values, index) => {
+    const [generic_name, brands, strength, form, route] = values.map(value => value.trim());
+    if (!generic_name || !strength || !form || !route) {
+      throw new Error(`Line ${index + 2}: generic_name, strength, form and route are required`);
+    }
+    const brand_names = brands ? brands.split(';').map(brand => brand.trim()).filter(Boolean) : [];
+    return { generic_name, brand_names, strength, form, route };
+  });
+};
+
+const writeCatalogCsv = (rows) => [
+  COLUMNS.join(','),
+  ...rows.map(row => [row.generic_name, row.brand_names.join(';'), row.strength, row.form, row.route].map(csvField).join(',')),
+].join('\n') + '\n';
+
+const seedDrugCatalog = async (supabaseAdmin, rows) => {
+  for (let start = 0; start < rows.length; start += BATCH_SIZE) {
+    const { error } = await supabaseAdmin
+      .from('drug_catalog')
+      .upsert(rows.slice(start, start + BATCH_SIZE), { onConflict: 'generic_name,strength,form,route' });
+    if (error) throw error;
+  }
+  return rows.length;
+};
+
+const sentenceCase = (value) => value.charAt(0).toUpperCase() + value.slice(1).toLowerCase();
+
+// "500 mg/1" -> "500 mg", "250 mg/5mL" -> "250 mg/5 mL"
+const normalizeStrength = (strength) => strength
+  .replace(/\/1$/, '')
+  .replace(/\/(\d+(?:\.\d+)?)\s*([a-zA-Z]+)$/, '/$1 $2')
+  .trim();
+
+// Catalog rows from the openFDA NDC directory (https://open.fda.gov/apis/drug/ndc/): finished
+// human drug products, one row per generic + strength + form + route, with all brand names
+const catalogRowsFromOpenFdaNdc = (ndc) => {
+  const products = new Map();
+  for (const product of ndc.results || []) {
+    if (!product.finished || !/^HUMAN (PRESCRIPTION|OTC) DRUG$/.test(product.product_type || '')) continue;
+    const ingredients = product.active_ingredients || [];
+    if (!product.generic_name || ingredients.length === 0 || !product.dosage_form || !product.route?.length) continue;
+
+    const row = {
+      generic_name: sentenceCase(product.generic_name.trim()),
+      brand_names: [],
+      strength: ingredients.map(ingredient => normalizeStrength(ingredient.strength || '')).join(' / '),
+      form: product.dosage_form.toLowerCase(),
+      route: product.route.join(', ').toLowerCase(),
+    };
+    if (!row.strength) continue;
+    const key = [row.generic_name, row.strength, row.form, row.route].join('|');
+    const existing = products.get(key) || row;
+    const brand = product.brand_name?.trim();
+    if (brand && brand.toLowerCase() !== row.generic_name.toLowerCase() && !existing.brand_names.includes(brand)) {
+      existing.brand_names.push(brand);
+    }
+    products.set(key, existing);
+  }
+  return [...products.values()].sort((a, b) =>
+    a.generic_name.localeCompare(b.generic_name) || a.strength.localeCompare(b.strength) || a.form.localeCompare(b.form)
+  );
+};
+
+if (require.main === module) {
+  const [command, input, output] = process.argv.slice(2);
+  const run = async () => {
+    if (command === 'seed') {
+      require('dotenv').config();
+      const { createClient } = require('@supabase/supabase-js');
+      const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+      const key = process.env.SUPABASE_SERVICE_ROLE_KEY;
+      if (!url || !key) throw new Error("SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required");
+      const file = input || DEFAULT_CATALOG_FILE;
+      const rows = readCatalogRows(fs.readFileSync(file, 'utf8'));
+      const count = await seedDrugCatalog(createClient(url, key, { auth: { persistSession: false } }), rows);
+      console.log(`Loaded ${count} drug catalog rows from ${file}`);
+    } else if (command === 'import-openfda' && input) {
+      const rows = catalogRowsFromOpenFdaNdc(JSON.parse(fs.readFileSync(input, 'utf8')));
+      fs.writeFileSync(output || DEFAULT_CATALOG_FILE, writeCatalogCsv(rows));
+      console.log(`Wrote ${rows.length} drug catalog rows to ${output || DEFAULT_CATALOG_FILE}`);
+    } else {
+      throw new Error("Usage: node server/drugCatalog.cjs seed [file] | import-openfda <ndc.json> [out.csv]");
+    }
+  };
+  run().catch((err) => {
+    console.error(err.message || err);
+    process.exit(1);
+  });
+}
+
+module.exports = { parseCsv, readCatalogRows, writeCatalogCsv, seedDrugCatalog, catalogRowsFromOpenFdaNdc };
@@ -0,0 +1,82 @@
+import fs from 'fs';
+import path from 'path';
+import { describe, expect, it } from 'vitest';
+import { catalogRowsFromOpenFdaNdc, parseCsv, readCatalogRows, writeCatalogCsv } from './drugCatalog.cjs';
+
+// Products shaped like the openFDA NDC directory download (fields trimmed to those used)
+const product = (overrides) => ({
+  product_type: 'HUMAN PRESCRIPTION DRUG',
+  finished: true,
+  generic_name: 'AMOXICILLIN',
+  brand_name: 'Amoxil',
+  dosage_form: 'CAPSULE',
+  route: ['ORAL'],
+  active_ingredients: [{ name: 'AMOXICILLIN ANHYDROUS', strength: '500 mg/1' }],
+  ...overrides,
+});
+
+describe('catalogRowsFromOpenFdaNdc', () => {
+  it('keeps one row per generic, strength, form and route with all of its brand names', () => {
+    const rows = catalogRowsFromOpenFdaNdc({
+      results: [
+        product({}),
+        product({ brand_name: 'Moxatag' }),
+        product({ brand_name: 'Amoxil' }),
+        product({ brand_name: 'Amoxicillin' }),
+        product({ dosage_form: 'POWDER, FOR SUSPENSION', active_ingredients: [{ strength: '250 mg/5mL' }], brand_name: 'Amoxil' }),
+      ],
+    });
+
+    expect(rows).toEqual([
+      { generic_name: 'Amoxicillin', brand_names: ['Amoxil'], strength: '250 mg/5 mL', form: 'powder, for suspension', route: 'oral' },
+      { generic_name: 'Amoxicillin', brand_names: ['Amoxil', 'Moxatag'], strength: '500 mg', form: 'capsule', route: 'oral' },
+    ]);
+  });
+
+  it('joins the strengths of combination products', () => {
+    const [row] = catalogRowsFromOpenFdaNdc({
+      results: [product({
+        generic_name: 'AMOXICILLIN AND CLAVULANATE POTASSIUM',
+        brand_name: 'Augmentin',
+        dosage_form: 'TABLET, FILM COATED',
+        active_ingredients: [{ strength: '875 mg/1' }, { strength: '125 mg/1' }],
+      })],
+    });
+    expect(row).toMatchObject({ generic_name: 'Amoxicillin and clavulanate potassium', strength: '875 mg / 125 mg' });
+  });
+
+  it('leaves out unfinished, non-human and incomplete products', () => {
+    expect(catalogRowsFromOpenFdaNdc({
+      results: [
+        product({ finished: false }),
+        product({ product_type: 'HUMAN PRESCRIPTION DRUG LABEL WITH HIGHLIGHTS' }),
+        product({ product_type: 'BULK INGREDIENT' }),
+        product({ route: [] }),
+        product({ active_ingredients: [{ name: 'AMOXICILLIN' }] }),
+      ],
+    })).toEqual([]);
+  });
+});
+
+describe('drug catalog CSV', () => {
+  it('round-trips rows with commas, quotes and brand lists', () => {
+    const rows = [
+      { generic_name: 'Sulfamethoxazole and trimethoprim', brand_names: ['Bactrim', 'Septran'], strength: '800 mg/160 mg', form: 'tablet', route: 'oral' },
+      { generic_name: 'Amoxicillin', brand_names: [], strength: '250 mg', form: 'powder, for "suspension"', route: 'oral' },
+    ];
+    expect(readCatalogRows(writeCatalogCsv(rows))).toEqual(rows);
+  });
+
+  it('rejects a file with other columns or missing values', () => {
+    expect(() => readCatalogRows('name,strength\nAmoxicillin,500 mg\n')).toThrow('Expected the columns');
+    expect(() => readCatalogRows('generic_name,brand_names,strength,form,route\nAmoxicillin,,500 mg,,oral\n'))
+      .toThrow('Line 2: generic_name, strength, form and route are required');
+  });
+
+  it('parses the bundled seed file', () => {
+    const text = fs.readFileSync(path.join(__dirname, '..', 'supabase', 'seed', 'drug_catalog.csv'), 'utf8');
+    const rows = readCatalogRows(text);
+    expect(rows).toHaveLength(parseCsv(text).length - 1);
+    expect(new Set(rows.map(row => [row.generic_name, row.strength, row.form, row.route].join('|'))).size).toBe(rows.length);
+  });
+});
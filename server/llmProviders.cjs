@@ -0,0 +1,215 @@
+// server/llmProviders.cjs
+// Chat-completion providers for the safety check. Every provider exposes
+//   { name, model, configured,
+//     complete(messages, { max_tokens, signal }) -> { content, model },
+//     stream(messages, { max_tokens, signal }, onDelta) -> { content, model } }
+// and is chosen with LLM_PROVIDER:
+//   openrouter - OpenRouter (OPENROUTER_API_KEY)
+//   openai     - any OpenAI-compatible server, e.g. Ollama or llama.cpp (LLM_BASE_URL, LLM_API_KEY)
+//   mock       - deterministic canned answer, no network (LLM_MOCK_RESPONSE overrides it)
+// LLM_MODEL, LLM_TIMEOUT_MS and LLM_MAX_RETRIES override the per-provider defaults below.
+// `signal` aborts the upstream request (e.g. when the doctor cancels a streamed check).
+
+const PROVIDER_DEFAULTS = {
+  openrouter: { model: 'meta-llama/llama-3.2-3b-instruct:free', timeoutMs: 20000, maxRetries: 2 },
+  openai: { model: 'llama3.2', timeoutMs: 60000, maxRetries: 1 }, // Local models are slow but rarely flaky
+  mock: { model: 'mock', timeoutMs: 0, maxRetries: 0 },
+};
+
+const MOCK_RESPONSE = { overall_assessment: 'Safe', flags: [] };
+
+const sleep = (ms) => new Promise(resolve => setTimeout(resolve, ms));
+
+// `code` is one of the LLM_* error codes in src/lib/safetyCheckSchema.json
+class ProviderError extends Error {
+  constructor(message, { code = 'LLM_UNAVAILABLE', retryable = false } = {}) {
+    super(message);
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+const numberFromEnv = (value, fallback) => {
+  const parsed = Number(value);
+  return value !== undefined && value !== '' && Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+};
+
+// Aborts on the timeout or when the caller's signal fires, whichever comes first
+const requestSignal = (timeoutMs, signal) => {
+  const signals = [timeoutMs > 0 && AbortSignal.timeout(timeoutMs), signal].filter(Boolean);
+  return signals.length > 0 ? AbortSignal.any(signals) : undefined;
+};
+
+// POST to an OpenAI-style /chat/completions endpoint with a timeout and retries on
+// network errors, 429 and 5xx (exponential backoff: 500ms, 1s, 2s, ...)
+const postChatCompletion = async (url, headers, body, { timeoutMs, maxRetries, label, signal }) => {
+  for (let attempt = 0; ; attempt++) {
+    try {
+      const res = await fetch(url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+        signal: requestSignal(timeoutMs, signal),
+      });
+      if (!res.ok) {
+        const txt = await res.text();
+        throw new ProviderError(`${label} error: ${res.status} - ${txt}`, {
+          retryable: res.status === 429 || res.status >= 500,
+        });
+      }
+      const json = await res.json();
+      return { content: json.choices?.[0]?.message?.content ?? '', model: json.model || body.model };
+    } catch (err) {
+      if (signal?.aborted) throw err; // Cancelled by the caller: never retry
+      const timedOut = err.name === 'TimeoutError' || err.name === 'AbortError';
+      const retryable = timedOut || err instanceof TypeError || err.retryable; // TypeError = network failure
+      if (!retryable || attempt >= maxRetries) {
+        if (timedOut) throw new ProviderError(`${label} timed out after ${timeoutMs}ms`, { code: 'LLM_TIMEOUT' });
+        throw err instanceof ProviderError ? err : new ProviderError(`${label} request failed: ${err.message}`);
+      }
+      await sleep(500 * 2 ** attempt);
+    }
+  }
+};
+
+// Streaming variant (server-sent events with `delta.content` chunks). Streams are not
+// retried: once text has reached the client, a silent restart would duplicate it.
+const postChatCompletionStream = async (url, headers, body, { timeoutMs, label, signal }, onDelta) => {
+  let res;
+  try {
+    res = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify({ ...body, stream: true }),
+      signal: requestSignal(timeoutMs, signal),
+    });
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    if (err.name === 'TimeoutError') throw new ProviderError(`${label} timed out after ${timeoutMs}ms`, { code: 'LLM_TIMEOUT' });
+    throw new ProviderError(`${label} request failed: ${err.message}`);
+  }
+  if (!res.ok) {
+    const txt = await res.text();
+    throw new ProviderError(`${label} error: ${res.status} - ${txt}`);
+  }
+
+  let content = '';
+  let model = body.model;
+  let pending = '';
+  const decoder = new TextDecoder();
+  try {
+    for await (const chunk of res.body) {
+      pending += decoder.decode(chunk, { stream: true });
+      const lines = pending.split('\n');
+      pending = lines.pop();
+      for (const line of lines) {
+        const data = line.replace(/^data:\s*/, '').trim();
+        if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+        const event = JSON.parse(data);
+        model = event.model || model;
+        const delta = event.choices?.[0]?.delta?.content;
+        if (delta) {
+          content += delta;
+          onDelta(delta);
+        }
+      }
+    }
+  } catch (err) {
+    if (signal?.aborted) throw err;
+    if (err.name === 'TimeoutError') throw new ProviderError(`${label} timed out after ${timeoutMs}ms`, { code: 'LLM_TIMEOUT' });
+    throw new ProviderError(`${label} stream failed: ${err.message}`);
+  }
+  return { content, model };
+};
+
+// Shared by the OpenRouter and OpenAI-compatible providers
+const createChatProvider = ({ name, url, headers, configured, missingConfig, label }, options) => {
+  const request = (messages, opts) => {
+    if (!configured) throw new ProviderError(`${missingConfig} is not set`, { code: 'LLM_NOT_CONFIGURED' });
+    return [url, headers, { model: options.model, messages, max_tokens: opts.max_tokens ?? 500 },
+      { ...options, label, signal: opts.signal }];
+  };
+  return {
+    name,
+    model: options.model,
+    configured,
+    complete: async (messages, opts = {}) => postChatCompletion(...request(messages, opts)),
+    stream: async (messages, opts = {}, onDelta) => postChatCompletionStream(...request(messages, opts), onDelta),
+  };
+};
+
+const createOpenRouterProvider = (env, options) => createChatProvider({
+  name: 'openrouter',
+  url: 'https://openrouter.ai/api/v1/chat/completions',
+  headers: {
+    Authorization: `Bearer ${env.OPENROUTER_API_KEY}`,
+    'HTTP-Referer': 'http://localhost:8000', // You might want to change this later
+    'X-Title': 'SmartRX Hackathon',          // Or this
+  },
+  configured: Boolean(env.OPENROUTER_API_KEY),
+  missingConfig: 'OPENROUTER_API_KEY',
+  label: 'OpenRouter',
+}, options);
+
+const createOpenAiCompatibleProvider = (env, options) => {
+  const baseUrl = (env.LLM_BASE_URL || '').replace(/\/+$/, '');
+  return createChatProvider({
+    name: 'openai',
+    url: `${baseUrl}/chat/completions`,
+    headers: env.LLM_API_KEY ? { Authorization: `Bearer ${env.LLM_API_KEY}` } : {},
+    configured: Boolean(baseUrl),
+    missingConfig: 'LLM_BASE_URL',
+    label: 'LLM server',
+  }, options);
+};
+
+const MOCK_CHUNK_SIZE = 16;
+const MOCK_CHUNK_DELAY_MS = 20;
+
+const createMockProvider = (env, options) => {
+  const content = env.LLM_MOCK_RESPONSE || JSON.stringify(MOCK_RESPONSE);
+  return {
+    name: 'mock',
+    model: options.model,
+    configured: true,
+    complete: async () => ({ content, model: options.model }),
+    // Replays the canned answer in small chunks so streaming can be exercised offline
+    stream: async (messages, opts = {}, onDelta) => {
+      for (let i = 0; i < content.length; i += MOCK_CHUNK_SIZE) {
+        opts.signal?.throwIfAborted();
+        onDelta(content.slice(i, i + MOCK_CHUNK_SIZE));
+        await sleep(MOCK_CHUNK_DELAY_MS);
+      }
+      return { content, model: options.model };
+    },
+  };
+};
+
+const FACTORIES = {
+  openrouter: createOpenRouterProvider,
+  openai: createOpenAiCompatibleProvider,
+  mock: createMockProvider,
+};
+
+// Builds the provider selected by the environment. Missing credentials do not throw:
+// the provider reports `configured: false` and the safety check falls back to the rule engine.
+// An unknown LLM_PROVIDER does throw, so a typo stops the server at startup instead of
+// silently answering every check with the mock's canned "Safe".
+const createLlmProvider = (env = process.env) => {
+  const name = (env.LLM_PROVIDER || 'openrouter').toLowerCase();
+  if (!FACTORIES[name]) {
+    throw new Error(`Unknown LLM_PROVIDER "${env.LLM_PROVIDER}" (expected one of: ${Object.keys(FACTORIES).join(', ')})`);
+  }
+  const defaults = PROVIDER_DEFAULTS[name];
+  const provider = FACTORIES[name](env, {
+    model: env.LLM_MODEL || defaults.model,
+    timeoutMs: numberFromEnv(env.LLM_TIMEOUT_MS, defaults.timeoutMs),
+    maxRetries: numberFromEnv(env.LLM_MAX_RETRIES, defaults.maxRetries),
+  });
+  if (!provider.configured) {
+    console.warn(`LLM provider "${name}" is missing its configuration - safety checks will use the local rules only`);
+  }
+  return provider;
+};
+
+module.exports = { createLlmProvider, ProviderError };
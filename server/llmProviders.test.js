@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createLlmProvider, ProviderError } from './llmProviders.cjs';
+
+const MESSAGES = [{ role: 'user', content: 'Check this prescription' }];
+
+const reply = (content, init = {}) => new Response(
+  JSON.stringify({ model: 'served-model', choices: [{ message: { content } }] }),
+  { status: 200, headers: { 'Content-Type': 'application/json' }, ...init }
+);
+
+const errorReply = (status, text = 'upstream error') => new Response(text, { status });
+
+// A fetch that never answers, but rejects like the real one when its signal aborts
+const hangingFetch = () => vi.fn((url, { signal }) => new Promise((resolve, reject) => {
+  signal.addEventListener('abort', () => reject(signal.reason));
+}));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('createLlmProvider', () => {
+  it('defaults to OpenRouter', () => {
+    const provider = createLlmProvider({ OPENROUTER_API_KEY: 'key' });
+    expect(provider.name).toBe('openrouter');
+    expect(provider.configured).toBe(true);
+    expect(provider.model).toBe('meta-llama/llama-3.2-3b-instruct:free');
+  });
+
+  it('selects the provider named in LLM_PROVIDER, in any case', () => {
+    expect(createLlmProvider({ LLM_PROVIDER: 'OpenAI', LLM_BASE_URL: 'http://localhost:11434/v1' }).name).toBe('openai');
+    expect(createLlmProvider({ LLM_PROVIDER: 'mock' }).name).toBe('mock');
+  });
+
+  it('throws on an unknown LLM_PROVIDER instead of falling back to the mock', () => {
+    expect(() => createLlmProvider({ LLM_PROVIDER: 'openruter', OPENROUTER_API_KEY: 'key' }))
+      .toThrow('Unknown LLM_PROVIDER "openruter"');
+  });
+
+  it('reports a provider without credentials as not configured and refuses requests', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const provider = createLlmProvider({ LLM_PROVIDER: 'openai' });
+    expect(provider.configured).toBe(false);
+    await expect(provider.complete(MESSAGES)).rejects.toMatchObject({ code: 'LLM_NOT_CONFIGURED' });
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('takes the model from LLM_MODEL', () => {
+    expect(createLlmProvider({ OPENROUTER_API_KEY: 'key', LLM_MODEL: 'other/model' }).model).toBe('other/model');
+  });
+});
+
+describe('OpenAI-compatible requests', () => {
+  const env = {
+    LLM_PROVIDER: 'openai',
+    LLM_BASE_URL: 'http://localhost:11434/v1/',
+    LLM_API_KEY: 'secret',
+    LLM_MODEL: 'llama3.2',
+    LLM_MAX_RETRIES: '2',
+  };
+
+  it('posts the messages to /chat/completions and returns the reply', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(reply('{"overall_assessment":"Caution","flags":[]}'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await createLlmProvider(env).complete(MESSAGES, { max_tokens: 100 });
+
+    expect(result).toEqual({ content: '{"overall_assessment":"Caution","flags":[]}', model: 'served-model' });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('http://localhost:11434/v1/chat/completions');
+    expect(init.headers.Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init.body)).toEqual({ model: 'llama3.2', messages: MESSAGES, max_tokens: 100 });
+  });
+
+  it('retries 5xx and 429 replies and returns the first success', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(errorReply(503))
+      .mockResolvedValueOnce(errorReply(429))
+      .mockResolvedValueOnce(reply('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await createLlmProvider(env).complete(MESSAGES);
+
+    expect(result.content).toBe('ok');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('retries network failures', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new TypeError('fetch failed'))
+      .mockResolvedValueOnce(reply('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(createLlmProvider(env).complete(MESSAGES)).resolves.toMatchObject({ content: 'ok' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry client errors', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(errorReply(401, 'bad key'));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const error = await createLlmProvider(env).complete(MESSAGES).catch(err => err);
+
+    expect(error).toBeInstanceOf(ProviderError);
+    expect(error).toMatchObject({ code: 'LLM_UNAVAILABLE', message: 'LLM server error: 401 - bad key' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up after LLM_MAX_RETRIES retries', async () => {
+    const fetchMock = vi.fn().mockImplementation(async () => errorReply(500));
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(createLlmProvider({ ...env, LLM_MAX_RETRIES: '1' }).complete(MESSAGES))
+      .rejects.toMatchObject({ code: 'LLM_UNAVAILABLE' });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('reports LLM_TIMEOUT when no reply arrives within LLM_TIMEOUT_MS', async () => {
+    const fetchMock = hangingFetch();
+    vi.stubGlobal('fetch', fetchMock);
+
+    await expect(createLlmProvider({ ...env, LLM_TIMEOUT_MS: '20', LLM_MAX_RETRIES: '0' }).complete(MESSAGES))
+      .rejects.toMatchObject({ code: 'LLM_TIMEOUT', message: 'LLM server timed out after 20ms' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not retry a request the caller cancelled', async () => {
+    const fetchMock = hangingFetch();
+    vi.stubGlobal('fetch', fetchMock);
+    const controller = new AbortController();
+
+    const request = createLlmProvider(env).complete(MESSAGES, { signal: controller.signal });
+    controller.abort();
+
+    await expect(request).rejects.toMatchObject({ name: 'AbortError' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('mock provider', () => {
+  it('answers "Safe" with no flags without touching the network', async () => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+
+    const result = await createLlmProvider({ LLM_PROVIDER: 'mock' }).complete(MESSAGES);
+
+    expect(JSON.parse(result.content)).toEqual({ overall_assessment: 'Safe', flags: [] });
+    expect(result.model).toBe('mock');
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('answers with LLM_MOCK_RESPONSE when it is set', async () => {
+    const canned = '{"overall_assessment":"High-Risk","flags":[]}';
+    const result = await createLlmProvider({ LLM_PROVIDER: 'mock', LLM_MOCK_RESPONSE: canned }).complete(MESSAGES);
+    expect(result.content).toBe(canned);
+  });
+
+  it('streams the same answer in chunks', async () => {
+    const canned = JSON.stringify({ overall_assessment: 'Caution', flags: [{ problematic_drug: 'Ibuprofen' }] });
+    const deltas = [];
+
+    const result = await createLlmProvider({ LLM_PROVIDER: 'mock', LLM_MOCK_RESPONSE: canned })
+      .stream(MESSAGES, {}, delta => deltas.push(delta));
+
+    expect(deltas.length).toBeGreaterThan(1);
+    expect(deltas.join('')).toBe(canned);
+    expect(result.content).toBe(canned);
+  });
+
+  it('stops streaming when the caller cancels', async () => {
+    const controller = new AbortController();
+    const deltas = [];
+
+    const stream = createLlmProvider({ LLM_PROVIDER: 'mock' }).stream(MESSAGES, { signal: controller.signal }, delta => {
+      deltas.push(delta);
+      controller.abort();
+    });
+
+    await expect(stream).rejects.toMatchObject({ name: 'AbortError' });
+    expect(deltas).toHaveLength(1);
+  });
+});
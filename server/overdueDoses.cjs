@@ -0,0 +1,29 @@
+// server/overdueDoses.cjs
+// Background sweep that marks pending doses as missed once the practice's grace window
+// (practice_settings.missed_dose_grace_minutes) has passed; see mark_overdue_doses_missed().
+// It runs with the service role, so the audit log records each change as made by the system.
+
+const startOverdueDoseSweep = (supabaseAdmin, { intervalMs, logger = console }) => {
+  let running = false;
+
+  const sweep = async () => {
+    if (running) return; // A slow sweep is still in progress
+    running = true;
+    try {
+      const { data, error } = await supabaseAdmin.rpc('mark_overdue_doses_missed');
+      if (error) throw error;
+      if (data > 0) logger.log(`Marked ${data} overdue dose(s) as missed`);
+    } catch (err) {
+      logger.error("Overdue dose sweep failed:", err.message || err);
+    } finally {
+      running = false;
+    }
+  };
+
+  sweep();
+  const timer = setInterval(sweep, intervalMs);
+  timer.unref(); // Do not keep the process alive just for the sweep
+  return () => clearInterval(timer);
+};
+
+module.exports = { startOverdueDoseSweep };
@@ -0,0 +1,43 @@
+// server/rateLimit.cjs
+// Fixed-window, in-memory rate limiting middleware. Rejected requests get a 429 with a
+// Retry-After header and a JSON body in the same {code, detail} shape as other API errors.
+
+const createRateLimiter = ({ windowMs, max, keyFn, label }) => {
+  const windows = new Map(); // key -> { count, resetAt }
+
+  // Drop expired windows so the map does not grow without bound
+  setInterval(() => {
+    const now = Date.now();
+    for (const [key, window] of windows) {
+      if (window.resetAt <= now) windows.delete(key);
+    }
+  }, windowMs).unref();
+
+  return (req, res, next) => {
+    const key = keyFn(req);
+    if (!key || max <= 0) return next();
+
+    const now = Date.now();
+    let window = windows.get(key);
+    if (!window || window.resetAt <= now) {
+      window = { count: 0, resetAt: now + windowMs };
+      windows.set(key, window);
+    }
+    window.count++;
+
+    res.set('RateLimit-Limit', String(max));
+    res.set('RateLimit-Remaining', String(Math.max(0, max - window.count)));
+    if (window.count > max) {
+      const retryAfter = Math.ceil((window.resetAt - now) / 1000);
+      res.set('Retry-After', String(retryAfter));
+      return res.status(429).json({
+        code: 'RATE_LIMITED',
+        detail: `Too many safety checks ${label}. Try again in ${retryAfter}s.`,
+        retry_after: retryAfter,
+      });
+    }
+    next();
+  };
+};
+
+module.exports = { createRateLimiter };
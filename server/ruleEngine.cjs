@@ -0,0 +1,144 @@
+// server/ruleEngine.cjs
+// Deterministic safety checks against the local dataset in server/data/interactions.json:
+// drug-drug interactions, drug-allergy, drug-condition, duplicate therapeutic class and
+// re-prescribing a drug the patient reported a severe reaction to.
+// Flags use the same shape as the LLM's so both can be merged into one result.
+
+const dataset = require('./data/interactions.json');
+
+const SEVERITY_RANK = { minor: 1, moderate: 2, high: 3 };
+const ASSESSMENT_RANK = { Safe: 0, Caution: 1, 'High-Risk': 2 };
+
+const escapeRegExp = (text) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Whole-word match for drug names; conditions are prefix matches ("pregnan" -> "pregnancy")
+const containsTerm = (text, term, { prefix = false } = {}) =>
+  new RegExp(`\\b${escapeRegExp(term)}${prefix ? '' : '\\b'}`, 'i').test(text);
+
+// Known drugs mentioned in free text (a prescribed drug name or the ongoing medications list)
+const findDrugs = (text) => {
+  if (!text) return [];
+  return Object.entries(dataset.drugs)
+    .filter(([name, info]) => [name, ...info.aliases].some(term => containsTerm(text, term)))
+    .map(([name, info]) => ({ name, classes: info.classes }));
+};
+
+// A rule term is either a drug name or a class name
+const matchesTerm = (drug, term) => drug.name === term || drug.classes.includes(term);
+
+// `drug` is the matched dataset entry for the flagged medication; a rule's `replacement`
+// only applies when that drug is the side it is meant `for`
+const flag = (rule, drugLabel, explanation, drug) => ({
+  problematic_drug: drugLabel,
+  issue: rule.issue,
+  explanation,
+  suggested_alternative: rule.alternative || 'None',
+  ...(rule.replacement && drug && matchesTerm(drug, rule.replacement.for) && { replacement_drug: rule.replacement.drug }),
+  severity: rule.severity,
+  engine: 'rules',
+});
+
+const assessmentFor = (flags) => {
+  const worst = Math.max(0, ...flags.map(f => SEVERITY_RANK[f.severity] || 0));
+  if (worst >= SEVERITY_RANK.high) return 'High-Risk';
+  if (worst >= SEVERITY_RANK.moderate) return 'Caution';
+  return 'Safe';
+};
+
+// The stricter of two assessments
+const worseAssessment = (a, b) =>
+  (ASSESSMENT_RANK[b] ?? 0) > (ASSESSMENT_RANK[a] ?? 0) ? b : a;
+
+// e.g. "Warfarin (current medication, prescribed by Dr. Lee)"
+const currentMedicationLabel = (med) =>
+  `${med.drug_name} (current medication${med.prescribed_by ? `, prescribed by ${med.prescribed_by}` : ''})`;
+
+// `payload` is the /run-safety-check request body
+const runRuleChecks = ({ history, new_prescriptions }) => {
+  const flags = [];
+  const allergyNotes = (history?.allergies || []).join(';');
+  const conditionNotes = (history?.conditions || []).map(c => `${c.name} ${c.notes || ''}`).join(';');
+  const currentDrugs = (history?.active_medications || [])
+    .flatMap(med => findDrugs(med.drug_name).map(d => ({ ...d, label: currentMedicationLabel(med) })));
+
+  const severeReactions = (history?.symptom_reports || []).filter(r => r.severity === 'severe' && r.medication);
+
+  const prescribed = new_prescriptions.map(med => ({ label: med.drug_name, drugs: findDrugs(med.drug_name) }));
+
+  // Severe reaction reported on the same drug (also matched by name for drugs outside the dataset)
+  prescribed.forEach(med => {
+    for (const report of severeReactions) {
+      const sameDrug = containsTerm(report.medication, med.label) || containsTerm(med.label, report.medication)
+        || findDrugs(report.medication).some(d => med.drugs.some(drug => drug.name === d.name));
+      if (!sameDrug) continue;
+      flags.push(flag(
+        { issue: 'Previous severe reaction', severity: 'high', alternative: 'Review the reaction with the patient before prescribing it again' },
+        med.label,
+        `The patient reported a severe reaction (${report.symptom}) to ${report.medication}, starting ${report.onset}.`
+      ));
+    }
+  });
+
+  prescribed.forEach((med, index) => {
+    for (const drug of med.drugs) {
+      // Drug-drug: against everything the patient already takes and the rest of this prescription
+      const others = [
+        ...currentDrugs,
+        ...prescribed.slice(index + 1).flatMap(m => m.drugs.map(d => ({ ...d, label: m.label }))),
+      ];
+      for (const other of others) {
+        if (other.name === drug.name) {
+          flags.push(flag(
+            { issue: 'Duplicate therapy', severity: 'moderate', alternative: 'Prescribe it only once' },
+            med.label,
+            `${med.label} duplicates ${other.label}.`
+          ));
+          continue;
+        }
+        const rule = dataset.drug_drug.find(r =>
+          (matchesTerm(drug, r.a) && matchesTerm(other, r.b)) || (matchesTerm(drug, r.b) && matchesTerm(other, r.a)));
+        if (rule) flags.push(flag(rule, med.label, `${rule.explanation} Interacts with ${other.label}.`, drug));
+      }
+
+      // Duplicate therapeutic class
+      for (const other of others) {
+        if (other.name === drug.name) continue; // Flagged above
+        const shared = drug.classes.find(c => dataset.duplicate_therapy_classes.includes(c) && other.classes.includes(c));
+        if (shared) {
+          flags.push(flag(
+            { issue: 'Duplicate therapy', severity: 'moderate', alternative: 'Use a single agent from this class' },
+            med.label,
+            `${med.label} and ${other.label} are both in the ${shared.replace(/_/g, ' ')} class.`
+          ));
+        }
+      }
+
+      // Drug-allergy
+      for (const rule of dataset.drug_allergy) {
+        if (rule.drugs.some(term => matchesTerm(drug, term)) && rule.allergen.some(term => containsTerm(allergyNotes, term))) {
+          flags.push(flag(rule, med.label, rule.explanation, drug));
+        }
+      }
+
+      // Drug-condition
+      for (const rule of dataset.drug_condition) {
+        const condition = rule.conditions.find(term => containsTerm(conditionNotes, term, { prefix: true }));
+        if (condition && rule.drugs.some(term => matchesTerm(drug, term))) {
+          flags.push(flag(rule, med.label, `${rule.explanation} (History: ${condition}.)`, drug));
+        }
+      }
+    }
+  });
+
+  // The same rule can fire through several aliases or classes; keep one of each
+  const unique = flags.filter((f, i) =>
+    flags.findIndex(g => g.problematic_drug === f.problematic_drug && g.issue === f.issue && g.explanation === f.explanation) === i);
+
+  return {
+    dataset_version: dataset.version,
+    overall_assessment: assessmentFor(unique),
+    flags: unique,
+  };
+};
+
+module.exports = { runRuleChecks, worseAssessment, RULES_VERSION: dataset.version };
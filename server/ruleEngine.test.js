@@ -0,0 +1,132 @@
+import { describe, expect, it } from 'vitest';
+import { runRuleChecks, worseAssessment, RULES_VERSION } from './ruleEngine.cjs';
+
+const EMPTY_HISTORY = { allergies: [], conditions: [], active_medications: [], symptom_reports: [] };
+
+const check = (drugNames, history = {}) => runRuleChecks({
+  history: { ...EMPTY_HISTORY, ...history },
+  new_prescriptions: drugNames.map(drug_name => ({ drug_name, dosage: '1 tablet', frequency: 'Twice daily' })),
+});
+
+const current = (drug_name, prescribed_by) => ({ drug_name, source: 'prescription', prescribed_by });
+
+describe('runRuleChecks', () => {
+  it('passes a prescription with nothing to flag', () => {
+    expect(check(['Amoxicillin'])).toEqual({ dataset_version: RULES_VERSION, overall_assessment: 'Safe', flags: [] });
+  });
+
+  it('ignores drugs that are not in the dataset', () => {
+    expect(check(['Cetirizine'], { allergies: ['Penicillin'], conditions: [{ name: 'Asthma' }] }).flags).toEqual([]);
+  });
+
+  it('flags interactions with current medications, matched by brand name', () => {
+    const result = check(['Advil 400 mg'], { active_medications: [current('Coumadin', 'Dr. Lee')] });
+
+    expect(result.overall_assessment).toBe('High-Risk');
+    expect(result.flags).toEqual([{
+      problematic_drug: 'Advil 400 mg',
+      issue: 'Bleeding risk',
+      explanation: 'NSAIDs combined with an anticoagulant markedly increase the risk of serious bleeding. Interacts with Coumadin (current medication, prescribed by Dr. Lee).',
+      suggested_alternative: 'Paracetamol for pain, if appropriate',
+      replacement_drug: 'Paracetamol',
+      severity: 'high',
+      engine: 'rules',
+    }]);
+  });
+
+  it('flags an interaction inside the new prescription once, offering a replacement only for the matching side', () => {
+    const result = check(['Warfarin', 'Ibuprofen']);
+
+    expect(result.flags).toHaveLength(1);
+    expect(result.flags[0]).toMatchObject({ problematic_drug: 'Warfarin', issue: 'Bleeding risk' });
+    expect(result.flags[0]).not.toHaveProperty('replacement_drug');
+  });
+
+  it('flags prescribing a drug the patient already takes', () => {
+    const result = check(['Ibuprofen'], { active_medications: [{ drug_name: 'Brufen', source: 'patient' }] });
+
+    expect(result.overall_assessment).toBe('Caution');
+    expect(result.flags).toEqual([expect.objectContaining({
+      issue: 'Duplicate therapy',
+      explanation: 'Ibuprofen duplicates Brufen (current medication).',
+      severity: 'moderate',
+    })]);
+  });
+
+  it('flags two drugs of the same therapeutic class', () => {
+    const result = check(['Lisinopril', 'Enalapril']);
+
+    expect(result.flags).toEqual([expect.objectContaining({
+      issue: 'Duplicate therapy',
+      explanation: 'Lisinopril and Enalapril are both in the ace inhibitor class.',
+    })]);
+  });
+
+  it('flags drug allergies and suggests the rule replacement', () => {
+    const result = check(['Augmentin 625'], { allergies: ['Penicillin (hives)'] });
+
+    expect(result.overall_assessment).toBe('High-Risk');
+    expect(result.flags).toEqual([expect.objectContaining({
+      problematic_drug: 'Augmentin 625',
+      issue: 'Penicillin allergy',
+      replacement_drug: 'Azithromycin',
+    })]);
+  });
+
+  it('matches conditions by prefix, in the condition name or its notes', () => {
+    const byName = check(['Atorvastatin'], { conditions: [{ name: 'Pregnancy' }] });
+    const byNotes = check(['Metformin'], { conditions: [{ name: 'Diabetes', notes: 'stage 3 kidney disease' }] });
+
+    expect(byName.flags).toEqual([expect.objectContaining({ severity: 'high', explanation: expect.stringContaining('(History: pregnan.)') })]);
+    expect(byNotes.flags).toEqual([expect.objectContaining({ severity: 'moderate', explanation: expect.stringContaining('(History: kidney disease.)') })]);
+  });
+
+  it('matches drug names as whole words only', () => {
+    // "pan" is an alias of pantoprazole, which interacts with levothyroxine
+    expect(check(['Panadol'], { active_medications: [current('Levothyroxine')] }).flags).toEqual([]);
+    expect(check(['Pan 40'], { active_medications: [current('Levothyroxine')] }).flags).toEqual([
+      expect.objectContaining({ issue: 'Reduced absorption', severity: 'minor' }),
+    ]);
+  });
+
+  it('reports each flag once when the same drug is listed twice', () => {
+    const result = check(['Ibuprofen'], { active_medications: [current('Warfarin'), current('Warfarin')] });
+    expect(result.flags.filter(f => f.issue === 'Bleeding risk')).toHaveLength(1);
+  });
+
+  describe('previous severe reactions', () => {
+    const report = (medication, severity = 'severe') => ({ symptom: 'Swelling', severity, onset: '2025-03-02', medication });
+
+    it('flags re-prescribing a drug with a severe reaction, also through its brand name', () => {
+      const result = check(['Amoxil 500'], { symptom_reports: [report('Amoxicillin')] });
+
+      expect(result.overall_assessment).toBe('High-Risk');
+      expect(result.flags).toEqual([expect.objectContaining({
+        problematic_drug: 'Amoxil 500',
+        issue: 'Previous severe reaction',
+        explanation: 'The patient reported a severe reaction (Swelling) to Amoxicillin, starting 2025-03-02.',
+      })]);
+    });
+
+    it('matches drugs outside the dataset by name', () => {
+      expect(check(['Cetirizine'], { symptom_reports: [report('Cetirizine 10 mg')] }).flags).toHaveLength(1);
+    });
+
+    it('ignores reports that are not severe or name no medication', () => {
+      const reports = [report('Amoxicillin', 'moderate'), report(null)];
+      expect(check(['Amoxicillin'], { symptom_reports: reports }).flags).toEqual([]);
+    });
+  });
+});
+
+describe('worseAssessment', () => {
+  it('returns the stricter assessment', () => {
+    expect(worseAssessment('Safe', 'Caution')).toBe('Caution');
+    expect(worseAssessment('High-Risk', 'Caution')).toBe('High-Risk');
+    expect(worseAssessment('Caution', 'Caution')).toBe('Caution');
+  });
+
+  it('ignores an unknown assessment', () => {
+    expect(worseAssessment('Caution', undefined)).toBe('Caution');
+  });
+});
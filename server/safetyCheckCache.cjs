@@ -0,0 +1,60 @@
+// server/safetyCheckCache.cjs
+// In-memory, content-addressed cache of /run-safety-check results. The key is a hash of the
+// normalized payload plus everything else that can change the answer (rule dataset version,
+// LLM provider and model), so editing a prescription or the rules never returns a stale hit.
+
+const crypto = require('crypto');
+
+const MAX_ENTRIES = 500;
+
+// Case, whitespace and list order (medications, allergies, conditions) do not change the analysis
+const normalizeValue = (value) => {
+  if (typeof value === 'string') return value.trim().replace(/\s+/g, ' ').toLowerCase();
+  if (Array.isArray(value)) return value.map(normalizeValue);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort().reduce((acc, key) => ({ ...acc, [key]: normalizeValue(value[key]) }), {});
+  }
+  return value;
+};
+
+const sortedList = (list = []) =>
+  list.map(normalizeValue).sort((a, b) => JSON.stringify(a).localeCompare(JSON.stringify(b)));
+
+const cacheKey = (payload, context) => {
+  const normalized = normalizeValue({
+    patient: payload.patient,
+    history: {
+      allergies: sortedList(payload.history.allergies),
+      conditions: sortedList(payload.history.conditions),
+      active_medications: sortedList(payload.history.active_medications),
+      symptom_reports: sortedList(payload.history.symptom_reports),
+    },
+    new_prescriptions: sortedList(payload.new_prescriptions),
+    context,
+  });
+  return crypto.createHash('sha256').update(JSON.stringify(normalized)).digest('hex');
+};
+
+const createSafetyCheckCache = ({ ttlMs }) => {
+  const entries = new Map(); // key -> { value, expiresAt }; Map keeps insertion order for eviction
+
+  return {
+    get(key) {
+      const entry = entries.get(key);
+      if (!entry) return null;
+      if (entry.expiresAt <= Date.now()) {
+        entries.delete(key);
+        return null;
+      }
+      return entry.value;
+    },
+    set(key, value) {
+      if (ttlMs <= 0) return;
+      entries.delete(key);
+      entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+      while (entries.size > MAX_ENTRIES) entries.delete(entries.keys().next().value);
+    },
+  };
+};
+
+module.exports = { cacheKey, createSafetyCheckCache };
@@ -0,0 +1,161 @@
+// server/safetyCheckSchema.cjs
+// Validation and normalization of LLM safety-check output against the schema shared with
+// the frontend (src/lib/safetyCheckSchema.json), and the re-prompt loop that repairs it.
+
+const schema = require('../src/lib/safetyCheckSchema.json');
+
+class SafetyCheckError extends Error {
+  constructor(code, message) {
+    super(message || schema.error_codes[code]?.message || code);
+    this.code = code;
+  }
+}
+
+const normalizeAssessment = (value) => {
+  if (typeof value !== 'string') return null;
+  return schema.assessment_aliases[value.trim().toLowerCase().replace(/[_\s]+/g, ' ')] || null;
+};
+
+// Pulls the JSON object out of a model reply (handles ```json fences and surrounding prose)
+const extractJson = (text) => {
+  const jsonMatch = text.match(/```(?:json)?\s*([\s\S]*?)\s*```|(\{[\s\S]*\})/);
+  const jsonText = jsonMatch ? (jsonMatch[1] || jsonMatch[2]) : text;
+  return JSON.parse(jsonText);
+};
+
+const missingFlagFields = (flag) =>
+  schema.flag_required_fields.filter(field => typeof flag?.[field] !== 'string' || !flag[field].trim());
+
+const isNoneText = (value) => typeof value !== 'string' || !value.trim() || /^(none|n\/a|-)$/i.test(value.trim());
+
+const normalizeFlag = (flag) => ({
+  problematic_drug: flag.problematic_drug.trim(),
+  issue: flag.issue.trim(),
+  explanation: flag.explanation.trim(),
+  suggested_alternative: isNoneText(flag.suggested_alternative) ? 'None' : flag.suggested_alternative.trim(),
+  // Only a bare drug name can be swapped into the draft
+  ...(!isNoneText(flag.replacement_drug) && flag.replacement_drug.trim().length <= schema.max_replacement_length && {
+    replacement_drug: flag.replacement_drug.trim(),
+  }),
+});
+
+// Returns { value } with the normalized output, or { errors } describing what is wrong.
+// The errors are phrased so they can be sent back to the model in a repair prompt.
+const validateSafetyCheckOutput = (text) => {
+  let parsed;
+  try {
+    parsed = extractJson(text || '');
+  } catch {
+    return { errors: ['The response was not valid JSON'] };
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return { errors: ['The response must be a single JSON object'] };
+  }
+
+  const errors = [];
+  const assessment = normalizeAssessment(parsed.overall_assessment);
+  if (!assessment) {
+    errors.push(`"overall_assessment" must be one of ${schema.assessments.map(a => `"${a}"`).join(', ')}`);
+  }
+  if (!Array.isArray(parsed.flags)) {
+    errors.push('"flags" must be an array');
+  }
+
+  const flags = [];
+  (Array.isArray(parsed.flags) ? parsed.flags : []).forEach((flag, index) => {
+    const missing = missingFlagFields(flag);
+    if (missing.length > 0) {
+      errors.push(`flags[${index}] is missing ${missing.map(f => `"${f}"`).join(', ')}`);
+      return;
+    }
+    flags.push(normalizeFlag(flag));
+  });
+
+  if (errors.length > 0) return { errors };
+
+  // A "Safe" verdict that still raises flags is treated as Caution
+  return {
+    value: {
+      overall_assessment: assessment === 'Safe' && flags.length > 0 ? 'Caution' : assessment,
+      flags,
+    },
+  };
+};
+
+// Incremental parser for a streamed reply: feed it text deltas and it calls onFlag with each
+// valid flag as soon as its object inside the "flags" array is complete. The final reply is
+// still validated as a whole; this only lets the UI show flags early.
+const createFlagStreamParser = (onFlag) => {
+  let buffer = '';
+  let position = -1; // Scan position inside the flags array; -1 until "flags": [ is seen
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let objectStart = -1;
+
+  return (delta) => {
+    buffer += delta;
+    if (position < 0) {
+      const match = /"flags"\s*:\s*\[/.exec(buffer);
+      if (!match) return;
+      position = match.index + match[0].length;
+    }
+
+    for (; position < buffer.length; position++) {
+      const char = buffer[position];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === '\\') escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+      if (char === '"') inString = true;
+      else if (char === '{') {
+        if (depth === 0) objectStart = position;
+        depth++;
+      } else if (char === '}' && depth > 0) {
+        depth--;
+        if (depth === 0) {
+          try {
+            const flag = JSON.parse(buffer.slice(objectStart, position + 1));
+            if (missingFlagFields(flag).length === 0) onFlag(normalizeFlag(flag));
+          } catch {
+            // Malformed object; the whole-reply validation reports it
+          }
+        }
+      } else if (char === ']' && depth === 0) {
+        position = Infinity; // End of the flags array
+        return;
+      }
+    }
+  };
+};
+
+// Asks the LLM provider for a reply until it validates, re-prompting with the model's reply and
+// what was wrong with it at most `maxRepairAttempts` times. With `onFlag`, the first reply is
+// streamed and each flag is reported as soon as it is complete. Returns { value, model }.
+const requestValidOutput = async (llm, prompt, { maxRepairAttempts, max_tokens, signal, onFlag }) => {
+  const messages = [...prompt];
+  for (let attempt = 0; ; attempt++) {
+    const opts = { max_tokens, signal };
+    // Repairs are not streamed: flags from a broken first reply were already shown
+    const result = onFlag && attempt === 0
+      ? await llm.stream(messages, opts, createFlagStreamParser(onFlag))
+      : await llm.complete(messages, opts);
+
+    const text = result.content?.trim() || '';
+    const { value, errors } = validateSafetyCheckOutput(text);
+    if (value) return { value, model: result.model || llm.model };
+
+    console.error(`Invalid AI response (attempt ${attempt + 1}):`, errors, text);
+    if (attempt >= maxRepairAttempts) {
+      throw new SafetyCheckError('LLM_INVALID_OUTPUT', `AI output still invalid after ${attempt} repair attempts: ${errors.join('; ')}`);
+    }
+    messages.push(
+      { role: "assistant", content: text || "(empty response)" },
+      { role: "user", content: `Your response did not match the required format: ${errors.join('; ')}. Return ONLY the corrected JSON object.` }
+    );
+  }
+};
+
+module.exports = { schema, SafetyCheckError, validateSafetyCheckOutput, normalizeAssessment, createFlagStreamParser, requestValidOutput };
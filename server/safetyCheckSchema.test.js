@@ -0,0 +1,171 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  SafetyCheckError,
+  createFlagStreamParser,
+  normalizeAssessment,
+  requestValidOutput,
+  validateSafetyCheckOutput,
+} from './safetyCheckSchema.cjs';
+
+const FLAG = {
+  problematic_drug: 'Ibuprofen',
+  issue: 'Bleeding risk',
+  explanation: 'Interacts with warfarin.',
+  suggested_alternative: 'Paracetamol',
+  replacement_drug: 'Paracetamol',
+};
+
+const output = (overall_assessment, flags = []) => JSON.stringify({ overall_assessment, flags });
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('normalizeAssessment', () => {
+  it('maps aliases onto the three assessments', () => {
+    expect(normalizeAssessment('Moderate')).toBe('Caution');
+    expect(normalizeAssessment(' HIGH_RISK ')).toBe('High-Risk');
+    expect(normalizeAssessment('low risk')).toBe('Safe');
+  });
+
+  it('rejects unknown values', () => {
+    expect(normalizeAssessment('Probably fine')).toBeNull();
+    expect(normalizeAssessment(undefined)).toBeNull();
+  });
+});
+
+describe('validateSafetyCheckOutput', () => {
+  it('accepts a valid reply inside a code fence and surrounding prose', () => {
+    const text = `Here is my analysis:\n\`\`\`json\n${output('High-Risk', [FLAG])}\n\`\`\`\nLet me know.`;
+    expect(validateSafetyCheckOutput(text)).toEqual({ value: { overall_assessment: 'High-Risk', flags: [FLAG] } });
+  });
+
+  it('normalizes the assessment and the flag text', () => {
+    const { value } = validateSafetyCheckOutput(output('moderate', [{
+      problematic_drug: ' Ibuprofen ',
+      issue: 'Bleeding risk',
+      explanation: 'Interacts with warfarin.',
+      suggested_alternative: 'N/A',
+      replacement_drug: 'none',
+    }]));
+
+    expect(value).toEqual({
+      overall_assessment: 'Caution',
+      flags: [{ problematic_drug: 'Ibuprofen', issue: 'Bleeding risk', explanation: 'Interacts with warfarin.', suggested_alternative: 'None' }],
+    });
+  });
+
+  it('drops a replacement that is not a bare drug name', () => {
+    const { value } = validateSafetyCheckOutput(output('Caution', [{ ...FLAG, replacement_drug: 'x'.repeat(61) }]));
+    expect(value.flags[0]).not.toHaveProperty('replacement_drug');
+  });
+
+  it('treats "Safe" with flags as Caution', () => {
+    expect(validateSafetyCheckOutput(output('Safe', [FLAG])).value.overall_assessment).toBe('Caution');
+  });
+
+  it('reports text that is not JSON', () => {
+    expect(validateSafetyCheckOutput('The prescription looks fine.')).toEqual({ errors: ['The response was not valid JSON'] });
+    expect(validateSafetyCheckOutput('')).toEqual({ errors: ['The response was not valid JSON'] });
+  });
+
+  it('reports JSON that is not a single object', () => {
+    expect(validateSafetyCheckOutput('[]')).toEqual({ errors: ['The response must be a single JSON object'] });
+  });
+
+  it('reports every problem, phrased for the repair prompt', () => {
+    const { value, errors } = validateSafetyCheckOutput(JSON.stringify({
+      overall_assessment: 'Probably fine',
+      flags: [FLAG, { problematic_drug: 'Warfarin', issue: '  ' }],
+    }));
+
+    expect(value).toBeUndefined();
+    expect(errors).toEqual([
+      '"overall_assessment" must be one of "Safe", "Caution", "High-Risk"',
+      'flags[1] is missing "issue", "explanation"',
+    ]);
+  });
+
+  it('requires a flags array', () => {
+    expect(validateSafetyCheckOutput(JSON.stringify({ overall_assessment: 'Safe' })).errors).toEqual(['"flags" must be an array']);
+  });
+});
+
+describe('createFlagStreamParser', () => {
+  it('reports each complete, valid flag as soon as its object closes', () => {
+    const flags = [];
+    const parse = createFlagStreamParser(flag => flags.push(flag));
+    const text = output('Caution', [{ ...FLAG, explanation: 'Braces } and "quotes" in text' }, { problematic_drug: 'Broken' }, FLAG]);
+
+    for (let i = 0; i < text.length; i += 7) parse(text.slice(i, i + 7));
+
+    expect(flags.map(flag => flag.explanation)).toEqual(['Braces } and "quotes" in text', 'Interacts with warfarin.']);
+  });
+});
+
+describe('requestValidOutput', () => {
+  const PROMPT = [{ role: 'user', content: 'Check this prescription' }];
+
+  // A provider that returns the given replies in turn
+  const fakeLlm = (...replies) => ({
+    model: 'default-model',
+    complete: vi.fn(async () => ({ content: replies.shift(), model: 'served-model' })),
+    stream: vi.fn(async (messages, opts, onDelta) => {
+      const content = replies.shift();
+      onDelta(content);
+      return { content };
+    }),
+  });
+
+  it('returns the first valid reply without re-prompting', async () => {
+    const llm = fakeLlm(output('Safe'));
+
+    const result = await requestValidOutput(llm, PROMPT, { maxRepairAttempts: 2, max_tokens: 600 });
+
+    expect(result).toEqual({ value: { overall_assessment: 'Safe', flags: [] }, model: 'served-model' });
+    expect(llm.complete).toHaveBeenCalledWith(PROMPT, { max_tokens: 600, signal: undefined });
+  });
+
+  it('sends the invalid reply and its errors back to the model and returns the repaired reply', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const llm = fakeLlm('{"overall_assessment": "Moderate"}', output('Moderate', [FLAG]));
+
+    const result = await requestValidOutput(llm, PROMPT, { maxRepairAttempts: 2 });
+
+    expect(result.value).toEqual({ overall_assessment: 'Caution', flags: [FLAG] });
+    expect(llm.complete).toHaveBeenCalledTimes(2);
+    const repairMessages = llm.complete.mock.calls[1][0];
+    expect(repairMessages.slice(1)).toEqual([
+      { role: 'assistant', content: '{"overall_assessment": "Moderate"}' },
+      { role: 'user', content: 'Your response did not match the required format: "flags" must be an array. Return ONLY the corrected JSON object.' },
+    ]);
+    expect(PROMPT).toHaveLength(1); // The caller's messages are not modified
+  });
+
+  it('gives up with LLM_INVALID_OUTPUT after the last repair attempt', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const llm = fakeLlm('not json', '', 'still not json');
+
+    const error = await requestValidOutput(llm, PROMPT, { maxRepairAttempts: 2 }).catch(err => err);
+
+    expect(error).toBeInstanceOf(SafetyCheckError);
+    expect(error.code).toBe('LLM_INVALID_OUTPUT');
+    expect(llm.complete).toHaveBeenCalledTimes(3);
+    expect(llm.complete.mock.calls[1][0][1]).toEqual({ role: 'assistant', content: 'not json' });
+    expect(llm.complete.mock.calls[2][0][3]).toEqual({ role: 'assistant', content: '(empty response)' });
+  });
+
+  it('streams only the first reply and falls back to the provider model', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const llm = fakeLlm('{"overall_assessment": "Safe", "flags": [{"problematic_drug": "Ibuprofen"}', output('Safe'));
+    llm.complete = vi.fn(async () => ({ content: output('Safe') }));
+    const onFlag = vi.fn();
+
+    const result = await requestValidOutput(llm, PROMPT, { maxRepairAttempts: 1, onFlag });
+
+    expect(llm.stream).toHaveBeenCalledTimes(1);
+    expect(llm.complete).toHaveBeenCalledTimes(1);
+    expect(onFlag).not.toHaveBeenCalled();
+    expect(result.model).toBe('default-model');
+  });
+});
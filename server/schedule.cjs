@@ -0,0 +1,131 @@
+// server/schedule.cjs
+// Expands a prescription's medications into medication_logs rows.
+// Mirrors the frequency model in src/lib/frequency.ts.
+
+const DOSE_SLOTS = ['morning', 'afternoon', 'night'];
+const DEFAULT_DOSE_TIMES = { morning: '08:00', afternoon: '13:00', night: '20:00' };
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+const HOUR_MS = 60 * 60 * 1000;
+
+const resolveDoseTimes = (doseTimes) => {
+  const resolved = { ...DEFAULT_DOSE_TIMES };
+  for (const slot of DOSE_SLOTS) {
+    if (doseTimes && TIME_PATTERN.test(doseTimes[slot] || '')) resolved[slot] = doseTimes[slot];
+  }
+  return resolved;
+};
+
+// Medications saved before structured frequencies only carry `timing`
+const getFrequency = (med) => {
+  if (med.frequency) return med.frequency;
+  const timing = med.timing || {};
+  return { type: 'daily', slots: DOSE_SLOTS.filter(slot => timing[slot]) };
+};
+
+// Offset (ms) of `timeZone` from UTC at the given instant
+const zoneOffset = (instant, timeZone) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric', month: '2-digit', day: '2-digit',
+    hour: '2-digit', minute: '2-digit', second: '2-digit',
+  }).formatToParts(instant);
+  const get = (type) => Number(parts.find(p => p.type === type).value);
+  const asUtc = Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second'));
+  return asUtc - Math.floor(instant.getTime() / 1000) * 1000;
+};
+
+// Wall-clock time in `timeZone` -> Date (second pass corrects across DST changes)
+const zonedDate = (year, monthIndex, day, time, timeZone) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  const guess = Date.UTC(year, monthIndex, day, hours, minutes);
+  const firstPass = guess - zoneOffset(new Date(guess), timeZone);
+  return new Date(guess - zoneOffset(new Date(firstPass), timeZone));
+};
+
+// "YYYY-MM-DD" -> [year, monthIndex, day]
+const parseDate = (value) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return [year, month - 1, day];
+};
+
+// Expand one medication into { scheduled_time, dose_slot, dosage, dose } doses, start/end dates inclusive
+const expandMedication = (med, startDate, endDate, doseTimes, timeZone) => {
+  const frequency = getFrequency(med);
+  const doses = [];
+  const [startYear, startMonth, startDay] = parseDate(startDate);
+  const [endYear, endMonth, endDay] = parseDate(endDate);
+  const endExclusive = zonedDate(endYear, endMonth, endDay + 1, '00:00', timeZone);
+
+  // PRN medications have no schedule; the patient logs each dose
+  if (frequency.type === 'prn') return doses;
+
+  if (frequency.type === 'interval') {
+    const everyMs = frequency.every_hours * HOUR_MS;
+    if (!(everyMs > 0)) return doses;
+    let time = zonedDate(startYear, startMonth, startDay, frequency.first_dose, timeZone).getTime();
+    for (; time < endExclusive.getTime(); time += everyMs) {
+      doses.push({ scheduled_time: new Date(time), dose_slot: null, dosage: med.dosage, dose: med.dose || null });
+    }
+    return doses;
+  }
+
+  const slots = frequency.slots || [];
+  for (let dayIndex = 0; ; dayIndex++) {
+    const day = new Date(Date.UTC(startYear, startMonth, startDay + dayIndex));
+    const [year, monthIndex, date] = [day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate()];
+    if (zonedDate(year, monthIndex, date, '00:00', timeZone) >= endExclusive) break;
+
+    let dosage = med.dosage;
+    let dose = med.dose || null;
+    if (frequency.type === 'every_n_days' && dayIndex % frequency.every_days !== 0) continue;
+    if (frequency.type === 'weekly' && !frequency.weekdays.includes(day.getUTCDay())) continue;
+    if (frequency.type === 'taper') {
+      let offset = dayIndex;
+      const step = frequency.steps.find(s => {
+        if (offset < s.days) return true;
+        offset -= s.days;
+        return false;
+      });
+      if (!step) break; // Taper finished
+      dosage = step.dosage;
+      dose = null; // Taper steps only have free-text dosages
+    }
+
+    for (const slot of slots) {
+      doses.push({
+        scheduled_time: zonedDate(year, monthIndex, date, doseTimes[slot], timeZone),
+        dose_slot: slot,
+        dosage,
+        dose,
+      });
+    }
+  }
+  return doses;
+};
+
+// Build the medication_logs rows for a whole prescription
+// Dose times are in the patient's stored time zone, which the caller has checked is set
+const buildScheduleLogs = (prescription, patient) => {
+  const doseTimes = resolveDoseTimes(patient.dose_times);
+  const timeZone = patient.timezone;
+  const logs = [];
+
+  for (const med of prescription.medications || []) {
+    const doses = expandMedication(med, prescription.start_date, prescription.end_date, doseTimes, timeZone);
+    for (const dose of doses) {
+      logs.push({
+        patient_id: prescription.patient_id,
+        medication_id: med.id,
+        medication_name: med.name,
+        dosage: dose.dosage,
+        dose: dose.dose,
+        scheduled_time: dose.scheduled_time.toISOString(),
+        dose_slot: dose.dose_slot,
+      });
+    }
+  }
+  return logs;
+};
+
+module.exports = { buildScheduleLogs };
@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { buildScheduleLogs } from './schedule.cjs';
+
+const KOLKATA = { timezone: 'Asia/Kolkata' }; // UTC+5:30, no DST
+const NEW_YORK = { timezone: 'America/New_York' }; // DST starts 2026-03-08, ends 2026-11-01
+
+const prescription = (medications, start_date, end_date = start_date) => ({
+  patient_id: 'patient-1',
+  start_date,
+  end_date,
+  medications: medications.map((med, index) => ({ id: `med-${index + 1}`, name: 'Metformin', dosage: '500 mg', ...med })),
+});
+
+const times = (logs) => logs.map(log => log.scheduled_time);
+
+describe('buildScheduleLogs', () => {
+  it('schedules daily slots at the default dose times in the patient time zone', () => {
+    const logs = buildScheduleLogs(
+      prescription([{ frequency: { type: 'daily', slots: ['morning', 'night'] }, dose: { amount: 1, unit: 'tablet' } }], '2026-01-10', '2026-01-11'),
+      KOLKATA
+    );
+
+    expect(logs).toEqual([
+      { patient_id: 'patient-1', medication_id: 'med-1', medication_name: 'Metformin', dosage: '500 mg', dose: { amount: 1, unit: 'tablet' }, scheduled_time: '2026-01-10T02:30:00.000Z', dose_slot: 'morning' },
+      { patient_id: 'patient-1', medication_id: 'med-1', medication_name: 'Metformin', dosage: '500 mg', dose: { amount: 1, unit: 'tablet' }, scheduled_time: '2026-01-10T14:30:00.000Z', dose_slot: 'night' },
+      { patient_id: 'patient-1', medication_id: 'med-1', medication_name: 'Metformin', dosage: '500 mg', dose: { amount: 1, unit: 'tablet' }, scheduled_time: '2026-01-11T02:30:00.000Z', dose_slot: 'morning' },
+      { patient_id: 'patient-1', medication_id: 'med-1', medication_name: 'Metformin', dosage: '500 mg', dose: { amount: 1, unit: 'tablet' }, scheduled_time: '2026-01-11T14:30:00.000Z', dose_slot: 'night' },
+    ]);
+  });
+
+  it("uses the patient's own dose times and ignores malformed ones", () => {
+    const logs = buildScheduleLogs(
+      prescription([{ frequency: { type: 'daily', slots: ['morning', 'afternoon', 'night'] } }], '2026-01-10'),
+      { ...KOLKATA, dose_times: { morning: '06:45', afternoon: '1pm', night: '22:00' } }
+    );
+    expect(times(logs)).toEqual(['2026-01-10T01:15:00.000Z', '2026-01-10T07:30:00.000Z', '2026-01-10T16:30:00.000Z']);
+  });
+
+  it('keeps the wall-clock dose time across a DST change', () => {
+    const logs = buildScheduleLogs(
+      prescription([{ frequency: { type: 'daily', slots: ['morning'] } }], '2026-03-07', '2026-03-09'),
+      NEW_YORK
+    );
+    expect(times(logs)).toEqual(['2026-03-07T13:00:00.000Z', '2026-03-08T12:00:00.000Z', '2026-03-09T12:00:00.000Z']);
+  });
+
+  it("ends on the end date's midnight in the patient time zone, not UTC", () => {
+    // 21:00 in New York is already the next day in UTC; the last night dose must still be kept
+    const logs = buildScheduleLogs(
+      prescription([{ frequency: { type: 'daily', slots: ['night'] } }], '2026-06-01', '2026-06-02'),
+      { ...NEW_YORK, dose_times: { night: '21:00' } }
+    );
+    expect(times(logs)).toEqual(['2026-06-02T01:00:00.000Z', '2026-06-03T01:00:00.000Z']);
+  });
+
+  it('expands medications saved with the legacy timing flags', () => {
+    const logs = buildScheduleLogs(
+      prescription([{ timing: { morning: false, afternoon: true, night: true } }], '2026-01-10'),
+      KOLKATA
+    );
+    expect(logs.map(log => log.dose_slot)).toEqual(['afternoon', 'night']);
+  });
+
+  it('schedules every N days counting from the start date', () => {
+    const logs = buildScheduleLogs(
+      prescription([{ frequency: { type: 'every_n_days', every_days: 3, slots: ['morning'] } }], '2026-01-10', '2026-01-20'),
+      KOLKATA
+    );
+    expect(times(logs).map(time => time.slice(0, 10))).toEqual(['2026-01-10', '2026-01-13', '2026-01-16', '2026-01-19']);
+  });
+
+  it('schedules weekly doses on the weekdays of the patient calendar', () => {
+    // 2026-01-12 is a Monday; 08:00 in Kolkata is still Sunday/Monday night in UTC
+    const logs = buildScheduleLogs(
+      prescription([{ frequency: { type: 'weekly', weekdays: [1, 4], slots: ['morning'] } }], '2026-01-11', '2026-01-18'),
+      { ...KOLKATA, dose_times: { morning: '03:00' } }
+    );
+    expect(times(logs)).toEqual(['2026-01-11T21:30:00.000Z', '2026-01-14T21:30:00.000Z']);
+  });
+
+  it('schedules interval doses from the first dose until the end of the end date', () => {
+    const logs = buildScheduleLogs(
+      prescription([{ frequency: { type: 'interval', every_hours: 8, first_dose: '06:00' } }], '2026-01-10', '2026-01-11'),
+      KOLKATA
+    );
+    expect(times(logs)).toEqual([
+      '2026-01-10T00:30:00.000Z', // 06:00
+      '2026-01-10T08:30:00.000Z', // 14:00
+      '2026-01-10T16:30:00.000Z', // 22:00
+      '2026-01-11T00:30:00.000Z',
+      '2026-01-11T08:30:00.000Z',
+      '2026-01-11T16:30:00.000Z',
+    ]);
+    expect(logs.every(log => log.dose_slot === null)).toBe(true);
+  });
+
+  it('steps the dosage down through a taper and stops when it finishes', () => {
+    const logs = buildScheduleLogs(
+      prescription([{
+        dose: { amount: 40, unit: 'mg' },
+        frequency: { type: 'taper', slots: ['morning'], steps: [{ days: 2, dosage: '40 mg' }, { days: 1, dosage: '20 mg' }] },
+      }], '2026-01-10', '2026-01-20'),
+      KOLKATA
+    );
+    expect(logs.map(log => [log.scheduled_time.slice(0, 10), log.dosage, log.dose])).toEqual([
+      ['2026-01-10', '40 mg', null],
+      ['2026-01-11', '40 mg', null],
+      ['2026-01-12', '20 mg', null],
+    ]);
+  });
+
+  it('does not schedule as-needed medications', () => {
+    const logs = buildScheduleLogs(
+      prescription([
+        { name: 'Paracetamol', frequency: { type: 'prn', max_per_day: 4 } },
+        { frequency: { type: 'daily', slots: ['morning'] } },
+      ], '2026-01-10'),
+      KOLKATA
+    );
+    expect(logs.map(log => log.medication_id)).toEqual(['med-2']);
+  });
+});
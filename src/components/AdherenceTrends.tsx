@@ -0,0 +1,242 @@
+// Adherence over a chosen date range for one patient: overall and on-time rates, a
+// daily/weekly/monthly trend chart and a per-medication breakdown. Used on the patient's
+// dashboard and in the doctor's adherence detail.
+
+import { useEffect, useState } from 'react';
+import { BarChart3, Clock } from 'lucide-react';
+import {
+  ADHERENCE_PERIOD_LABELS,
+  ADHERENCE_TARGET_RATE,
+  AdherenceLog,
+  AdherencePeriod,
+  MAX_RANGE_DAYS,
+  ON_TIME_WINDOW_MINUTES,
+  adherenceByMedication,
+  adherenceTrend,
+  countAdherence,
+  formatRate,
+  loadAdherenceLogs,
+  localDayKey,
+} from '../lib/adherence';
+
+type RangePreset = '7' | '30' | '90' | '365' | 'custom';
+
+const RANGE_PRESETS: { value: RangePreset; label: string; period: AdherencePeriod }[] = [
+  { value: '7', label: 'Last 7 days', period: 'day' },
+  { value: '30', label: 'Last 30 days', period: 'day' },
+  { value: '90', label: 'Last 90 days', period: 'week' },
+  { value: '365', label: 'Last 12 months', period: 'month' },
+  { value: 'custom', label: 'Custom range', period: 'week' },
+];
+
+const daysAgo = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() - days + 1);
+  return localDayKey(date);
+};
+
+interface AdherenceTrendsProps {
+  patientId: string;
+  graceMinutes: number; // The practice's missed-dose grace period
+  reloadKey?: unknown; // Reloads the logs whenever this changes (e.g. after a dose is recorded)
+}
+
+export function AdherenceTrends({ patientId, graceMinutes, reloadKey }: AdherenceTrendsProps) {
+  const [preset, setPreset] = useState<RangePreset>('30');
+  const [period, setPeriod] = useState<AdherencePeriod>('day');
+  const [fromDay, setFromDay] = useState(() => daysAgo(30));
+  const [toDay, setToDay] = useState(() => localDayKey(new Date()));
+  const [logs, setLogs] = useState<AdherenceLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  // Whole local days, from the start of `fromDay` to the end of `toDay`
+  const from = new Date(`${fromDay}T00:00:00`);
+  const to = new Date(`${toDay}T23:59:59.999`);
+  const rangeError = !fromDay || !toDay || from > to
+    ? 'The start date must be on or before the end date.'
+    : (to.getTime() - from.getTime()) / (24 * 60 * 60 * 1000) > MAX_RANGE_DAYS
+      ? `Please choose a range of at most ${MAX_RANGE_DAYS} days.`
+      : null;
+
+  useEffect(() => {
+    if (rangeError) return;
+    const fetchLogs = async () => {
+      setLoading(true);
+      setError(null);
+      try {
+        setLogs(await loadAdherenceLogs(
+          [patientId],
+          new Date(`${fromDay}T00:00:00`),
+          new Date(`${toDay}T23:59:59.999`)
+        ));
+      } catch (error) {
+        console.error("Error loading adherence trends:", error instanceof Error ? error.message : error);
+        setError("Could not load adherence for this range.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchLogs();
+  }, [patientId, fromDay, toDay, rangeError, reloadKey]);
+
+  const handlePreset = (value: RangePreset) => {
+    const option = RANGE_PRESETS.find(p => p.value === value)!;
+    setPreset(value);
+    setPeriod(option.period);
+    if (value !== 'custom') {
+      setFromDay(daysAgo(Number(value)));
+      setToDay(localDayKey(new Date()));
+    }
+  };
+
+  const now = new Date();
+  const totals = countAdherence(logs, now, graceMinutes);
+  const trend = adherenceTrend(logs, { from, to, period, now, graceMinutes });
+  const byMedication = adherenceByMedication(logs, now, graceMinutes);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between flex-wrap gap-2">
+        <h3 className="font-semibold text-gray-900 flex items-center gap-2">
+          <BarChart3 className="w-5 h-5 text-teal-600" /> Adherence Trends
+        </h3>
+        <div className="flex items-center gap-2 flex-wrap text-sm">
+          <select
+            value={preset}
+            onChange={(e) => handlePreset(e.target.value as RangePreset)}
+            className="px-2 py-1 border rounded-lg"
+          >
+            {RANGE_PRESETS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+          {preset === 'custom' && (
+            <>
+              <input type="date" value={fromDay} onChange={(e) => setFromDay(e.target.value)} className="px-2 py-1 border rounded-lg" />
+              <span className="text-gray-500">to</span>
+              <input type="date" value={toDay} onChange={(e) => setToDay(e.target.value)} className="px-2 py-1 border rounded-lg" />
+            </>
+          )}
+          <select
+            value={period}
+            onChange={(e) => setPeriod(e.target.value as AdherencePeriod)}
+            className="px-2 py-1 border rounded-lg"
+          >
+            {(Object.keys(ADHERENCE_PERIOD_LABELS) as AdherencePeriod[]).map(value => (
+              <option key={value} value={value}>{ADHERENCE_PERIOD_LABELS[value]}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+
+      {rangeError || error ? (
+        <p className="text-sm text-red-600">{rangeError || error}</p>
+      ) : loading ? (
+        <p className="text-sm text-gray-500">Loading adherence...</p>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 text-center">
+            <TrendStat label="Adherence" value={formatRate(totals.rate)} />
+            <TrendStat label="On time" value={formatRate(totals.on_time_rate)} />
+            <TrendStat label="Taken late" value={totals.late} />
+            <TrendStat label="Missed" value={totals.missed} />
+            <TrendStat label="Skipped" value={totals.skipped} />
+          </div>
+          <p className="text-xs text-gray-500 flex items-center gap-1">
+            <Clock className="w-3 h-3" /> Doses taken more than {ON_TIME_WINDOW_MINUTES} minutes after their scheduled time count as late.
+            Skipped and as-needed doses are not counted.
+          </p>
+
+          <TrendChart points={trend} />
+
+          <div>
+            <p className="text-sm font-medium text-gray-700 mb-2">By medication</p>
+            {byMedication.length === 0 ? (
+              <p className="text-sm text-gray-500">No scheduled doses in this range.</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-gray-500 border-b">
+                      <th className="py-2 pr-4 font-medium">Medication</th>
+                      <th className="py-2 pr-4 font-medium">Adherence</th>
+                      <th className="py-2 pr-4 font-medium">On time</th>
+                      <th className="py-2 pr-4 font-medium">Late</th>
+                      <th className="py-2 pr-4 font-medium">Missed</th>
+                      <th className="py-2 font-medium">Skipped</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {byMedication.map(({ prescription_id, medication_id, medication_name, counts }) => (
+                      <tr key={`${prescription_id}:${medication_id}`} className="border-b">
+                        <td className="py-2 pr-4 text-gray-900">{medication_name}</td>
+                        <td className={`py-2 pr-4 ${counts.rate !== null && counts.rate < ADHERENCE_TARGET_RATE ? 'text-red-700 font-semibold' : 'text-gray-700'}`}>
+                          {formatRate(counts.rate)}
+                        </td>
+                        <td className="py-2 pr-4 text-gray-700">{formatRate(counts.on_time_rate)}</td>
+                        <td className="py-2 pr-4 text-gray-700">{counts.late}</td>
+                        <td className="py-2 pr-4 text-gray-700">{counts.missed}</td>
+                        <td className="py-2 text-gray-700">{counts.skipped}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
+
+function TrendStat({ label, value }: { label: string; value: number | string }) {
+  return (
+    <div className="p-2 bg-gray-50 rounded-lg border">
+      <p className="text-lg font-bold text-gray-800">{value}</p>
+      <p className="text-xs text-gray-500">{label}</p>
+    </div>
+  );
+}
+
+// One bar per period, its height the adherence rate; periods with nothing due show no bar
+function TrendChart({ points }: { points: ReturnType<typeof adherenceTrend> }) {
+  const labelEvery = Math.ceil(points.length / 8);
+
+  return (
+    <div>
+      <div className="relative h-40 flex items-end gap-px border-b border-l border-gray-200">
+        <div
+          className="absolute left-0 right-0 border-t border-dashed border-red-300"
+          style={{ bottom: `${ADHERENCE_TARGET_RATE * 100}%` }}
+          title={`${formatRate(ADHERENCE_TARGET_RATE)} target`}
+        />
+        {points.map(({ start, label, counts }) => (
+          <div
+            key={start.toISOString()}
+            className="flex-1 h-full flex items-end"
+            title={counts.rate === null
+              ? `${label}: nothing due`
+              : `${label}: ${formatRate(counts.rate)} (${counts.taken} taken, ${counts.late} late, ${counts.missed} missed, ${counts.skipped} skipped)`}
+          >
+            {counts.rate !== null && (
+              <div className={`w-full rounded-t ${barColor(counts.rate)}`} style={{ height: `${Math.max(counts.rate * 100, 2)}%` }} />
+            )}
+          </div>
+        ))}
+      </div>
+      <div className="flex gap-px mt-1">
+        {points.map(({ start, label }, index) => (
+          <span key={start.toISOString()} className="flex-1 text-[10px] text-gray-500 truncate">
+            {index % labelEvery === 0 ? label : ''}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function barColor(rate: number): string {
+  if (rate >= ADHERENCE_TARGET_RATE) return 'bg-teal-500';
+  if (rate >= 0.5) return 'bg-yellow-400';
+  return 'bg-red-400';
+}
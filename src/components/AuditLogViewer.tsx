@@ -0,0 +1,179 @@
+import { useEffect, useState } from 'react';
+import { RefreshCw, ScrollText } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabaseClient';
+
+// --- (Types) ---
+type AuditEntry = {
+  id: string;
+  entity_type: 'prescription' | 'medication_log';
+  entity_id: string;
+  action: 'created' | 'edited' | 'status_changed' | 'deleted' | 'schedule_regenerated';
+  actor_id: string | null;
+  actor_type: 'user' | 'system';
+  prescription_id: string | null;
+  patient_id: string | null;
+  details: Record<string, string | number | null>;
+  created_at: string;
+};
+
+type Profile = {
+  id: string;
+  full_name: string;
+};
+
+interface AuditLogViewerProps {
+  patients: Profile[];
+}
+// --- (End Types) ---
+
+const PAGE_SIZE = 100;
+
+const ACTION_STYLES: Record<AuditEntry['action'], string> = {
+  created: 'bg-green-100 text-green-800',
+  edited: 'bg-blue-100 text-blue-800',
+  status_changed: 'bg-yellow-100 text-yellow-800',
+  deleted: 'bg-red-100 text-red-800',
+  schedule_regenerated: 'bg-gray-100 text-gray-700',
+};
+
+export function AuditLogViewer({ patients }: AuditLogViewerProps) {
+  const { profile } = useAuth();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [entityFilter, setEntityFilter] = useState<'all' | AuditEntry['entity_type']>('all');
+  const [patientFilter, setPatientFilter] = useState('');
+  const [limit, setLimit] = useState(PAGE_SIZE);
+  const [reloadKey, setReloadKey] = useState(0); // Bumped by the Refresh button
+
+  useEffect(() => {
+    const loadEntries = async () => {
+      if (!profile) return;
+      setLoading(true);
+      try {
+        let query = supabase
+          .from('audit_log')
+          .select('*')
+          .eq('doctor_id', profile.id)
+          .order('created_at', { ascending: false })
+          .limit(limit);
+        if (entityFilter !== 'all') query = query.eq('entity_type', entityFilter);
+        if (patientFilter) query = query.eq('patient_id', patientFilter);
+
+        const { data, error } = await query;
+        if (error) throw error;
+        setEntries(data as AuditEntry[] || []);
+      } catch (error) {
+        console.error("Error loading audit log:", error instanceof Error ? error.message : error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadEntries();
+  }, [profile, entityFilter, patientFilter, limit, reloadKey]);
+
+  const actorName = (entry: AuditEntry) => {
+    if (entry.actor_type === 'system' || !entry.actor_id) return 'System';
+    if (entry.actor_id === profile?.id) return 'You';
+    return patients.find(p => p.id === entry.actor_id)?.full_name || 'Unknown user';
+  };
+
+  const patientName = (patientId: string | null) =>
+    patients.find(p => p.id === patientId)?.full_name || 'Unknown patient';
+
+  const describeEntry = (entry: AuditEntry) => {
+    const subject = entry.entity_type === 'prescription'
+      ? 'Prescription'
+      : `Dose of ${entry.details.medication_name || 'medication'}${entry.details.scheduled_time ? ` (${new Date(String(entry.details.scheduled_time)).toLocaleString()})` : ''}`;
+
+    switch (entry.action) {
+      case 'created': return `${subject} created`;
+      case 'deleted': return `${subject} deleted`;
+      case 'status_changed': return `${subject}: ${entry.details.from} → ${entry.details.to}`;
+      case 'edited':
+        return entry.details.to_version
+          ? `${subject} edited (v${entry.details.from_version} → v${entry.details.to_version})`
+          : `${subject} edited`;
+      case 'schedule_regenerated':
+        return `Schedule regenerated: ${entry.details.inserted} doses added, ${entry.details.removed} removed`;
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 mb-4">
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <ScrollText className="w-5 h-5 text-blue-600" /> Audit Log
+        </h2>
+        <div className="flex gap-2">
+          <select
+            value={entityFilter}
+            onChange={(e) => setEntityFilter(e.target.value as typeof entityFilter)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="all">All records</option>
+            <option value="prescription">Prescriptions</option>
+            <option value="medication_log">Medication logs</option>
+          </select>
+          <select
+            value={patientFilter}
+            onChange={(e) => setPatientFilter(e.target.value)}
+            className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+          >
+            <option value="">All patients</option>
+            {patients.map(p => <option key={p.id} value={p.id}>{p.full_name}</option>)}
+          </select>
+          <button
+            onClick={() => setReloadKey(reloadKey + 1)}
+            className="flex items-center gap-1 px-3 py-1.5 border border-gray-300 rounded-lg text-sm text-gray-700 hover:bg-gray-50"
+          >
+            <RefreshCw className="w-4 h-4" /> Refresh
+          </button>
+        </div>
+      </div>
+
+      {loading && entries.length === 0 ? (
+        <p className="text-sm text-gray-500">Loading audit log...</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-gray-500">No audit entries yet.</p>
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-xs text-gray-500 border-b">
+                <th className="py-2 pr-4">When</th>
+                <th className="py-2 pr-4">Who</th>
+                <th className="py-2 pr-4">Action</th>
+                <th className="py-2 pr-4">Patient</th>
+                <th className="py-2">Details</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map(entry => (
+                <tr key={entry.id} className="border-b last:border-0 align-top">
+                  <td className="py-2 pr-4 text-gray-600 whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</td>
+                  <td className="py-2 pr-4 text-gray-900">{actorName(entry)}</td>
+                  <td className="py-2 pr-4">
+                    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${ACTION_STYLES[entry.action]}`}>
+                      {entry.action.replace('_', ' ')}
+                    </span>
+                  </td>
+                  <td className="py-2 pr-4 text-gray-700">{patientName(entry.patient_id)}</td>
+                  <td className="py-2 text-gray-700">{describeEntry(entry)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {entries.length >= limit && (
+            <button
+              onClick={() => setLimit(limit + PAGE_SIZE)}
+              className="mt-4 w-full py-2 text-sm text-blue-700 hover:bg-blue-50 rounded-lg"
+            >
+              Load more
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
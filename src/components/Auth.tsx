@@ -1,13 +1,8 @@
 import { useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { UserPlus, LogIn, Stethoscope, User, Plus, X } from 'lucide-react';
-
-// New type for history items
-type HistoryItem = {
-  id: string;
-  complication: string;
-  description: string;
-};
+import { UserPlus, LogIn, Stethoscope, User } from 'lucide-react';
+import { MedicalRecordsForm } from './MedicalRecordsForm';
+import { EMPTY_MEDICAL_RECORDS, MedicalRecords, medicalRecordsForSignUp } from '../lib/medicalRecords';
 
 export function Auth() {
   const [isSignUp, setIsSignUp] = useState(false);
@@ -26,36 +21,10 @@ export function Auth() {
 
   // Patient-specific fields
   const [dateOfBirth, setDateOfBirth] = useState('');
-  const [ongoingMedications, setOngoingMedications] = useState('');
-  const [medicalHistory, setMedicalHistory] = useState<HistoryItem[]>([]);
-
-  // State for the temporary history item being added
-  const [currentComplication, setCurrentComplication] = useState('');
-  const [currentDescription, setCurrentDescription] = useState('');
+  const [medicalRecords, setMedicalRecords] = useState<MedicalRecords>(EMPTY_MEDICAL_RECORDS);
 
   const { signUp, signIn } = useAuth();
 
-  const handleAddHistoryItem = () => {
-    if (!currentComplication) {
-      alert("Please enter a complication name (e.g., 'Surgery', 'Allergy').");
-      return;
-    }
-    setMedicalHistory([
-      ...medicalHistory,
-      {
-        id: 'hist_' + Math.random().toString(36).slice(2, 9),
-        complication: currentComplication,
-        description: currentDescription,
-      },
-    ]);
-    setCurrentComplication('');
-    setCurrentDescription('');
-  };
-
-  const handleRemoveHistoryItem = (id: string) => {
-    setMedicalHistory(medicalHistory.filter(item => item.id !== id));
-  };
-
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -76,9 +45,8 @@ export function Auth() {
         } else {
           // Add new patient data
           if (dateOfBirth) signUpData.date_of_birth = dateOfBirth;
-          if (ongoingMedications) signUpData.ongoing_medications = ongoingMedications;
-          // Send medical history, but remove the temporary client-side 'id'
-          signUpData.medical_history = medicalHistory.map(({ id, ...rest }) => rest);
+          // Stored as structured records by the import_signup_medical_records trigger
+          Object.assign(signUpData, medicalRecordsForSignUp(medicalRecords));
         }
 
         await signUp(signUpData);
@@ -222,65 +190,8 @@ export function Auth() {
                   />
                 </div>
 
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Ongoing Medications (if any)
-                  </label>
-                  <textarea
-                    value={ongoingMedications}
-                    onChange={(e) => setOngoingMedications(e.target.value)}
-                    className="w-full px-4 py-2 border border-gray-300 rounded-lg"
-                    rows={2}
-                    placeholder="e.g., Metformin 500mg, Lisinopril 10mg"
-                  />
-                </div>
-
-                {/* Medical History Section */}
-                <div>
-                  <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Medical History (Major complications, allergies, etc.)
-                  </label>
-
-                  {/* List of added items */}
-                  <div className="space-y-2 mb-2">
-                    {medicalHistory.map(item => (
-                      <div key={item.id} className="flex items-start justify-between p-2 bg-gray-50 rounded-lg border">
-                        <div>
-                          <p className="font-semibold text-sm">{item.complication}</p>
-                          <p className="text-xs text-gray-600">{item.description}</p>
-                        </div>
-                        <button type="button" onClick={() => handleRemoveHistoryItem(item.id)} className="text-red-500 hover:text-red-700">
-                          <X className="w-4 h-4" />
-                        </button>
-                      </div>
-                    ))}
-                  </div>
-
-                  {/* Form to add a new item */}
-                  <div className="p-2 border rounded-lg space-y-2">
-                    <input
-                      type="text"
-                      value={currentComplication}
-                      onChange={(e) => setCurrentComplication(e.target.value)}
-                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
-                      placeholder="Complication (e.g., Penicillin Allergy)"
-                    />
-                    <textarea
-                      value={currentDescription}
-                      onChange={(e) => setCurrentDescription(e.target.value)}
-                      className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
-                      rows={2}
-                      placeholder="Description (optional)"
-                    />
-                    <button
-                      type="button"
-                      onClick={handleAddHistoryItem}
-                      className="w-full flex items-center justify-center gap-1 py-1.5 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 text-sm"
-                    >
-                      <Plus className="w-4 h-4" /> Add to History
-                    </button>
-                  </div>
-                </div>
+                {/* Allergies, conditions and current medications */}
+                <MedicalRecordsForm value={medicalRecords} onChange={setMedicalRecords} />
               </>
             )}
 
@@ -1,10 +1,20 @@
 import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Users, FileText, LogOut, Plus, Activity } from 'lucide-react';
+import { Users, FileText, LogOut, Plus, Activity, ClipboardList } from 'lucide-react';
 import { PrescriptionForm } from './PrescriptionForm';
 import { PrescriptionList } from './PrescriptionList';
 import { supabase } from '../lib/supabaseClient';
 import { MedicalHistoryCheck } from './MedicalHistoryCheck';
+import { AuditLogViewer } from './AuditLogViewer';
+import { PracticeSettingsPanel } from './PracticeSettingsPanel';
+import { PatientRecordsModal } from './PatientRecordsModal';
+import { PatientAdherence } from './PatientAdherence';
+import { SymptomReportsPanel } from './SymptomReportsPanel';
+import { DoseTimes, DOSE_SLOTS, DOSE_SLOT_LABELS, resolveDoseTimes, formatDoseTime } from '../lib/doseTimes';
+import { Frequency, LegacyTiming } from '../lib/frequency';
+import { regenerateSchedule } from '../lib/api';
+import { SafetyCheckRecord } from '../lib/safetyCheck';
+import { Dose } from '../lib/dose';
 
 // --- (Types: Profile, Prescription) ---
 type Profile = {
@@ -12,10 +22,10 @@ type Profile = {
   full_name: string;
   email: string;
   date_of_birth?: string;
+  weight_kg?: number | null;
+  weight_updated_at?: string | null;
   specialization?: string;
-  // --- ADD THESE NEW FIELDS ---
-  ongoing_medications?: string;
-  medical_history?: { complication: string; description: string }[];
+  dose_times?: Partial<DoseTimes> | null;
 };
 
 type Prescription = {
@@ -29,16 +39,21 @@ type Prescription = {
   medications: {
     id: string;
     name: string;
+    catalog_id?: string | null;
     dosage: string;
-    timing: { morning: boolean; afternoon: boolean; night: boolean };
+    dose?: Dose;
+    frequency: Frequency;
+    timing?: LegacyTiming; // Prescriptions saved before structured frequencies
     instructions: string;
   }[];
+  version?: number;
+  safety_check?: SafetyCheckRecord | null;
   created_at?: string; // Will come from DB
 };
 // --- (End Types) ---
 
 export function DoctorDashboard() {
-  const { profile, signOut } = useAuth();
+  const { profile, session, signOut } = useAuth();
   
   // --- MODIFIED: Both states now start empty and load from DB ---
   const [patients, setPatients] = useState<Profile[]>([]);
@@ -48,7 +63,9 @@ export function DoctorDashboard() {
   const [draftPrescription, setDraftPrescription] = useState<Prescription | null>(null);
   const [showPrescriptionForm, setShowPrescriptionForm] = useState(false);
   const [selectedPatient, setSelectedPatient] = useState<Profile | null>(null);
-  const [activeTab, setActiveTab] = useState<'patients' | 'prescriptions'>('prescriptions');
+  const [recordsPatient, setRecordsPatient] = useState<Profile | null>(null); // Patient whose medical records are open
+  const [editingPrescription, setEditingPrescription] = useState<Prescription | null>(null);
+  const [activeTab, setActiveTab] = useState<'patients' | 'prescriptions' | 'audit' | 'settings'>('prescriptions');
   const [newPatientEmail, setNewPatientEmail] = useState('');
 
   // --- NEW: Function to load the doctor's patient list from DB ---
@@ -91,6 +108,7 @@ export function DoctorDashboard() {
         .from('prescriptions')
         .select('*')
         .eq('doctor_id', profile.id)
+        .is('deleted_at', null) // Soft-deleted prescriptions are only visible in the audit log
         .order('created_at', { ascending: false }); // Show newest first
 
       if (error) throw error;
@@ -167,62 +185,50 @@ export function DoctorDashboard() {
     try {
       // 1. Save the main prescription
       const { id, ...prescriptionToInsert } = finalPrescription;
-      
-      const { data: newPrescription, error: prescriptionError } = await supabase
-        .from('prescriptions')
-        .insert(prescriptionToInsert)
-        .select() // Get the newly created row
-        .single(); // We know we only inserted one
+      const isEdit = prescriptions.some(p => p.id === id);
+
+      // Edits save a new version (the DB trigger snapshots the previous content); status is kept
+      const { data: newPrescription, error: prescriptionError } = isEdit
+        ? await supabase
+            .from('prescriptions')
+            .update({
+              diagnosis: finalPrescription.diagnosis ?? null,
+              start_date: finalPrescription.start_date,
+              end_date: finalPrescription.end_date,
+              medications: finalPrescription.medications,
+              safety_check: finalPrescription.safety_check ?? null,
+            })
+            .eq('id', id)
+            .select()
+            .single()
+        : await supabase
+            .from('prescriptions')
+            .insert(prescriptionToInsert)
+            .select() // Get the newly created row
+            .single(); // We know we only inserted one
       
       if (prescriptionError) throw prescriptionError;
 
-      // --- 2. NEW: GENERATE MEDICATION LOGS ---
-      const logsToInsert = [];
-      const startDate = new Date(newPrescription.start_date);
-      const endDate = new Date(newPrescription.end_date);
-      
-      // Loop from start date to end date
-      for (let day = new Date(startDate); day <= endDate; day.setDate(day.getDate() + 1)) {
-        
-        for (const med of newPrescription.medications) {
-          
-          const createLogEntry = (time: 'morning' | 'afternoon' | 'night') => {
-            const scheduled_time = new Date(day);
-            if (time === 'morning') scheduled_time.setHours(8, 0, 0, 0); // 8:00 AM
-            if (time === 'afternoon') scheduled_time.setHours(13, 0, 0, 0); // 1:00 PM
-            if (time === 'night') scheduled_time.setHours(20, 0, 0, 0); // 8:00 PM
-
-            return {
-              patient_id: newPrescription.patient_id,
-              prescription_id: newPrescription.id,
-              medication_id: med.id,
-              medication_name: med.name,
-              dosage: med.dosage,
-              scheduled_time: scheduled_time.toISOString(),
-              status: 'pending',
-            };
-          };
-
-          if (med.timing.morning) logsToInsert.push(createLogEntry('morning'));
-          if (med.timing.afternoon) logsToInsert.push(createLogEntry('afternoon'));
-          if (med.timing.night) logsToInsert.push(createLogEntry('night'));
-        }
-      }
-
-      // 3. Bulk insert all generated logs
-      if (logsToInsert.length > 0) {
-        const { error: logsError } = await supabase
-          .from('medication_logs')
-          .insert(logsToInsert);
-        
-        if (logsError) throw logsError;
+      // 2. Generate the medication logs on the server (transactional, safe to retry).
+      //    For edits this replaces only the upcoming pending doses.
+      try {
+        await regenerateSchedule(newPrescription.id, session?.access_token);
+      } catch (scheduleError: unknown) {
+        await loadPrescriptions();
+        setCurrentView('dashboard');
+        setDraftPrescription(null);
+        const reason = scheduleError instanceof Error ? scheduleError.message : String(scheduleError);
+        alert(`Prescription saved, but its schedule could not be generated (${reason}). Use "Regenerate Schedule" to retry.`);
+        return;
       }
 
-      // 4. Reload the dashboard and switch view
+      // 3. Reload the dashboard and switch view
       await loadPrescriptions(); // Refresh list from DB
       setCurrentView('dashboard');
       setDraftPrescription(null);
-      alert("Prescription saved and schedule generated!");
+      alert(isEdit
+        ? `Prescription updated to version ${newPrescription.version ?? ''} and upcoming doses rescheduled!`
+        : "Prescription saved and schedule generated!");
 
     } catch (error: any) {
       console.error("Error saving prescription:", error.message);
@@ -243,6 +249,7 @@ export function DoctorDashboard() {
         patient={patients.find(p => p.id === draftPrescription.patient_id)!}
         prescription={draftPrescription}
         onFinalSave={handleFinalSave}
+        onDraftChange={setDraftPrescription}
         onCancel={() => {
           setCurrentView('dashboard');
           setDraftPrescription(null);
@@ -276,6 +283,9 @@ export function DoctorDashboard() {
       </nav>
 
       <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
+        {/* Unreviewed symptom reports */}
+        <SymptomReportsPanel patients={patients} />
+
         {/* Stats */}
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-8">
           <DashboardStat title="Total Patients" value={stats.totalPatients} icon={<Users className="w-6 h-6 text-blue-600" />} />
@@ -289,6 +299,8 @@ export function DoctorDashboard() {
             <div className="flex">
               <DashboardTab label="Prescriptions" active={activeTab === 'prescriptions'} onClick={() => setActiveTab('prescriptions')} />
               <DashboardTab label="Patients" active={activeTab === 'patients'} onClick={() => setActiveTab('patients')} />
+              <DashboardTab label="Audit Log" active={activeTab === 'audit'} onClick={() => setActiveTab('audit')} />
+              <DashboardTab label="Settings" active={activeTab === 'settings'} onClick={() => setActiveTab('settings')} />
             </div>
           </div>
 
@@ -310,10 +322,20 @@ export function DoctorDashboard() {
                   prescriptions={prescriptions}
                   patients={patients}
                   onRefresh={loadPrescriptions} // Pass the DB refresh function
+                  onEdit={(prescription) => {
+                    setEditingPrescription(prescription);
+                    setShowPrescriptionForm(true);
+                  }}
                 />
               </>
             )}
 
+            {activeTab === 'audit' && (
+              <AuditLogViewer patients={patients} />
+            )}
+
+            {activeTab === 'settings' && <PracticeSettingsPanel />}
+
             {activeTab === 'patients' && (
               <>
                 <h2 className="text-lg font-semibold text-gray-900 mb-4">Add New Patient</h2>
@@ -331,6 +353,11 @@ export function DoctorDashboard() {
                   </button>
                 </form>
 
+                <div className="mb-8">
+                  <PatientAdherence patients={patients} prescriptions={prescriptions} />
+                </div>
+
+                <h2 className="text-lg font-semibold text-gray-900 mb-4">Patients</h2>
                 <div className="grid gap-4">
                   {patients.length === 0 && (
                     <p className="text-gray-500">No patients added yet.</p>
@@ -343,16 +370,33 @@ export function DoctorDashboard() {
                         {patient.date_of_birth && (
                           <p className="text-sm text-gray-500">DOB: {new Date(patient.date_of_birth).toLocaleDateString()}</p>
                         )}
+                        {patient.weight_kg && (
+                          <p className="text-sm text-gray-500">
+                            Weight: {patient.weight_kg} kg
+                            {patient.weight_updated_at && ` (as of ${new Date(patient.weight_updated_at).toLocaleDateString()})`}
+                          </p>
+                        )}
+                        <p className="text-xs text-gray-500 mt-1">
+                          Dose times: {DOSE_SLOTS.map(slot => `${DOSE_SLOT_LABELS[slot]} ${formatDoseTime(resolveDoseTimes(patient.dose_times)[slot])}`).join(' · ')}
+                        </p>
+                      </div>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setRecordsPatient(patient)}
+                          className="flex items-center gap-1 px-4 py-2 border border-gray-300 text-gray-700 rounded-lg hover:bg-gray-100 text-sm"
+                        >
+                          <ClipboardList className="w-4 h-4" /> Medical Records
+                        </button>
+                        <button
+                          onClick={() => {
+                            setSelectedPatient(patient);
+                            setShowPrescriptionForm(true);
+                          }}
+                          className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
+                        >
+                          Create Prescription
+                        </button>
                       </div>
-                      <button
-                        onClick={() => {
-                          setSelectedPatient(patient);
-                          setShowPrescriptionForm(true);
-                        }}
-                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 text-sm"
-                      >
-                        Create Prescription
-                      </button>
                     </div>
                   ))}
                 </div>
@@ -362,17 +406,28 @@ export function DoctorDashboard() {
         </div>
       </div>
 
+      {recordsPatient && (
+        <PatientRecordsModal
+          patientId={recordsPatient.id}
+          patientName={recordsPatient.full_name}
+          onClose={() => setRecordsPatient(null)}
+        />
+      )}
+
       {showPrescriptionForm && (
         <PrescriptionForm
           patients={patients} // Pass the DB-loaded patient list
           preselectedPatient={selectedPatient}
+          initialPrescription={editingPrescription}
           onClose={() => {
             setShowPrescriptionForm(false);
             setSelectedPatient(null);
+            setEditingPrescription(null);
           }}
           onSuccess={(newPrescription) => {
             setShowPrescriptionForm(false);
             setSelectedPatient(null);
+            setEditingPrescription(null);
             setDraftPrescription(newPrescription);
             setCurrentView('ai_check');
           }}
@@ -0,0 +1,120 @@
+// Month calendar of the patient's scheduled doses. Each day is colored by how many of its due
+// doses were taken and shows taken/scheduled counts; clicking a day selects it on the dashboard.
+
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { ADHERENCE_TARGET_RATE, AdherenceLog, countAdherence, localDayKey } from '../lib/adherence';
+import { WEEKDAY_LABELS } from '../lib/frequency';
+
+type DayStatus = 'none' | 'complete' | 'partial' | 'poor' | 'upcoming' | 'skipped';
+
+const DAY_STATUS_STYLES: Record<DayStatus, { cell: string; label: string }> = {
+  none: { cell: 'bg-white border-gray-100 text-gray-400', label: 'No doses' },
+  complete: { cell: 'bg-green-100 border-green-200 text-green-900', label: 'All taken' },
+  partial: { cell: 'bg-yellow-100 border-yellow-200 text-yellow-900', label: `${Math.round(ADHERENCE_TARGET_RATE * 100)}% or more taken` },
+  poor: { cell: 'bg-red-100 border-red-200 text-red-900', label: `Under ${Math.round(ADHERENCE_TARGET_RATE * 100)}% taken` },
+  upcoming: { cell: 'bg-blue-50 border-blue-200 text-blue-900', label: 'Upcoming' },
+  skipped: { cell: 'bg-orange-50 border-orange-200 text-orange-900', label: 'Skipped' },
+};
+
+interface DoseCalendarProps {
+  logs: AdherenceLog[]; // Must cover `month`; the dashboard loads the doses of the shown month
+  month: Date; // Local first day of the shown month
+  onMonthChange: (month: Date) => void;
+  selectedDate: string; // Local "YYYY-MM-DD"
+  graceMinutes: number; // The practice's missed-dose grace period
+  onSelectDate: (date: string) => void;
+}
+
+export function DoseCalendar({ logs, month, onMonthChange, selectedDate, graceMinutes, onSelectDate }: DoseCalendarProps) {
+  const now = new Date();
+  const todayKey = localDayKey(now);
+
+  // Scheduled (non-PRN) doses grouped by local day
+  const byDay = new Map<string, AdherenceLog[]>();
+  for (const log of logs) {
+    if (log.is_prn) continue;
+    const key = localDayKey(log.scheduled_time);
+    byDay.set(key, [...(byDay.get(key) || []), log]);
+  }
+
+  // Leading blanks up to the first weekday, then every day of the month
+  const daysInMonth = new Date(month.getFullYear(), month.getMonth() + 1, 0).getDate();
+  const cells: (Date | null)[] = [
+    ...Array.from({ length: month.getDay() }, () => null),
+    ...Array.from({ length: daysInMonth }, (_, index) => new Date(month.getFullYear(), month.getMonth(), index + 1)),
+  ];
+
+  const changeMonth = (offset: number) => onMonthChange(new Date(month.getFullYear(), month.getMonth() + offset, 1));
+
+  const goToToday = () => {
+    onMonthChange(new Date(now.getFullYear(), now.getMonth(), 1));
+    onSelectDate(todayKey);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <button type="button" onClick={() => changeMonth(-1)} className="p-1 rounded hover:bg-gray-100" title="Previous month">
+          <ChevronLeft className="w-5 h-5 text-gray-600" />
+        </button>
+        <div className="flex items-center gap-3">
+          <h3 className="font-semibold text-gray-800">
+            {month.toLocaleDateString(undefined, { month: 'long', year: 'numeric' })}
+          </h3>
+          <button type="button" onClick={goToToday} className="text-xs text-teal-700 hover:underline">Today</button>
+        </div>
+        <button type="button" onClick={() => changeMonth(1)} className="p-1 rounded hover:bg-gray-100" title="Next month">
+          <ChevronRight className="w-5 h-5 text-gray-600" />
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAY_LABELS.map(label => (
+          <div key={label} className="text-xs font-medium text-gray-500 py-1">{label}</div>
+        ))}
+        {cells.map((day, index) => {
+          if (!day) return <div key={`blank-${index}`} />;
+          const key = localDayKey(day);
+          const dayLogs = byDay.get(key) || [];
+          const status = dayStatus(dayLogs, now, graceMinutes);
+          const taken = dayLogs.filter(log => log.status === 'taken').length;
+          return (
+            <button
+              key={key}
+              type="button"
+              onClick={() => onSelectDate(key)}
+              title={DAY_STATUS_STYLES[status].label}
+              className={`h-16 p-1 rounded-lg border flex flex-col items-center justify-between text-sm transition hover:ring-2 hover:ring-teal-300 ${
+                DAY_STATUS_STYLES[status].cell
+              } ${key === selectedDate ? 'ring-2 ring-teal-600' : ''}`}
+            >
+              <span className={key === todayKey ? 'font-bold underline' : ''}>{day.getDate()}</span>
+              {dayLogs.length > 0 && <span className="text-xs">{taken}/{dayLogs.length}</span>}
+            </button>
+          );
+        })}
+      </div>
+
+      {/* Legend */}
+      <div className="flex flex-wrap gap-3 text-xs text-gray-600">
+        {(Object.keys(DAY_STATUS_STYLES) as DayStatus[]).filter(status => status !== 'none').map(status => (
+          <span key={status} className="flex items-center gap-1">
+            <span className={`w-3 h-3 rounded border ${DAY_STATUS_STYLES[status].cell}`} /> {DAY_STATUS_STYLES[status].label}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+// Days are judged on the doses due so far, so today can be "all taken" with more still to come
+function dayStatus(logs: AdherenceLog[], now: Date, graceMinutes: number): DayStatus {
+  if (logs.length === 0) return 'none';
+  const { rate } = countAdherence(logs, now, graceMinutes);
+  if (rate === null) {
+    // Any dose still pending here is not due yet (or still within the grace period)
+    return logs.some(log => log.status === 'pending') ? 'upcoming' : 'skipped';
+  }
+  if (rate === 1) return 'complete';
+  return rate >= ADHERENCE_TARGET_RATE ? 'partial' : 'poor';
+}
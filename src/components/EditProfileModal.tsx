@@ -1,85 +1,108 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 import { supabase } from '../lib/supabaseClient';
-import { X, Plus, Save } from 'lucide-react';
-
-// Type for a single history item
-type HistoryItem = {
-  id: string; // Client-side ID
-  complication: string;
-  description: string;
-};
+import { X, Save, Clock, Scale } from 'lucide-react';
+import { MedicalRecordsForm } from './MedicalRecordsForm';
+import { EMPTY_MEDICAL_RECORDS, MedicalRecords, loadMedicalRecords, saveMedicalRecords } from '../lib/medicalRecords';
+import {
+  DoseTimes,
+  DOSE_SLOTS,
+  DOSE_SLOT_LABELS,
+  resolveDoseTimes,
+  isValidDoseTime,
+} from '../lib/doseTimes';
+import { regenerateSchedule } from '../lib/api';
 
 interface EditProfileModalProps {
   onClose: () => void;
 }
 
 export function EditProfileModal({ onClose }: EditProfileModalProps) {
-  const { profile, refreshProfile } = useAuth();
+  const { profile, session, refreshProfile } = useAuth();
   const [loading, setLoading] = useState(false);
 
   // Form state, initialized from the profile
-  const [ongoingMedications, setOngoingMedications] = useState('');
-  const [medicalHistory, setMedicalHistory] = useState<HistoryItem[]>([]);
-  
-  // State for the temporary history item being added
-  const [currentComplication, setCurrentComplication] = useState('');
-  const [currentDescription, setCurrentDescription] = useState('');
+  const [doseTimes, setDoseTimes] = useState<DoseTimes>(resolveDoseTimes());
+  const [weightKg, setWeightKg] = useState("");
+  // Medical records as loaded (to work out what changed) and as edited
+  const [savedRecords, setSavedRecords] = useState<MedicalRecords>(EMPTY_MEDICAL_RECORDS);
+  const [records, setRecords] = useState<MedicalRecords>(EMPTY_MEDICAL_RECORDS);
 
   // When the modal opens, populate the state from the context
   useEffect(() => {
     if (profile) {
-      setOngoingMedications(profile.ongoing_medications || '');
-      // Add client-side IDs to the history items for editing/deleting
-      const historyWithIds = (profile.medical_history || []).map((item, index) => ({
-        ...item,
-        id: `hist_${index}_${Math.random()}`,
-      }));
-      setMedicalHistory(historyWithIds);
+      setDoseTimes(resolveDoseTimes(profile.dose_times));
+      setWeightKg(profile.weight_kg ? String(profile.weight_kg) : "");
     }
   }, [profile]);
 
-  const handleAddHistoryItem = () => {
-    if (!currentComplication) {
-      alert("Please enter a complication name (e.g., 'Surgery', 'Allergy').");
-      return;
-    }
-    setMedicalHistory([
-      ...medicalHistory,
-      {
-        id: 'hist_' + Math.random().toString(36).slice(2, 9),
-        complication: currentComplication,
-        description: currentDescription,
-      },
-    ]);
-    setCurrentComplication('');
-    setCurrentDescription('');
-  };
+  useEffect(() => {
+    if (!profile) return;
+    const loadRecords = async () => {
+      try {
+        const loaded = await loadMedicalRecords(profile.id);
+        setSavedRecords(loaded);
+        setRecords(loaded);
+      } catch (error) {
+        console.error("Error loading medical records:", error instanceof Error ? error.message : error);
+      }
+    };
+    loadRecords();
+  }, [profile]);
+
+  // Regenerate the upcoming doses of each active prescription on the server (one transaction per
+  // prescription) so they follow the new dose times; doses already due are left as they were
+  const rescheduleActivePrescriptions = async (patientId: string) => {
+    const { data: activePrescriptions, error: fetchError } = await supabase
+      .from('prescriptions')
+      .select('id')
+      .eq('patient_id', patientId)
+      .eq('status', 'active')
+      .is('deleted_at', null);
+
+    if (fetchError) throw fetchError;
 
-  const handleRemoveHistoryItem = (id: string) => {
-    setMedicalHistory(medicalHistory.filter(item => item.id !== id));
+    for (const prescription of activePrescriptions || []) {
+      await regenerateSchedule(prescription.id, session?.access_token);
+    }
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
+
+    if (DOSE_SLOTS.some(slot => !isValidDoseTime(doseTimes[slot]))) {
+      alert("Please enter a valid time for each dose.");
+      return;
+    }
+    const weight = weightKg.trim() ? parseFloat(weightKg) : null;
+    if (weight !== null && !(weight > 0 && weight < 500)) {
+      alert("Please enter your weight in kilograms (e.g., 70).");
+      return;
+    }
+
     setLoading(true);
 
     try {
       if (!profile) throw new Error("No profile found.");
 
-      // Prepare data for Supabase (remove client-side IDs)
-      const historyToSave = medicalHistory.map(({ id, ...rest }) => rest);
-
       const { error } = await supabase
         .from('profiles')
         .update({
-          ongoing_medications: ongoingMedications,
-          medical_history: historyToSave,
+          dose_times: doseTimes,
+          weight_kg: weight,
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone, // Dose times are local to this device
         })
         .eq('id', profile.id); // Update *this* user's profile
 
       if (error) throw error;
 
+      await saveMedicalRecords(profile.id, savedRecords, records);
+
+      const previousDoseTimes = resolveDoseTimes(profile.dose_times);
+      if (DOSE_SLOTS.some(slot => previousDoseTimes[slot] !== doseTimes[slot])) {
+        await rescheduleActivePrescriptions(profile.id);
+      }
+
       // Manually refresh the profile in our app's context
       await refreshProfile();
       alert("Profile updated successfully!");
@@ -103,68 +126,52 @@ export function EditProfileModal({ onClose }: EditProfileModalProps) {
         </div>
 
         <form onSubmit={handleSubmit} className="p-6 space-y-4">
-          {/* Ongoing Medications */}
-          <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Ongoing Medications
-            </label>
-            <textarea
-              value={ongoingMedications}
-              onChange={(e) => setOngoingMedications(e.target.value)}
-              className="w-full px-4 py-2 border border-gray-300 rounded-lg"
-              rows={3}
-              placeholder="e.g., Metformin 500mg, Lisinopril 10mg"
-            />
-          </div>
-
-          {/* Medical History */}
+          {/* Dose Times */}
           <div>
-            <label className="block text-sm font-medium text-gray-700 mb-1">
-              Medical History
+            <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-1">
+              <Clock className="w-4 h-4" /> Dose Times
             </label>
-            
-            {/* List of added items */}
-            <div className="space-y-2 mb-2">
-              {medicalHistory.length === 0 && <p className="text-sm text-gray-400">No history items added.</p>}
-              {medicalHistory.map(item => (
-                <div key={item.id} className="flex items-start justify-between p-2 bg-gray-50 rounded-lg border">
-                  <div>
-                    <p className="font-semibold text-sm">{item.complication}</p>
-                    <p className="text-xs text-gray-600">{item.description}</p>
-                  </div>
-                  <button type="button" onClick={() => handleRemoveHistoryItem(item.id)} className="text-red-500 hover:text-red-700">
-                    <X className="w-4 h-4" />
-                  </button>
+            <p className="text-xs text-gray-500 mb-2">
+              When you want to be reminded for each dose. Upcoming doses are moved to the new times.
+            </p>
+            <div className="grid grid-cols-3 gap-3">
+              {DOSE_SLOTS.map(slot => (
+                <div key={slot}>
+                  <span className="block text-xs text-gray-600 mb-1">{DOSE_SLOT_LABELS[slot]}</span>
+                  <input
+                    type="time"
+                    value={doseTimes[slot]}
+                    onChange={(e) => setDoseTimes({ ...doseTimes, [slot]: e.target.value })}
+                    className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                    required
+                  />
                 </div>
               ))}
             </div>
+          </div>
 
-            {/* Form to add a new item */}
-            <div className="p-2 border rounded-lg space-y-2">
-              <input
-                type="text"
-                value={currentComplication}
-                onChange={(e) => setCurrentComplication(e.target.value)}
-                className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
-                placeholder="Complication (e.g., Penicillin Allergy)"
-              />
-              <textarea
-                value={currentDescription}
-                onChange={(e) => setCurrentDescription(e.target.value)}
-                className="w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
-                rows={2}
-                placeholder="Description (optional)"
-              />
-              <button
-                type="button"
-                onClick={handleAddHistoryItem}
-                className="w-full flex items-center justify-center gap-1 py-1.5 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 text-sm"
-              >
-                <Plus className="w-4 h-4" /> Add to History
-              </button>
-            </div>
+          {/* Weight (used for weight-based dose checks) */}
+          <div>
+            <label className="flex items-center gap-1 text-sm font-medium text-gray-700 mb-1">
+              <Scale className="w-4 h-4" /> Weight (kg)
+            </label>
+            <p className="text-xs text-gray-500 mb-2">
+              Your doctors use it to check that doses are safe for you. Please keep it up to date.
+            </p>
+            <input
+              type="number"
+              min="0"
+              step="0.1"
+              value={weightKg}
+              onChange={(e) => setWeightKg(e.target.value)}
+              className="w-40 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+              placeholder="e.g., 70"
+            />
           </div>
 
+          {/* Allergies, conditions and other medications */}
+          <MedicalRecordsForm value={records} onChange={setRecords} />
+
           {/* Save/Cancel Buttons */}
           <div className="flex gap-3 pt-4">
             <button
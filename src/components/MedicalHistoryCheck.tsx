@@ -1,8 +1,33 @@
 // src/components/MedicalHistoryCheck.tsx
 
-import { useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { AlertTriangle, CheckCircle, Shield, ArrowLeft } from 'lucide-react';
+import { AlertTriangle, CheckCircle, Shield, ArrowLeft, X, Replace } from 'lucide-react';
+import { Frequency, LegacyTiming, describeFrequency, getFrequency } from '../lib/frequency';
+import { streamSafetyCheck } from '../lib/api';
+import { supabase } from '../lib/supabaseClient';
+import {
+  ActiveMedication,
+  DEFAULT_PRACTICE_SETTINGS,
+  PracticeSettings,
+  SafetyCheckError,
+  SafetyCheckErrorCode,
+  SafetyCheckPayload,
+  SafetyCheckRecord,
+  SafetyFlag,
+  FLAG_SEVERITY_LABELS,
+  SAFETY_CHECK_ERRORS,
+  SAFETY_ENGINE_LABELS,
+  flagSeverity,
+  isConcerningAssessment,
+  medicationForFlag,
+  safetyHistoryFromRecords,
+  savePolicyBlockers,
+} from '../lib/safetyCheck';
+import { Dose } from '../lib/dose';
+import { calculateAge } from '../lib/age';
+import { EMPTY_MEDICAL_RECORDS, MedicalRecords, describeAllergy, loadMedicalRecords } from '../lib/medicalRecords';
+import { SymptomHistoryEntry, loadSevereSymptomHistory } from '../lib/symptomReports';
 
 // --- (Types) ---
 type Profile = {
@@ -11,8 +36,6 @@ type Profile = {
   email?: string;
   date_of_birth?: string; // For calculating age
   gender?: string; // Needed for backend model
-  ongoing_medications?: string;
-  medical_history?: { complication: string; description: string }[];
 };
 
 type Prescription = {
@@ -26,149 +49,305 @@ type Prescription = {
   medications: {
     id: string;
     name: string;
+    catalog_id?: string | null;
     dosage: string;
-    timing: { morning: boolean; afternoon: boolean; night: boolean };
+    dose?: Dose;
+    frequency: Frequency;
+    timing?: LegacyTiming;
     instructions: string;
   }[];
+  safety_check?: SafetyCheckRecord;
 };
 
 interface MedicalHistoryCheckProps {
   patient: Profile; // This object will now contain the history
   prescription: Prescription;
   onFinalSave: (prescription: Prescription) => void;
+  onDraftChange: (prescription: Prescription) => void; // e.g. after swapping in a suggested alternative
   onCancel: () => void;
 }
 
-// Type for the backend's expected response structure
-type SafetyCheckOutput = {
-  overall_assessment: string;
-  flags: {
-    problematic_drug: string;
-    issue: string;
-    explanation: string;
-    suggested_alternative: string;
-  }[];
-};
-
-
 // Type for displaying results in UI (includes error state)
 type AIResult = {
   status: 'safe' | 'warning' | 'error' | 'high-risk'; // Match backend assessment + error
+  errorCode?: SafetyCheckErrorCode; // Set when status is 'error'
+  cachedAt?: string; // Set when the server answered from its cache
   message: string;
-  suggestions: string[];
 };
 
-// --- Function to calculate age ---
-function calculateAge(dateOfBirth?: string): number {
-  if (!dateOfBirth) return 0; // Or handle as unknown
-  const birthDate = new Date(dateOfBirth);
-  const today = new Date();
-  let age = today.getFullYear() - birthDate.getFullYear();
-  const m = today.getMonth() - birthDate.getMonth();
-  if (m < 0 || (m === 0 && today.getDate() < birthDate.getDate())) {
-    age--;
-  }
-  return age > 0 ? age : 0; // Ensure age is not negative
+const SEVERITY_STYLES = {
+  high: 'bg-red-100 text-red-800',
+  moderate: 'bg-yellow-100 text-yellow-800',
+  minor: 'bg-gray-100 text-gray-700',
+};
+
+// Medications on the patient's other active prescriptions, including other doctors' ones.
+// `excludePrescriptionId` is the prescription being edited, which the draft replaces.
+async function loadActiveMedications(patientId: string, excludePrescriptionId?: string): Promise<ActiveMedication[]> {
+  const { data, error } = await supabase.rpc('get_patient_active_medications', { p_patient_id: patientId });
+  if (error) throw new SafetyCheckError('MEDICATIONS_UNAVAILABLE', error.message);
+
+  return (data || [])
+    .filter((row: { prescription_id: string }) => row.prescription_id !== excludePrescriptionId)
+    .map((row: { doctor_name: string | null; medication: Prescription['medications'][number] }) => ({
+      drug_name: row.medication.name,
+      dosage: row.medication.dosage,
+      frequency: describeFrequency(getFrequency(row.medication)),
+      source: 'prescription' as const,
+      prescribed_by: row.doctor_name || undefined,
+    }));
 }
 // ---
 
-export function MedicalHistoryCheck({ patient, prescription, onFinalSave, onCancel }: MedicalHistoryCheckProps) {
-  const { profile: doctor } = useAuth();
+export function MedicalHistoryCheck({ patient, prescription, onFinalSave, onDraftChange, onCancel }: MedicalHistoryCheckProps) {
+  const { profile: doctor, session } = useAuth();
   const [aiResult, setAiResult] = useState<AIResult | null>(null);
   const [loading, setLoading] = useState(false);
+  // Full record of the latest check, saved with the prescription
+  const [safetyCheck, setSafetyCheck] = useState<SafetyCheckRecord>({ status: 'not_run', flags: [] });
+  const [overrideReason, setOverrideReason] = useState('');
+  const [acknowledgedFlags, setAcknowledgedFlags] = useState<number[]>([]);
+  const [practiceSettings, setPracticeSettings] = useState<PracticeSettings>(DEFAULT_PRACTICE_SETTINGS);
+  const [streamingFlags, setStreamingFlags] = useState<SafetyFlag[]>([]); // Shown while the check runs
+  const abortRef = useRef<AbortController | null>(null);
+  const [records, setRecords] = useState<MedicalRecords>(EMPTY_MEDICAL_RECORDS); // Allergies, conditions, reported meds
+  const [severeSymptoms, setSevereSymptoms] = useState<SymptomHistoryEntry[]>([]); // Sent with the check as history
+
+  // Leaving the screen cancels a running check
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    const loadPracticeSettings = async () => {
+      const { data, error } = await supabase
+        .from('practice_settings')
+        .select('require_safety_check')
+        .maybeSingle();
+      if (error) {
+        console.error("Error loading practice settings:", error.message);
+        return;
+      }
+      if (data) setPracticeSettings(data as PracticeSettings);
+    };
+    loadPracticeSettings();
+  }, []);
+
+  useEffect(() => {
+    loadMedicalRecords(patient.id)
+      .then(setRecords)
+      .catch(error => console.error("Error loading medical records:", error.message));
+    loadSevereSymptomHistory(patient.id)
+      .then(setSevereSymptoms)
+      .catch(error => console.error("Error loading symptom reports:", error.message));
+  }, [patient.id]);
 
-  const handleAiCheck = async () => {
+  // `draft` lets a caller check an edited prescription before the new prop arrives
+  const handleAiCheck = async (bypassCache = false, draft: Prescription = prescription) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
     setLoading(true);
     setAiResult(null);
+    setStreamingFlags([]);
+    setOverrideReason('');
+    setAcknowledgedFlags([]);
 
-    // --- 1. GATHER AND TRANSFORM DATA ---
-    const patientAge = calculateAge(patient.date_of_birth);
-    const knownComplicationsText = patient.medical_history?.map(h => `${h.complication}${h.description ? `: ${h.description}` : ''}`).join('; ') || "None provided"; // Use semicolon for clarity
-    const pastMedicationsText = patient.ongoing_medications || "None provided";
-
-    const newPrescriptionsFormatted = prescription.medications.map(med => {
-      // Convert timing object to a frequency string
-      const times = [];
-      if (med.timing.morning) times.push("Morning");
-      if (med.timing.afternoon) times.push("Afternoon");
-      if (med.timing.night) times.push("Night");
-      const frequency = times.join(', ') || "As directed";
+    let payload: SafetyCheckPayload | undefined;
+    try {
+      // --- 1. GATHER AND TRANSFORM DATA ---
+      const patientAge = calculateAge(patient.date_of_birth) ?? 0; // 0 = unknown
+      const [activeMedications, latestRecords, symptomHistory] = await Promise.all([
+        loadActiveMedications(patient.id, draft.id),
+        loadMedicalRecords(patient.id).catch((error) => {
+          throw new SafetyCheckError('RECORDS_UNAVAILABLE', error.message);
+        }),
+        loadSevereSymptomHistory(patient.id).catch((error) => {
+          throw new SafetyCheckError('SYMPTOM_HISTORY_UNAVAILABLE', error.message);
+        }),
+      ]);
 
-      return {
+      const newPrescriptionsFormatted = draft.medications.map(med => ({
         drug_name: med.name,
         dosage: med.dosage,
-        frequency: frequency,
-      };
-    });
-
-    // --- 2. CONSTRUCT THE PAYLOAD FOR THE BACKEND ---
-    const payload = {
-      patient: {
-        age: patientAge,
-        gender: patient.gender || "Not specified",
-        consultation_reason: prescription.diagnosis || "Not specified",
-      },
-      history: {
-        known_complications: knownComplicationsText,
-        past_medications: pastMedicationsText,
-      },
-      new_prescriptions: newPrescriptionsFormatted,
-    };
+        frequency: describeFrequency(getFrequency(med)), // e.g. "Every 8 hours (first dose at 06:00)"
+      }));
 
-    console.log("Sending to AI backend:", JSON.stringify(payload, null, 2));
-
-    try {
-      // --- 3. MAKE THE ACTUAL FETCH CALL ---
-      // Replace with your actual backend URL if different
-      const response = await fetch('http://127.0.0.1:8000/run-safety-check', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
+      // --- 2. CONSTRUCT THE PAYLOAD FOR THE BACKEND ---
+      payload = {
+        patient: {
+          age: patientAge,
+          gender: patient.gender || "Not specified",
+          consultation_reason: draft.diagnosis || "Not specified",
         },
-        body: JSON.stringify(payload),
-      });
+        history: safetyHistoryFromRecords(latestRecords, activeMedications, symptomHistory),
+        new_prescriptions: newPrescriptionsFormatted,
+      };
 
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ detail: "Unknown API error" }));
-        throw new Error(`API Error ${response.status}: ${errorData.detail || response.statusText}`);
-      }
+      setRecords(latestRecords);
+      setSevereSymptoms(symptomHistory);
 
-      const backendResult: SafetyCheckOutput = await response.json();
+      // --- 3. MAKE THE ACTUAL FETCH CALL (flags stream in; the final result is validated against the shared schema) ---
+      const backendResult = await streamSafetyCheck(payload, {
+        accessToken: session?.access_token,
+        bypassCache,
+        signal: controller.signal,
+        onFlag: (flag) => setStreamingFlags(prev => [...prev, flag]),
+      });
+      setSafetyCheck({
+        status: 'completed',
+        overall_assessment: backendResult.overall_assessment,
+        flags: backendResult.flags,
+        model: backendResult.model,
+        rules_version: backendResult.rules_version,
+        llm_error: backendResult.llm_error,
+        llm_error_code: backendResult.llm_error_code,
+        checked_at: backendResult.checked_at || new Date().toISOString(),
+        payload,
+      });
 
       // --- 4. MAP BACKEND RESULT TO UI STATE ---
       let uiStatus: AIResult['status'] = 'safe';
       if (backendResult.overall_assessment?.toLowerCase() === 'caution') uiStatus = 'warning';
       if (backendResult.overall_assessment?.toLowerCase() === 'high-risk') uiStatus = 'high-risk'; // Or map to 'error' if preferred
 
-      // Combine explanations and suggestions into UI fields
+      // Flags are listed per medication below; the banner only summarizes
       const message = backendResult.flags.length > 0
-        ? backendResult.flags.map(f => `${f.issue} with ${f.problematic_drug}: ${f.explanation}`).join('\n')
+        ? `${backendResult.flags.length} finding(s). Review them next to each medication below.`
         : "AI analysis found no major issues.";
-      const suggestions = backendResult.flags.map(f => f.suggested_alternative).filter(Boolean); // Filter out empty suggestions
+      const notice = backendResult.llm_error
+        ? `\n\n${SAFETY_CHECK_ERRORS[backendResult.llm_error_code || 'LLM_UNAVAILABLE'].message}`
+        : '';
 
       setAiResult({
          status: uiStatus,
-         message: message,
-         suggestions: suggestions
+         cachedAt: backendResult.cached ? backendResult.checked_at : undefined,
+         message: message + notice,
       });
 
     } catch (error: any) {
+      if (controller.signal.aborted) {
+        // Cancelled by the doctor: back to "not run"
+        setSafetyCheck({ status: 'not_run', flags: [] });
+        return;
+      }
       console.error("Error calling AI Safety Check:", error);
+      const code: SafetyCheckErrorCode = error instanceof SafetyCheckError ? error.code : 'INTERNAL_ERROR';
+      setSafetyCheck({
+        status: 'error',
+        flags: [],
+        checked_at: new Date().toISOString(),
+        payload,
+        error: error.message,
+        error_code: code,
+      });
       setAiResult({
          status: 'error', // Use 'error' status for fetch/network issues
-         message: `Failed to get AI analysis: ${error.message}`,
-         suggestions: []
+         errorCode: code,
+         message: `${SAFETY_CHECK_ERRORS[code].message}\n(${error.message})`,
       });
     } finally {
-      setLoading(false);
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setLoading(false);
+        setStreamingFlags([]);
+      }
     }
   };
 
+  const handleCancelCheck = () => {
+    abortRef.current?.abort();
+  };
+
+  const isOverride = safetyCheck.status === 'completed' && isConcerningAssessment(safetyCheck.overall_assessment);
+  const isHighRisk = isOverride && safetyCheck.overall_assessment?.toLowerCase() === 'high-risk';
+  const blockers = savePolicyBlockers(safetyCheck, acknowledgedFlags, overrideReason, practiceSettings);
+
+  // Swap the flagged drug for the suggested one in the draft, then check the new draft
+  const handleReplaceWithAlternative = (medicationId: string, replacement: string) => {
+    const updated = {
+      ...prescription,
+      medications: prescription.medications.map(med =>
+        med.id === medicationId ? { ...med, name: replacement, catalog_id: null } : med // No longer the picked catalog product
+      ),
+    };
+    onDraftChange(updated);
+    handleAiCheck(false, updated);
+  };
+
+  // Flags grouped by the draft medication they refer to (indexes into safetyCheck.flags)
+  const flagIndexesByMedication = new Map<string, number[]>();
+  const unmatchedFlagIndexes: number[] = [];
+  safetyCheck.flags.forEach((flag, index) => {
+    const med = medicationForFlag(flag, prescription.medications);
+    if (!med) {
+      unmatchedFlagIndexes.push(index);
+      return;
+    }
+    flagIndexesByMedication.set(med.id, [...(flagIndexesByMedication.get(med.id) || []), index]);
+  });
+
+  const renderFlag = (index: number, medicationId?: string) => {
+    const flag = safetyCheck.flags[index];
+    const severity = flagSeverity(flag, safetyCheck.overall_assessment);
+    return (
+      <div key={index} className="mt-2 p-3 bg-white rounded border border-gray-200">
+        <div className="flex items-center gap-2 flex-wrap">
+          <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${SEVERITY_STYLES[severity]}`}>
+            {FLAG_SEVERITY_LABELS[severity]}
+          </span>
+          {flag.engine && <span className="text-xs text-gray-500">{SAFETY_ENGINE_LABELS[flag.engine]}</span>}
+          <span className="text-sm font-semibold text-gray-900">{flag.issue}</span>
+        </div>
+        <p className="mt-1 text-sm text-gray-700">{flag.explanation}</p>
+        {flag.suggested_alternative !== 'None' && (
+          <p className="mt-1 text-xs text-gray-600"><strong>Suggested alternative:</strong> {flag.suggested_alternative}</p>
+        )}
+        <div className="mt-2 flex items-center gap-4 flex-wrap">
+          {medicationId && flag.replacement_drug && (
+            <button
+              onClick={() => handleReplaceWithAlternative(medicationId, flag.replacement_drug!)}
+              disabled={loading}
+              className="flex items-center gap-1 px-2 py-1 text-xs text-blue-700 bg-blue-50 rounded hover:bg-blue-100 disabled:opacity-50"
+            >
+              <Replace className="w-3 h-3" /> Replace with {flag.replacement_drug}
+            </button>
+          )}
+          {isOverride && (
+            <label className="flex items-center gap-1 text-xs text-gray-700">
+              <input
+                type="checkbox"
+                checked={acknowledgedFlags.includes(index)}
+                onChange={() => toggleFlag(index)}
+              />
+              I have reviewed this issue
+            </label>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  const toggleFlag = (index: number) => {
+    setAcknowledgedFlags(acknowledgedFlags.includes(index)
+      ? acknowledgedFlags.filter(i => i !== index)
+      : [...acknowledgedFlags, index]);
+  };
+
   const handleSave = () => {
-    // Save prescription with 'active' status
+    if (blockers.length > 0) return;
+    // Save prescription with 'active' status and the safety check it was reviewed against
     const finalPrescription = {
       ...prescription,
       status: 'active' as const,
+      safety_check: {
+        ...safetyCheck,
+        ...(isOverride && {
+          override: {
+            reason: overrideReason.trim(),
+            acknowledged_flags: acknowledgedFlags,
+            by: doctor?.id || '',
+            at: new Date().toISOString(),
+          },
+        }),
+      },
     };
     onFinalSave(finalPrescription);
   };
@@ -200,44 +379,85 @@ export function MedicalHistoryCheck({ patient, prescription, onFinalSave, onCanc
                    Basic Info
                  </label>
                  <div className="w-full px-4 py-3 bg-gray-50 text-gray-700 text-sm rounded-lg border min-h-[40px]">
-                   Age: {calculateAge(patient.date_of_birth) || 'N/A'}, Gender: {patient.gender || 'N/A'}
+                   Age: {calculateAge(patient.date_of_birth) ?? 'N/A'}, Gender: {patient.gender || 'N/A'}
                  </div>
                </div>
-              {/* Ongoing Meds */}
+              {/* Allergies */}
                <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Ongoing Medications
+                    Allergies
                   </label>
-                 <div className="w-full px-4 py-3 bg-gray-50 text-gray-700 text-sm rounded-lg border min-h-[40px]">
-                    {patient.ongoing_medications || <span className="text-gray-400">None listed.</span>}
+                 <div className="w-full p-3 bg-gray-50 rounded-lg border space-y-2 min-h-[40px]">
+                    {records.allergies.length === 0 ? (
+                      <span className="text-sm text-gray-400">No known allergies.</span>
+                    ) : (
+                      records.allergies.map(item => (
+                        <p key={item.id} className="text-sm text-gray-700">
+                          {describeAllergy(item)}
+                          {item.verified_by && <span className="ml-1 text-xs text-green-700">(verified)</span>}
+                        </p>
+                      ))
+                    )}
                   </div>
                 </div>
-              {/* Medical History */}
+              {/* Chronic Conditions */}
                <div>
                   <label className="block text-sm font-medium text-gray-700 mb-1">
-                    Medical History
+                    Chronic Conditions
                   </label>
-                  <div className="w-full p-3 bg-gray-50 rounded-lg border space-y-2 min-h-[60px]">
-                    {!patient.medical_history || patient.medical_history.length === 0 ? (
-                      <span className="text-sm text-gray-400">No medical history items listed.</span>
+                  <div className="w-full p-3 bg-gray-50 rounded-lg border space-y-2 min-h-[40px]">
+                    {records.conditions.length === 0 ? (
+                      <span className="text-sm text-gray-400">No conditions listed.</span>
                     ) : (
-                      patient.medical_history.map((item, index) => (
-                        <div key={index} className="p-2 bg-white rounded border shadow-sm">
-                          <p className="font-semibold text-sm">{item.complication}</p>
-                          {item.description && (
-                            <p className="text-xs text-gray-600">{item.description}</p>
+                      records.conditions.map(item => (
+                        <div key={item.id} className="p-2 bg-white rounded border shadow-sm">
+                          <p className="font-semibold text-sm">{item.name}</p>
+                          {item.onset_date && (
+                            <p className="text-xs text-gray-600">Since {new Date(item.onset_date).toLocaleDateString()}</p>
+                          )}
+                          {item.notes && (
+                            <p className="text-xs text-gray-600">{item.notes}</p>
                           )}
                         </div>
                       ))
                     )}
                   </div>
                 </div>
+              {/* Severe symptoms the patient reported (sent with the check) */}
+              {severeSymptoms.length > 0 && (
+                <div>
+                  <label className="block text-sm font-medium text-red-700 mb-1">
+                    Severe Reactions Reported by Patient
+                  </label>
+                  <div className="w-full p-3 bg-red-50 rounded-lg border border-red-200 space-y-1">
+                    {severeSymptoms.map((item, index) => (
+                      <p key={index} className="text-sm text-red-900">
+                        {item.symptom}{item.medication ? ` (suspected ${item.medication})` : ''} - since {item.onset}
+                        {item.description && <span className="block text-xs text-red-800">{item.description}</span>}
+                      </p>
+                    ))}
+                  </div>
+                </div>
+              )}
+              {/* Self-reported Meds */}
+               <div>
+                  <label className="block text-sm font-medium text-gray-700 mb-1">
+                    Other Medications (reported by patient)
+                  </label>
+                 <div className="w-full px-4 py-3 bg-gray-50 text-gray-700 text-sm rounded-lg border min-h-[40px]">
+                    {records.medications.length === 0 ? (
+                      <span className="text-gray-400">None listed.</span>
+                    ) : (
+                      records.medications.map(m => [m.name, m.dosage, m.frequency].filter(Boolean).join(' ')).join(', ')
+                    )}
+                  </div>
+                </div>
             </div>
           </div>
 
           {/* AI Check Button */}
           <button
-            onClick={handleAiCheck}
+            onClick={() => handleAiCheck()}
             disabled={loading}
             className="w-full flex items-center justify-center gap-2 px-6 py-3 bg-blue-600 text-white rounded-lg hover:bg-blue-700 font-medium disabled:opacity-50 transition-colors"
           >
@@ -245,6 +465,28 @@ export function MedicalHistoryCheck({ patient, prescription, onFinalSave, onCanc
             {loading ? 'Analyzing...' : 'Analyze Prescription Against Profile'}
           </button>
 
+          {/* Flags arrive one by one while the check runs */}
+          {loading && (
+            <div className="mt-4 p-4 rounded-lg border border-blue-100 bg-blue-50">
+              <div className="flex justify-between items-center">
+                <p className="text-sm text-blue-800">
+                  {streamingFlags.length === 0 ? 'Waiting for the first findings...' : `${streamingFlags.length} finding(s) so far`}
+                </p>
+                <button
+                  onClick={handleCancelCheck}
+                  className="flex items-center gap-1 px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded hover:bg-gray-50"
+                >
+                  <X className="w-4 h-4" /> Cancel
+                </button>
+              </div>
+              {streamingFlags.map((flag, i) => (
+                <p key={i} className="mt-2 text-sm text-gray-700">
+                  {flag.engine && `[${SAFETY_ENGINE_LABELS[flag.engine]}] `}<strong>{flag.issue}</strong> with {flag.problematic_drug}: {flag.explanation}
+                </p>
+              ))}
+            </div>
+          )}
+
           {/* AI Result Display */}
           {aiResult && (
             <div className={`mt-6 p-4 rounded-lg border ${
@@ -265,30 +507,84 @@ export function MedicalHistoryCheck({ patient, prescription, onFinalSave, onCanc
                   {aiResult.status === 'safe' ? 'AI Check Clear' :
                    aiResult.status === 'warning' ? 'AI Potential Issue Found' :
                    aiResult.status === 'high-risk' ? 'AI High-Risk Warning' :
-                   'Analysis Error'}
+                   SAFETY_CHECK_ERRORS[aiResult.errorCode || 'INTERNAL_ERROR'].title}
                 </h3>
               </div>
               {/* Display message using pre-wrap to preserve newlines */}
               <p className="text-gray-700 mt-2 text-sm whitespace-pre-wrap">{aiResult.message}</p>
-              {aiResult.suggestions.length > 0 && (
-                <div className="mt-3">
-                  <p className="font-semibold text-sm">Suggestions:</p>
-                  <ul className="list-disc list-inside text-sm text-gray-600">
-                    {aiResult.suggestions.map((s, i) => <li key={i}>{s}</li>)}
-                  </ul>
+              {aiResult.cachedAt && (
+                <p className="mt-2 text-xs text-gray-500 flex items-center gap-2">
+                  Result from {new Date(aiResult.cachedAt).toLocaleTimeString()} (cached).
+                  <button
+                    onClick={() => handleAiCheck(true)}
+                    disabled={loading}
+                    className="text-blue-700 hover:text-blue-900 underline disabled:opacity-50"
+                  >
+                    Re-run analysis
+                  </button>
+                </p>
+              )}
+            </div>
+          )}
+
+          {/* Findings next to the draft medication they refer to */}
+          {!loading && safetyCheck.status === 'completed' && safetyCheck.flags.length > 0 && (
+            <div className="mt-6 space-y-3">
+              <h3 className="text-lg font-semibold text-gray-900">Findings by Medication</h3>
+              {prescription.medications.map(med => (
+                <div key={med.id} className="p-3 bg-gray-50 rounded-lg border">
+                  <p className="font-semibold text-sm text-gray-900">
+                    {med.name} - {med.dosage}
+                    <span className="ml-2 font-normal text-xs text-gray-500">{describeFrequency(getFrequency(med))}</span>
+                  </p>
+                  {flagIndexesByMedication.get(med.id)?.map(index => renderFlag(index, med.id)) ?? (
+                    <p className="mt-1 text-xs text-green-700">No issues found.</p>
+                  )}
+                </div>
+              ))}
+              {unmatchedFlagIndexes.length > 0 && (
+                <div className="p-3 bg-gray-50 rounded-lg border">
+                  <p className="font-semibold text-sm text-gray-900">Other findings</p>
+                  {unmatchedFlagIndexes.map(index => (
+                    <div key={index}>
+                      <p className="mt-2 text-xs text-gray-500">About: {safetyCheck.flags[index].problematic_drug}</p>
+                      {renderFlag(index)}
+                    </div>
+                  ))}
                 </div>
               )}
             </div>
           )}
 
+          {/* Justification, recorded when saving despite a Caution/High-Risk verdict */}
+          {isOverride && (
+            <div className="mt-6 space-y-3">
+              <label className="block text-sm font-medium text-gray-700 mb-1">
+                Reason for proceeding despite the AI verdict {isHighRisk ? '(required)' : '(optional)'}
+              </label>
+              <textarea
+                value={overrideReason}
+                onChange={(e) => setOverrideReason(e.target.value)}
+                className="w-full px-4 py-2 border border-gray-300 rounded-lg text-sm"
+                rows={2}
+                placeholder="e.g., Benefit outweighs risk; patient tolerated this combination previously"
+              />
+            </div>
+          )}
+
+          {blockers.length > 0 && (
+            <ul className="mt-6 p-3 bg-yellow-50 border border-yellow-200 rounded-lg list-disc list-inside text-sm text-yellow-800">
+              {blockers.map((blocker, i) => <li key={i}>{blocker}</li>)}
+            </ul>
+          )}
+
           {/* Final Save Button */}
           <p className="text-xs text-gray-500 text-center mt-6">
             The doctor retains full clinical responsibility and makes the final decision.
           </p>
           <button
             onClick={handleSave}
-            // Optionally disable if AI check hasn't run or if there's an error
-            // disabled={!aiResult || aiResult.status === 'error'}
+            disabled={loading || blockers.length > 0}
             className="w-full mt-2 px-6 py-3 bg-green-600 text-white rounded-lg hover:bg-green-700 font-medium transition-colors disabled:opacity-50"
           >
             Save Final Prescription
@@ -0,0 +1,244 @@
+// Editor for a patient's allergies, chronic conditions and self-reported medications.
+// Controlled: the parent owns the records and decides when to save them.
+
+import { useState } from 'react';
+import { Plus, X, ShieldCheck } from 'lucide-react';
+import {
+  ALLERGY_SEVERITIES,
+  ALLERGY_SEVERITY_LABELS,
+  AllergySeverity,
+  MedicalRecords,
+  newRecordId,
+} from '../lib/medicalRecords';
+
+interface MedicalRecordsFormProps {
+  value: MedicalRecords;
+  onChange: (records: MedicalRecords) => void;
+  verifierId?: string; // Set for doctors, who can mark allergies verified
+}
+
+export function MedicalRecordsForm({ value, onChange, verifierId }: MedicalRecordsFormProps) {
+  // State for the temporary entries being added
+  const [allergy, setAllergy] = useState({ substance: '', reaction: '', severity: 'unknown' as AllergySeverity });
+  const [condition, setCondition] = useState({ name: '', onset_date: '', notes: '' });
+  const [medication, setMedication] = useState({ name: '', dosage: '', frequency: '' });
+
+  const handleAddAllergy = () => {
+    if (!allergy.substance.trim()) {
+      alert("Please enter the substance causing the allergy (e.g., 'Penicillin').");
+      return;
+    }
+    onChange({ ...value, allergies: [...value.allergies, { id: newRecordId(), ...allergy, substance: allergy.substance.trim() }] });
+    setAllergy({ substance: '', reaction: '', severity: 'unknown' });
+  };
+
+  const handleAddCondition = () => {
+    if (!condition.name.trim()) {
+      alert("Please enter the condition (e.g., 'Type 2 diabetes').");
+      return;
+    }
+    onChange({
+      ...value,
+      conditions: [...value.conditions, { id: newRecordId(), ...condition, name: condition.name.trim(), onset_date: condition.onset_date || null }],
+    });
+    setCondition({ name: '', onset_date: '', notes: '' });
+  };
+
+  const handleAddMedication = () => {
+    if (!medication.name.trim()) {
+      alert("Please enter the medication name.");
+      return;
+    }
+    onChange({ ...value, medications: [...value.medications, { id: newRecordId(), ...medication, name: medication.name.trim() }] });
+    setMedication({ name: '', dosage: '', frequency: '' });
+  };
+
+  const updateAllergy = (id: string, changes: Partial<MedicalRecords['allergies'][number]>) => {
+    onChange({ ...value, allergies: value.allergies.map(a => (a.id === id ? { ...a, ...changes } : a)) });
+  };
+
+  const inputClass = "w-full px-3 py-1.5 border border-gray-300 rounded-lg text-sm";
+  const addButtonClass = "w-full flex items-center justify-center gap-1 py-1.5 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 text-sm";
+
+  return (
+    <div className="space-y-4">
+      {/* Allergies */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Allergies</label>
+        <div className="space-y-2 mb-2">
+          {value.allergies.length === 0 && <p className="text-sm text-gray-400">No known allergies added.</p>}
+          {value.allergies.map(item => (
+            <div key={item.id} className="flex items-start justify-between gap-2 p-2 bg-gray-50 rounded-lg border">
+              <div className="flex-1">
+                <p className="font-semibold text-sm">{item.substance}</p>
+                {item.reaction && <p className="text-xs text-gray-600">Reaction: {item.reaction}</p>}
+                <div className="mt-1 flex items-center gap-3 flex-wrap">
+                  <select
+                    value={item.severity}
+                    onChange={(e) => updateAllergy(item.id, { severity: e.target.value as AllergySeverity })}
+                    className="px-2 py-0.5 border border-gray-300 rounded text-xs"
+                  >
+                    {ALLERGY_SEVERITIES.map(s => <option key={s} value={s}>{ALLERGY_SEVERITY_LABELS[s]}</option>)}
+                  </select>
+                  {verifierId ? (
+                    <label className="flex items-center gap-1 text-xs text-gray-700">
+                      <input
+                        type="checkbox"
+                        checked={Boolean(item.verified_by)}
+                        onChange={(e) => updateAllergy(item.id, { verified_by: e.target.checked ? verifierId : null })}
+                      />
+                      Verified
+                    </label>
+                  ) : item.verified_by && (
+                    <span className="flex items-center gap-1 text-xs text-green-700">
+                      <ShieldCheck className="w-3 h-3" /> Verified{item.verifier?.full_name ? ` by Dr. ${item.verifier.full_name}` : ' by a doctor'}
+                    </span>
+                  )}
+                </div>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, allergies: value.allergies.filter(a => a.id !== item.id) })}
+                className="text-red-500 hover:text-red-700"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="p-2 border rounded-lg space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={allergy.substance}
+              onChange={(e) => setAllergy({ ...allergy, substance: e.target.value })}
+              className={inputClass}
+              placeholder="Substance (e.g., Penicillin)"
+            />
+            <select
+              value={allergy.severity}
+              onChange={(e) => setAllergy({ ...allergy, severity: e.target.value as AllergySeverity })}
+              className={inputClass}
+            >
+              {ALLERGY_SEVERITIES.map(s => <option key={s} value={s}>{ALLERGY_SEVERITY_LABELS[s]}</option>)}
+            </select>
+          </div>
+          <input
+            type="text"
+            value={allergy.reaction}
+            onChange={(e) => setAllergy({ ...allergy, reaction: e.target.value })}
+            className={inputClass}
+            placeholder="Reaction (e.g., Hives, swelling)"
+          />
+          <button type="button" onClick={handleAddAllergy} className={addButtonClass}>
+            <Plus className="w-4 h-4" /> Add Allergy
+          </button>
+        </div>
+      </div>
+
+      {/* Chronic Conditions */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Chronic Conditions</label>
+        <div className="space-y-2 mb-2">
+          {value.conditions.length === 0 && <p className="text-sm text-gray-400">No conditions added.</p>}
+          {value.conditions.map(item => (
+            <div key={item.id} className="flex items-start justify-between p-2 bg-gray-50 rounded-lg border">
+              <div>
+                <p className="font-semibold text-sm">{item.name}</p>
+                {item.onset_date && <p className="text-xs text-gray-600">Since {new Date(item.onset_date).toLocaleDateString()}</p>}
+                {item.notes && <p className="text-xs text-gray-600">{item.notes}</p>}
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, conditions: value.conditions.filter(c => c.id !== item.id) })}
+                className="text-red-500 hover:text-red-700"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="p-2 border rounded-lg space-y-2">
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={condition.name}
+              onChange={(e) => setCondition({ ...condition, name: e.target.value })}
+              className={inputClass}
+              placeholder="Condition (e.g., Asthma)"
+            />
+            <input
+              type="date"
+              value={condition.onset_date}
+              onChange={(e) => setCondition({ ...condition, onset_date: e.target.value })}
+              className={inputClass}
+              title="Onset date (optional)"
+            />
+          </div>
+          <textarea
+            value={condition.notes}
+            onChange={(e) => setCondition({ ...condition, notes: e.target.value })}
+            className={inputClass}
+            rows={2}
+            placeholder="Notes (optional)"
+          />
+          <button type="button" onClick={handleAddCondition} className={addButtonClass}>
+            <Plus className="w-4 h-4" /> Add Condition
+          </button>
+        </div>
+      </div>
+
+      {/* Self-reported Medications */}
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-1">Other Current Medications</label>
+        <p className="text-xs text-gray-500 mb-2">Medications taken that were not prescribed in MediTrack, including over-the-counter drugs.</p>
+        <div className="space-y-2 mb-2">
+          {value.medications.length === 0 && <p className="text-sm text-gray-400">No medications added.</p>}
+          {value.medications.map(item => (
+            <div key={item.id} className="flex items-start justify-between p-2 bg-gray-50 rounded-lg border">
+              <div>
+                <p className="font-semibold text-sm">{item.name}</p>
+                <p className="text-xs text-gray-600">{[item.dosage, item.frequency].filter(Boolean).join(', ')}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => onChange({ ...value, medications: value.medications.filter(m => m.id !== item.id) })}
+                className="text-red-500 hover:text-red-700"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+        </div>
+        <div className="p-2 border rounded-lg space-y-2">
+          <input
+            type="text"
+            value={medication.name}
+            onChange={(e) => setMedication({ ...medication, name: e.target.value })}
+            className={inputClass}
+            placeholder="Medication (e.g., Metformin)"
+          />
+          <div className="grid grid-cols-2 gap-2">
+            <input
+              type="text"
+              value={medication.dosage}
+              onChange={(e) => setMedication({ ...medication, dosage: e.target.value })}
+              className={inputClass}
+              placeholder="Dosage (e.g., 500mg)"
+            />
+            <input
+              type="text"
+              value={medication.frequency}
+              onChange={(e) => setMedication({ ...medication, frequency: e.target.value })}
+              className={inputClass}
+              placeholder="How often (e.g., Twice daily)"
+            />
+          </div>
+          <button type="button" onClick={handleAddMedication} className={addButtonClass}>
+            <Plus className="w-4 h-4" /> Add Medication
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
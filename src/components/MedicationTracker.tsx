@@ -1,38 +1,163 @@
-import { useState, useEffect } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
 // MODIFIED: Added Pill to imports
-import { CheckCircle, XCircle, Clock, Pill } from 'lucide-react';
+import { CheckCircle, XCircle, Pill, PlusCircle, Undo2, Pencil, Activity } from 'lucide-react';
 import { supabase } from '../lib/supabaseClient';
+import { describeFrequency } from '../lib/frequency';
+import { Dose, doseText } from '../lib/dose';
+import {
+  DoseRecord,
+  SKIP_REASONS,
+  SKIP_REASON_LABELS,
+  SkipReason,
+  UNDO_WINDOW_MS,
+  skipReasonLabel,
+  toDateTimeLocal,
+  validateTakenAt,
+} from '../lib/doseRecords';
 
 // Type must match the one in PatientDashboard
 type MedicationLog = {
   id: string; prescription_id: string; patient_id: string; medication_id: string;
-  medication_name: string; dosage: string; scheduled_time: string;
+  medication_name: string; dosage: string; dose?: Dose | null; scheduled_time: string;
   status: 'pending' | 'taken' | 'missed' | 'skipped'; taken_at?: string | null;
+  auto_missed_at?: string | null; // Set when the system marked an overdue dose missed
+  skip_reason?: SkipReason | null;
+  notes?: string | null;
+  is_prn?: boolean;
+};
+
+// The last change the patient made, which can be undone for UNDO_WINDOW_MS
+type UndoableChange = {
+  logId: string;
+  previous: DoseRecord;
+  message: string;
+};
+
+// An as-needed medication the patient can log a dose for today
+export type PrnMedication = {
+  prescription_id: string;
+  medication_id: string;
+  name: string;
+  dosage: string;
+  dose?: Dose | null;
+  max_per_day: number;
+  min_hours_between?: number;
 };
 
 interface MedicationTrackerProps {
   logs: MedicationLog[]; // Receives ONLY the logs for the selected date
+  prnMedications?: PrnMedication[]; // Only passed when the selected date is today
   onRefresh: () => void;
+  onReportSymptom?: (medication: { prescription_id: string; medication_id: string }) => void;
 }
 
-export function MedicationTracker({ logs, onRefresh }: MedicationTrackerProps) {
+export function MedicationTracker({ logs, prnMedications = [], onRefresh, onReportSymptom }: MedicationTrackerProps) {
+  const { profile } = useAuth();
   const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState<{ logId: string; mode: 'taken' | 'skip' } | null>(null);
+  const [lastChange, setLastChange] = useState<UndoableChange | null>(null);
 
   // --- No longer needs internal filtering or selectedDate state ---
 
-  const updateLogStatus = async (logId: string, status: 'taken' | 'missed' | 'skipped') => {
+  // The undo offer expires after a short while
+  useEffect(() => {
+    if (!lastChange) return;
+    const timeoutId = setTimeout(() => setLastChange(null), UNDO_WINDOW_MS);
+    return () => clearTimeout(timeoutId);
+  }, [lastChange]);
+
+  const currentRecord = (log: MedicationLog): DoseRecord => ({
+    status: log.status,
+    taken_at: log.taken_at ?? null,
+    skip_reason: log.skip_reason ?? null,
+    notes: log.notes ?? null,
+  });
+
+  const writeRecord = async (logId: string, record: DoseRecord) => {
+    const { error } = await supabase.from('medication_logs').update(record).eq('id', logId);
+    if (error) throw error;
+  };
+
+  const saveRecord = async (log: MedicationLog, record: DoseRecord, message: string) => {
     setLoading(true);
     try {
-      const updateData: any = {
-        status: status,
-        taken_at: status === 'taken' ? new Date().toISOString() : null,
-      };
-      const { error } = await supabase
-        .from('medication_logs').update(updateData).eq('id', logId);
-      if (error) throw error;
+      await writeRecord(log.id, record);
+      setLastChange({ logId: log.id, previous: currentRecord(log), message });
+      setEditing(null);
       onRefresh(); // Trigger dashboard refresh
-    } catch (err: any) { alert('Error updating medication log: ' + (err?.message || err)); }
+    } catch (err) { alert('Error updating medication log: ' + (err instanceof Error ? err.message : err)); }
+    finally { setLoading(false); }
+  };
+
+  const undoLastChange = async () => {
+    if (!lastChange) return;
+    setLoading(true);
+    try {
+      await writeRecord(lastChange.logId, lastChange.previous);
+      setLastChange(null);
+      onRefresh();
+    } catch (err) { alert('Could not undo: ' + (err instanceof Error ? err.message : err)); }
+    finally { setLoading(false); }
+  };
+
+  const markTakenNow = (log: MedicationLog) => saveRecord(
+    log,
+    { status: 'taken', taken_at: new Date().toISOString(), skip_reason: null, notes: log.notes ?? null },
+    `${log.medication_name} marked as taken.`
+  );
+
+  const markMissed = (log: MedicationLog) => saveRecord(
+    log,
+    { status: 'missed', taken_at: null, skip_reason: null, notes: log.notes ?? null },
+    `${log.medication_name} marked as missed.`
+  );
+
+  const prnLogsFor = (med: PrnMedication) => logs.filter(log =>
+    log.is_prn && log.status === 'taken' &&
+    log.prescription_id === med.prescription_id && log.medication_id === med.medication_id
+  );
+
+  // Returns why a PRN dose can't be logged right now, or null if it can
+  const prnBlockedReason = (med: PrnMedication) => {
+    const taken = prnLogsFor(med);
+    if (taken.length >= med.max_per_day) return `Daily maximum of ${med.max_per_day} reached`;
+    if (med.min_hours_between) {
+      const lastTaken = Math.max(...taken.map(log => new Date(log.taken_at || log.scheduled_time).getTime()));
+      const nextAllowed = lastTaken + med.min_hours_between * 60 * 60 * 1000;
+      if (taken.length > 0 && Date.now() < nextAllowed) {
+        return `Next dose allowed at ${new Date(nextAllowed).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true })}`;
+      }
+    }
+    return null;
+  };
+
+  // PRN doses have no pre-generated log; record one as taken right now
+  const logPrnDose = async (med: PrnMedication) => {
+    if (!profile) return;
+    const blocked = prnBlockedReason(med);
+    if (blocked) {
+      alert(blocked);
+      return;
+    }
+    setLoading(true);
+    try {
+      const now = new Date().toISOString();
+      const { error } = await supabase.from('medication_logs').insert({
+        patient_id: profile.id,
+        prescription_id: med.prescription_id,
+        medication_id: med.medication_id,
+        medication_name: med.name,
+        dosage: med.dosage,
+        dose: med.dose || null,
+        scheduled_time: now,
+        taken_at: now,
+        status: 'taken',
+        is_prn: true,
+      });
+      if (error) throw error;
+      onRefresh();
+    } catch (err) { alert('Error logging dose: ' + (err instanceof Error ? err.message : err)); }
     finally { setLoading(false); }
   };
 
@@ -73,6 +198,48 @@ export function MedicationTracker({ logs, onRefresh }: MedicationTrackerProps) {
     <div className="space-y-3">
       {/* Date input removed - handled by parent */}
 
+      {lastChange && (
+        <div className="flex items-center justify-between gap-3 p-3 bg-gray-800 text-white text-sm rounded-lg">
+          <span>{lastChange.message}</span>
+          <button
+            onClick={undoLastChange}
+            disabled={loading}
+            className="flex items-center gap-1 font-semibold text-teal-300 hover:text-teal-200 disabled:opacity-50"
+          >
+            <Undo2 className="w-4 h-4" /> Undo
+          </button>
+        </div>
+      )}
+
+      {/* As-needed medications, logged on demand */}
+      {prnMedications.length > 0 && (
+        <div className="p-4 border border-teal-200 bg-teal-50 rounded-lg space-y-2">
+          <p className="text-sm font-semibold text-teal-800">As-needed medications</p>
+          {prnMedications.map(med => {
+            const blocked = prnBlockedReason(med);
+            return (
+              <div key={`${med.prescription_id}_${med.medication_id}`} className="flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-800">{med.name} - {doseText(med)}</p>
+                  <p className="text-xs text-gray-600">
+                    {describeFrequency({ type: 'prn', max_per_day: med.max_per_day, min_hours_between: med.min_hours_between })}
+                    {' · '}{prnLogsFor(med).length} taken today
+                  </p>
+                  {blocked && <p className="text-xs text-orange-700">{blocked}</p>}
+                </div>
+                <button
+                  onClick={() => logPrnDose(med)}
+                  disabled={loading || !!blocked}
+                  className="flex items-center gap-1 px-3 py-2 bg-teal-600 text-white text-xs font-medium rounded-md hover:bg-teal-700 transition-colors disabled:opacity-50"
+                >
+                  <PlusCircle className="w-4 h-4" /> Log Dose
+                </button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
       {loading ? (
         <p className="text-sm text-gray-500 text-center py-4">Updating...</p>
       ) : sortedLogs.length === 0 ? (
@@ -81,21 +248,35 @@ export function MedicationTracker({ logs, onRefresh }: MedicationTrackerProps) {
         sortedLogs.map((log) => (
           <div
             key={log.id}
-            className={`flex items-center justify-between p-4 border rounded-lg shadow-sm transition-colors ${getStatusColor(log.status)}`}
+            className={`p-4 border rounded-lg shadow-sm transition-colors ${getStatusColor(log.status)}`}
           >
+          <div className="flex items-center justify-between">
             {/* Medication Info */}
             <div className="flex items-center gap-4 flex-1 mr-4">
               {getStatusIcon(log.status)} {/* This will now render the Pill icon for pending */}
               <div className="flex-1">
                 <p className="font-semibold text-gray-800">
-                  {log.medication_name} - {log.dosage}
+                  {log.medication_name} - {doseText(log)}
                 </p>
                 <p className="text-sm text-gray-600">
-                  Scheduled for{' '}
-                  {new Date(log.scheduled_time).toLocaleTimeString([], {
-                    hour: 'numeric', minute: '2-digit', hour12: true
-                  })}
+                  {log.is_prn ? 'As needed' : (
+                    <>
+                      Scheduled for{' '}
+                      {new Date(log.scheduled_time).toLocaleTimeString([], {
+                        hour: 'numeric', minute: '2-digit', hour12: true
+                      })}
+                    </>
+                  )}
                 </p>
+                {log.notes && <p className="text-xs text-gray-600 italic mt-0.5">Note: {log.notes}</p>}
+                {onReportSymptom && (
+                  <button
+                    onClick={() => onReportSymptom({ prescription_id: log.prescription_id, medication_id: log.medication_id })}
+                    className="text-xs text-rose-700 hover:underline flex items-center gap-1 mt-0.5"
+                  >
+                    <Activity className="w-3 h-3" /> Report a side effect
+                  </button>
+                )}
               </div>
             </div>
 
@@ -104,14 +285,21 @@ export function MedicationTracker({ logs, onRefresh }: MedicationTrackerProps) {
               {log.status === 'pending' && (
                 <div className="flex flex-col sm:flex-row gap-2">
                   <button
-                    onClick={() => updateLogStatus(log.id, 'taken')}
+                    onClick={() => markTakenNow(log)}
                     disabled={loading}
                     className="px-4 py-2 bg-green-600 text-white text-xs font-medium rounded-md hover:bg-green-700 focus:outline-none focus:ring-2 focus:ring-green-500 focus:ring-offset-1 transition-colors disabled:opacity-50"
                   >
                     Mark Taken
                   </button>
                   <button
-                    onClick={() => updateLogStatus(log.id, 'missed')}
+                    onClick={() => setEditing({ logId: log.id, mode: 'skip' })}
+                    disabled={loading}
+                    className="px-4 py-2 bg-orange-500 text-white text-xs font-medium rounded-md hover:bg-orange-600 focus:outline-none focus:ring-2 focus:ring-orange-400 focus:ring-offset-1 transition-colors disabled:opacity-50"
+                  >
+                    Skip
+                  </button>
+                  <button
+                    onClick={() => markMissed(log)}
                     disabled={loading}
                     className="px-4 py-2 bg-red-600 text-white text-xs font-medium rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-1 transition-colors disabled:opacity-50"
                   >
@@ -128,22 +316,146 @@ export function MedicationTracker({ logs, onRefresh }: MedicationTrackerProps) {
                    <span className="text-xs text-gray-500 block mt-0.5">
                      at {new Date(log.taken_at).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true })}
                    </span>
+                   {!log.is_prn && (
+                     <button
+                       onClick={() => setEditing({ logId: log.id, mode: 'taken' })}
+                       className="text-xs text-teal-700 hover:underline flex items-center gap-1 ml-auto mt-0.5"
+                     >
+                       <Pencil className="w-3 h-3" /> Edit
+                     </button>
+                   )}
                 </div>
               )}
               {log.status === 'missed' && (
-                <span className="text-xs font-medium text-red-700 flex items-center gap-1 justify-end">
-                  <XCircle className="w-4 h-4"/> Missed
-                </span>
+                <div className="text-right">
+                  <span className="text-xs font-medium text-red-700 flex items-center gap-1 justify-end">
+                    <XCircle className="w-4 h-4"/> Missed
+                  </span>
+                  {log.auto_missed_at && (
+                    <span className="text-xs text-gray-500 block mt-0.5">Not recorded in time</span>
+                  )}
+                  <button
+                    onClick={() => setEditing({ logId: log.id, mode: 'taken' })}
+                    className="text-xs text-teal-700 hover:underline block ml-auto mt-0.5"
+                  >
+                    I took it
+                  </button>
+                </div>
               )}
                {log.status === 'skipped' && (
-                <span className="text-xs font-medium text-orange-700 flex items-center gap-1 justify-end">
-                   <XCircle className="w-4 h-4"/> Skipped
-                 </span>
+                <div className="text-right">
+                  <span className="text-xs font-medium text-orange-700 flex items-center gap-1 justify-end">
+                     <XCircle className="w-4 h-4"/> Skipped
+                   </span>
+                  <span className="text-xs text-gray-500 block mt-0.5">{skipReasonLabel(log.skip_reason)}</span>
+                  <button
+                    onClick={() => setEditing({ logId: log.id, mode: 'skip' })}
+                    className="text-xs text-teal-700 hover:underline flex items-center gap-1 ml-auto mt-0.5"
+                  >
+                    <Pencil className="w-3 h-3" /> Edit
+                  </button>
+                </div>
                )}
             </div>
           </div>
+
+          {editing?.logId === log.id && (
+            <DoseRecordForm
+              log={log}
+              mode={editing.mode}
+              saving={loading}
+              onSave={(record, message) => saveRecord(log, record, message)}
+              onCancel={() => setEditing(null)}
+            />
+          )}
+          </div>
         ))
       )}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// Records a dose as taken at a chosen time, or as skipped with a reason, with an optional note
+function DoseRecordForm({ log, mode, saving, onSave, onCancel }: {
+  log: MedicationLog;
+  mode: 'taken' | 'skip';
+  saving: boolean;
+  onSave: (record: DoseRecord, message: string) => void;
+  onCancel: () => void;
+}) {
+  const [takenAt, setTakenAt] = useState(() => toDateTimeLocal(log.taken_at || new Date()));
+  const [reason, setReason] = useState<SkipReason | ''>(log.skip_reason || '');
+  const [notes, setNotes] = useState(log.notes || '');
+
+  const handleSave = () => {
+    const note = notes.trim() || null;
+    if (mode === 'skip') {
+      if (!reason) {
+        alert('Please choose why you are skipping this dose.');
+        return;
+      }
+      onSave({ status: 'skipped', taken_at: null, skip_reason: reason, notes: note }, `${log.medication_name} skipped.`);
+      return;
+    }
+    const time = new Date(takenAt);
+    const error = validateTakenAt(time, log.scheduled_time, new Date());
+    if (error) {
+      alert(error);
+      return;
+    }
+    onSave(
+      { status: 'taken', taken_at: time.toISOString(), skip_reason: null, notes: note },
+      `${log.medication_name} recorded as taken at ${time.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true })}.`
+    );
+  };
+
+  return (
+    <div className="mt-3 pt-3 border-t border-gray-200 space-y-2">
+      {mode === 'skip' ? (
+        <label className="block text-sm text-gray-700">
+          Reason for skipping *
+          <select
+            value={reason}
+            onChange={(e) => setReason(e.target.value as SkipReason | '')}
+            className="mt-1 block w-full px-3 py-1.5 border rounded-lg text-sm"
+          >
+            <option value="">Choose a reason...</option>
+            {SKIP_REASONS.map(value => <option key={value} value={value}>{SKIP_REASON_LABELS[value]}</option>)}
+          </select>
+        </label>
+      ) : (
+        <label className="block text-sm text-gray-700">
+          Time taken
+          <input
+            type="datetime-local"
+            value={takenAt}
+            max={toDateTimeLocal(new Date())}
+            onChange={(e) => setTakenAt(e.target.value)}
+            className="mt-1 block w-full px-3 py-1.5 border rounded-lg text-sm"
+          />
+        </label>
+      )}
+      <label className="block text-sm text-gray-700">
+        Note (optional)
+        <textarea
+          value={notes}
+          onChange={(e) => setNotes(e.target.value)}
+          rows={2}
+          maxLength={500}
+          className="mt-1 block w-full px-3 py-1.5 border rounded-lg text-sm"
+          placeholder={mode === 'skip' ? 'e.g., felt nauseous after the last dose' : 'e.g., took it with breakfast'}
+        />
+      </label>
+      <div className="flex justify-end gap-2">
+        <button onClick={onCancel} className="px-3 py-1.5 text-sm text-gray-700 hover:text-gray-900">Cancel</button>
+        <button
+          onClick={handleSave}
+          disabled={saving}
+          className="px-3 py-1.5 bg-teal-600 text-white text-sm rounded-lg hover:bg-teal-700 disabled:opacity-50"
+        >
+          {mode === 'skip' ? 'Skip Dose' : 'Save'}
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,182 +1,224 @@
-import { useState, useEffect } from 'react';
-import { useAuth } from '../contexts/AuthContext';
-import { CheckCircle, XCircle, Clock, Calendar } from 'lucide-react';
-import { supabase } from '../lib/supabaseClient'; // NEW IMPORT
+import { useEffect, useState } from 'react';
+import { Activity, Flame } from 'lucide-react';
+import {
+  ADHERENCE_TARGET_RATE,
+  AdherenceLog,
+  DEFAULT_MISSED_DOSE_GRACE_MINUTES,
+  PatientAdherenceSummary,
+  formatRate,
+  loadAdherenceLogs,
+  loadMissedDoseGraceMinutes,
+  summarizePatient,
+} from '../lib/adherence';
+import { SKIP_REASONS, SKIP_REASON_LABELS, skipReasonLabel } from '../lib/doseRecords';
+import { AdherenceTrends } from './AdherenceTrends';
+
+// --- (Types) ---
+type Profile = {
+  id: string;
+  full_name: string;
+};
 
-// Type must match the one in PatientDashboard
-type MedicationLog = {
+type Prescription = {
   id: string;
-  prescription_id: string;
   patient_id: string;
-  medication_id: string;
-  medication_name: string;
-  dosage: string;
-  scheduled_time: string; // ISO string
-  status: 'pending' | 'taken' | 'missed' | 'skipped';
-  taken_at?: string | null;
+  diagnosis?: string;
+  status: string;
+  medications: { name: string }[];
 };
+// --- (End Types) ---
+
+// How far back adherence is computed
+const ADHERENCE_WINDOW_DAYS = 30;
 
-interface MedicationTrackerProps {
-  logs: MedicationLog[]; // Receives all logs from dashboard
-  onRefresh: () => void;
+interface PatientAdherenceProps {
+  patients: Profile[];
+  prescriptions: Prescription[];
 }
 
-export function MedicationTracker({ logs, onRefresh }: MedicationTrackerProps) {
-  const { profile } = useAuth();
-  const [filteredLogs, setFilteredLogs] = useState<MedicationLog[]>([]);
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
-  const [loading, setLoading] = useState(false);
+// Doctor's view of their patients' adherence: rates and streaks per patient, and per
+// prescription with trends for the selected patient
+export function PatientAdherence({ patients, prescriptions }: PatientAdherenceProps) {
+  const [logs, setLogs] = useState<AdherenceLog[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [selectedPatientId, setSelectedPatientId] = useState<string | null>(null);
+  const [now] = useState(() => new Date());
+  const [graceMinutes, setGraceMinutes] = useState(DEFAULT_MISSED_DOSE_GRACE_MINUTES);
+
+  const patientIds = patients.map(p => p.id).join(',');
 
-  // This useEffect now *filters* the logs prop, it doesn't fetch
   useEffect(() => {
-    if (!profile?.id) return;
-
-    setLoading(true);
-    const startOfDay = new Date(selectedDate);
-    startOfDay.setHours(0, 0, 0, 0);
-    const endOfDay = new Date(selectedDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const filtered = logs.filter((l) => {
-      const t = new Date(l.scheduled_time).getTime();
-      return t >= startOfDay.getTime() && t <= endOfDay.getTime();
-    });
-
-    // Sort by scheduled_time ascending
-    filtered.sort((a, b) => new Date(a.scheduled_time).getTime() - new Date(b.scheduled_time).getTime());
-
-    setFilteredLogs(filtered);
-    setLoading(false);
-  }, [selectedDate, logs, profile?.id]);
-
-  // --- MODIFIED: This function now updates Supabase ---
-  const updateLogStatus = async (logId: string, status: 'taken' | 'missed' | 'skipped') => {
-    setLoading(true);
-    try {
-      const updateData: any = {
-        status: status,
-        taken_at: status === 'taken' ? new Date().toISOString() : null,
-      };
-
-      const { error } = await supabase
-        .from('medication_logs')
-        .update(updateData)
-        .eq('id', logId);
-
-      if (error) throw error;
-      
-      onRefresh(); // Trigger the dashboard to re-fetch all data
-    } catch (err: any) {
-      alert('Error updating medication log: ' + (err?.message || err));
-    } finally {
-      setLoading(false);
-    }
-  };
+    const loadLogs = async () => {
+      if (!patientIds) {
+        setLogs([]);
+        setLoading(false);
+        return;
+      }
+      setLoading(true);
+      try {
+        const since = new Date(now.getTime() - ADHERENCE_WINDOW_DAYS * 24 * 60 * 60 * 1000);
+        setLogs(await loadAdherenceLogs(patientIds.split(','), since, now));
+      } catch (error) {
+        console.error("Error loading adherence data:", error instanceof Error ? error.message : error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadLogs();
+  }, [patientIds, now]);
+
+  useEffect(() => {
+    loadMissedDoseGraceMinutes()
+      .then(setGraceMinutes)
+      .catch(error => console.error("Error loading practice settings:", error.message));
+  }, []);
+
+  const summaries = patients.map(patient =>
+    summarizePatient(patient.id, logs.filter(log => log.patient_id === patient.id), now, graceMinutes)
+  );
+  const selected = summaries.find(summary => summary.patient_id === selectedPatientId) || null;
+  const patientName = (id: string) => patients.find(p => p.id === id)?.full_name || 'Unknown patient';
+
+  if (loading) {
+    return <p className="text-sm text-gray-500">Loading adherence...</p>;
+  }
 
-  // --- (Helper functions getStatusIcon, getStatusColor are unchanged) ---
-  const getStatusIcon = (status: string) => {
-    switch (status) {
-      case 'taken':
-        return <CheckCircle className="w-5 h-5 text-green-600" />;
-      case 'missed':
-        return <XCircle className="w-5 h-5 text-red-600" />;
-      case 'skipped':
-        return <XCircle className="w-5 h-5 text-orange-600" />;
-      default:
-        return <Clock className="w-5 h-5 text-gray-400" />;
-    }
-  };
-  const getStatusColor = (status: string) => {
-    switch (status) {
-      case 'taken':
-        return 'bg-green-50 border-green-200';
-      case 'missed':
-        return 'bg-red-50 border-red-200';
-      case 'skipped':
-        return 'bg-orange-50 border-orange-200';
-      default:
-        return 'bg-white border-gray-200';
-    }
-  };
-  
-  // --- Quick Log is removed, as logs are now auto-generated ---
-  
   return (
     <div className="space-y-4">
-      <div className="flex items-center gap-3 mb-4">
-        <Calendar className="w-5 h-5 text-gray-400" />
-        <input
-          type="date"
-          value={selectedDate}
-          onChange={(e) => setSelectedDate(e.target.value)}
-          className="px-3 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-teal-500 focus:border-transparent"
+      <div>
+        <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          <Activity className="w-5 h-5 text-blue-600" /> Adherence
+        </h2>
+        <p className="text-xs text-gray-500">
+          Skipped doses are not counted; doses still pending once the missed-dose grace period ({graceMinutes} min) has passed count as missed. Rates below {formatRate(ADHERENCE_TARGET_RATE)} are shown in red.
+        </p>
+      </div>
+
+      {/* All patients */}
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-left text-gray-500 border-b">
+              <th className="py-2 pr-4 font-medium">Patient</th>
+              <th className="py-2 pr-4 font-medium">7 days</th>
+              <th className="py-2 pr-4 font-medium">{ADHERENCE_WINDOW_DAYS} days</th>
+              <th className="py-2 pr-4 font-medium">Streak</th>
+              <th className="py-2 font-medium">Missed ({ADHERENCE_WINDOW_DAYS} days)</th>
+            </tr>
+          </thead>
+          <tbody>
+            {summaries.map(summary => (
+              <tr
+                key={summary.patient_id}
+                onClick={() => setSelectedPatientId(selectedPatientId === summary.patient_id ? null : summary.patient_id)}
+                className={`border-b cursor-pointer hover:bg-gray-50 ${selectedPatientId === summary.patient_id ? 'bg-blue-50' : ''}`}
+              >
+                <td className="py-2 pr-4 text-gray-900">{patientName(summary.patient_id)}</td>
+                <td className={`py-2 pr-4 ${isBelowTarget(summary.recent.rate) ? 'text-red-700 font-semibold' : 'text-gray-700'}`}>{formatRate(summary.recent.rate)}</td>
+                <td className="py-2 pr-4 text-gray-700">{formatRate(summary.overall.rate)}</td>
+                <td className="py-2 pr-4 text-gray-700">
+                  {summary.streak > 0 ? (
+                    <span className="flex items-center gap-1"><Flame className="w-3 h-3 text-orange-500" /> {summary.streak} days</span>
+                  ) : '—'}
+                </td>
+                <td className="py-2 text-gray-700">{summary.overall.missed}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {selected && (
+        <PatientAdherenceDetail
+          summary={selected}
+          patientName={patientName(selected.patient_id)}
+          prescriptions={prescriptions}
+          logs={logs.filter(log => log.patient_id === selected.patient_id)}
+          graceMinutes={graceMinutes}
         />
+      )}
+    </div>
+  );
+}
+
+// Per-prescription rates, skipped doses and trends for one patient
+function PatientAdherenceDetail({ summary, patientName, prescriptions, logs, graceMinutes }: {
+  summary: PatientAdherenceSummary;
+  patientName: string;
+  prescriptions: Prescription[];
+  logs: AdherenceLog[];
+  graceMinutes: number;
+}) {
+  const skipped = logs
+    .filter(log => log.status === 'skipped')
+    .sort((a, b) => new Date(b.scheduled_time).getTime() - new Date(a.scheduled_time).getTime());
+  const describePrescription = (id: string) => {
+    const prescription = prescriptions.find(p => p.id === id);
+    if (!prescription) return 'Prescription from another doctor';
+    const names = prescription.medications.map(med => med.name).join(', ');
+    return prescription.diagnosis ? `${prescription.diagnosis} (${names})` : names;
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-4">
+      <h3 className="font-semibold text-gray-900">{patientName}</h3>
+
+      <div>
+        <p className="text-sm font-medium text-gray-700 mb-2">By prescription (last {ADHERENCE_WINDOW_DAYS} days)</p>
+        {summary.by_prescription.length === 0 ? (
+          <p className="text-sm text-gray-500">No scheduled doses in this period.</p>
+        ) : (
+          <div className="space-y-1">
+            {summary.by_prescription.map(({ prescription_id, counts }) => (
+              <div key={prescription_id} className="flex items-center justify-between text-sm">
+                <span className="text-gray-700">{describePrescription(prescription_id)}</span>
+                <span className="text-gray-900">
+                  <strong>{formatRate(counts.rate)}</strong>
+                  <span className="text-xs text-gray-500"> ({counts.taken} taken, {counts.missed} missed, {counts.skipped} skipped)</span>
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
       </div>
 
-      {/* --- Main Logs View --- */}
       <div>
-        <h3 className="text-sm font-medium text-gray-700 mb-2">
-          Logs for {new Date(selectedDate).toLocaleDateString()}
-        </h3>
-
-        {loading ? (
-          <p className="text-sm text-gray-500 py-4">Loading logs...</p>
-        ) : filteredLogs.length === 0 ? (
-          <p className="text-sm text-gray-500 py-4">No medication logs for this date.</p>
+        <p className="text-sm font-medium text-gray-700 mb-2">Skipped doses (last {ADHERENCE_WINDOW_DAYS} days)</p>
+        {skipped.length === 0 ? (
+          <p className="text-sm text-gray-500">No doses were skipped.</p>
         ) : (
           <div className="space-y-2">
-            {filteredLogs.map((log) => (
-              <div
-                key={log.id}
-                className={`flex items-center justify-between p-3 border rounded-lg ${getStatusColor(log.status)}`}
-              >
-                <div className="flex items-center gap-3 flex-1">
-                  {getStatusIcon(log.status)}
-                  <div className="flex-1">
-                    <p className="text-sm font-medium text-gray-900">
-                      {log.medication_name} - {log.dosage}
-                    </p>
-                    <p className="text-xs text-gray-600">
-                      Scheduled for {new Date(log.scheduled_time).toLocaleTimeString([], {
-                        hour: '2-digit',
-                        minute: '2-digit',
-                      })}
-                    </p>
-                  </div>
-                </div>
-
-                {log.status === 'pending' && (
-                  <div className="flex gap-2">
-                    <button
-                      onClick={() => updateLogStatus(log.id, 'taken')}
-                      disabled={loading}
-                      className="px-3 py-1 bg-green-600 text-white text-xs rounded hover:bg-green-700"
-                    >
-                      Taken
-                    </button>
-                    <button
-                      onClick={() => updateLogStatus(log.id, 'missed')}
-                      disabled={loading}
-                      className="px-3 py-1 bg-red-600 text-white text-xs rounded hover:bg-red-700"
-                    >
-                      Missed
-                    </button>
-                  </div>
-                )}
-
-                {log.status === 'taken' && log.taken_at && (
-                  <span className="text-xs text-gray-600">
-                    Taken at {new Date(log.taken_at).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            <div className="flex flex-wrap gap-2 text-xs">
+              {SKIP_REASONS.map(reason => {
+                const count = skipped.filter(log => log.skip_reason === reason).length;
+                return count > 0 && (
+                  <span key={reason} className="px-2 py-0.5 bg-orange-100 text-orange-800 rounded-full">
+                    {SKIP_REASON_LABELS[reason]}: {count}
                   </span>
-                )}
-                {log.status === 'missed' && (
-                  <span className="text-xs font-medium text-red-600">Missed</span>
-                )}
-              </div>
-            ))}
+                );
+              })}
+            </div>
+            <ul className="text-sm space-y-1 max-h-48 overflow-y-auto">
+              {skipped.map(log => (
+                <li key={log.id} className="text-gray-700">
+                  <span className="text-gray-500">
+                    {new Date(log.scheduled_time).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                  </span>
+                  {' · '}<strong className="text-gray-900">{log.medication_name}</strong>
+                  {' · '}{skipReasonLabel(log.skip_reason)}
+                  {log.notes && <span className="text-gray-500 italic"> - "{log.notes}"</span>}
+                </li>
+              ))}
+            </ul>
           </div>
         )}
       </div>
+
+      <AdherenceTrends patientId={summary.patient_id} graceMinutes={graceMinutes} />
     </div>
   );
-}
\ No newline at end of file
+}
+
+function isBelowTarget(rate: number | null): boolean {
+  return rate !== null && rate < ADHERENCE_TARGET_RATE;
+}
@@ -1,65 +1,155 @@
-import { useEffect, useState } from 'react';
+import { useEffect, useRef, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { Pill, LogOut, CheckCircle, AlertTriangle, Calendar, User, ChevronDown, ChevronUp, XCircle, Sunrise, Sun, Sunset } from 'lucide-react'; // Added icons
-import { MedicationTracker } from './MedicationTracker';
+import { Pill, LogOut, CheckCircle, AlertTriangle, Calendar, User, ChevronDown, ChevronUp, XCircle, Sunrise, Sun, Sunset, Repeat, ShieldCheck } from 'lucide-react'; // Added icons
+import { MedicationTracker, PrnMedication } from './MedicationTracker';
 import { supabase } from '../lib/supabaseClient';
 import { EditProfileModal } from './EditProfileModal'; // NEW IMPORT
+import { DoseSlot } from '../lib/doseTimes';
+import { Frequency, LegacyTiming, describeFrequency, frequencySlots, getFrequency } from '../lib/frequency';
+import { SafetyCheckRecord, plainLanguageSummary } from '../lib/safetyCheck';
+import { Dose, doseText } from '../lib/dose';
+import { SkipReason } from '../lib/doseRecords';
+import {
+  DEFAULT_MISSED_DOSE_GRACE_MINUTES,
+  countAdherence,
+  formatRate,
+  loadMedicationLogs,
+  loadMissedDoseGraceMinutes,
+  localDayKey,
+} from '../lib/adherence';
+import { AdherenceTrends } from './AdherenceTrends';
+import { DoseCalendar } from './DoseCalendar';
+import { AGENDA_DAYS, WeeklyAgenda } from './WeeklyAgenda';
+import { ReportableMedication, SymptomReportModal } from './SymptomReportModal';
+import { SymptomJournal } from './SymptomJournal';
 
 // --- (Types remain the same) ---
 type MedicationItem = {
   id: string;
   name: string;
   dosage: string;
-  timing: { morning: boolean; afternoon: boolean; night: boolean };
+  dose?: Dose;
+  frequency: Frequency;
+  timing?: LegacyTiming;
   instructions: string;
 };
 type Prescription = {
   id: string; patient_id: string; doctor_id: string; start_date: string; end_date: string;
   status: 'active' | 'completed' | 'cancelled' | 'pending_ai_check';
   diagnosis?: string | null; medications: MedicationItem[]; created_at?: string;
+  safety_check?: SafetyCheckRecord | null;
 };
 type MedicationLog = {
   id: string; prescription_id: string; patient_id: string; medication_id: string;
-  medication_name: string; dosage: string; scheduled_time: string;
+  medication_name: string; dosage: string; dose?: Dose | null; scheduled_time: string;
   status: 'pending' | 'taken' | 'missed' | 'skipped'; taken_at?: string | null;
+  dose_slot?: DoseSlot | null;
+  is_prn?: boolean;
+  auto_missed_at?: string | null;
+  skip_reason?: SkipReason | null;
+  notes?: string | null;
 };
 // --- (End Types) ---
 
+// Local first day of the month of a "YYYY-MM-DD" day
+const monthOf = (day: string) => {
+  const date = new Date(`${day}T00:00:00`);
+  return new Date(date.getFullYear(), date.getMonth(), 1);
+};
+
+// The doses the dashboard shows: the calendar's month, the selected day (in another month after
+// paging the calendar) and the coming week for the agenda and reminders
+const displayedRanges = (month: Date, selectedDate: string): [Date, Date][] => {
+  const day = new Date(`${selectedDate}T00:00:00`);
+  const now = new Date();
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  const endOfDayAfter = (start: Date, days: number) =>
+    new Date(start.getFullYear(), start.getMonth(), start.getDate() + days, 0, 0, 0, -1);
+  return [
+    [month, new Date(month.getFullYear(), month.getMonth() + 1, 1, 0, 0, 0, -1)],
+    ...(isNaN(day.getTime()) ? [] : [[day, endOfDayAfter(day, 1)] as [Date, Date]]), // The date picker can be cleared
+    [today, endOfDayAfter(today, AGENDA_DAYS)],
+  ];
+};
+
 export function PatientDashboard() {
-  const { profile, signOut } = useAuth();
+  const { profile, signOut, refreshProfile } = useAuth();
   const [prescriptions, setPrescriptions] = useState<Prescription[]>([]);
   const [logs, setLogs] = useState<MedicationLog[]>([]);
+  // The full-page loader is only for the first load. Later reloads (e.g. after a dose is
+  // recorded) keep the page mounted so the tracker's undo offer and open forms survive.
   const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
   const [showEditProfile, setShowEditProfile] = useState(false); // State for Edit Profile modal
   const [shownAlerts, setShownAlerts] = useState<string[]>([]); // State for medication alerts
+  const [graceMinutes, setGraceMinutes] = useState(DEFAULT_MISSED_DOSE_GRACE_MINUTES);
 
   // State for selected date & prescription list visibility
-  const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split('T')[0]);
+  const [selectedDate, setSelectedDate] = useState(() => localDayKey(new Date())); // Local "YYYY-MM-DD"
+  const [calendarMonth, setCalendarMonth] = useState(() => monthOf(localDayKey(new Date())));
+  const logsRequestRef = useRef(0);
   const [showAllPrescriptions, setShowAllPrescriptions] = useState(false);
+  const trackerRef = useRef<HTMLDivElement>(null);
+  // Open symptom report, optionally about one medication
+  const [symptomReport, setSymptomReport] = useState<{ medication: { prescription_id: string; medication_id: string } | null } | null>(null);
+  const [symptomReportsVersion, setSymptomReportsVersion] = useState(0);
 
   // Load data from Supabase
   const loadDataFromSupabase = async () => {
     if (!profile) return;
-    setLoading(true);
+    const request = ++logsRequestRef.current;
+    setRefreshing(true);
     try {
       const { data: prescriptionsData, error: prescriptionsError } = await supabase
-        .from('prescriptions').select('*').eq('patient_id', profile.id)
+        .from('prescriptions').select('*').eq('patient_id', profile.id).is('deleted_at', null)
         .order('created_at', { ascending: false });
       if (prescriptionsError) throw prescriptionsError;
-      setPrescriptions(prescriptionsData as Prescription[] || []);
 
-      const { data: logsData, error: logsError } = await supabase
-        .from('medication_logs').select('*').eq('patient_id', profile.id)
-        .order('scheduled_time', { ascending: true });
-      if (logsError) throw logsError;
-      setLogs(logsData as MedicationLog[] || []);
+      // Only the displayed days are loaded; ranges may overlap, so doses are merged by id
+      const pages = await Promise.all(displayedRanges(calendarMonth, selectedDate).map(([from, to]) =>
+        loadMedicationLogs<MedicationLog>([profile.id], from, to)
+      ));
+      if (request !== logsRequestRef.current) return; // A newer load (e.g. another month) is running
+      setPrescriptions(prescriptionsData as Prescription[] || []);
+      setLogs([...new Map(pages.flat().map(log => [log.id, log])).values()]
+        .sort((a, b) => new Date(a.scheduled_time).getTime() - new Date(b.scheduled_time).getTime()));
     } catch (error: any) { console.error("Error loading patient data:", error.message); }
-    finally { setLoading(false); }
+    finally {
+      if (request === logsRequestRef.current) {
+        setLoading(false);
+        setRefreshing(false);
+      }
+    }
   };
 
   useEffect(() => {
     loadDataFromSupabase();
-  }, [profile?.id]);
+  }, [profile?.id, calendarMonth, selectedDate]);
+
+  // Schedules are generated in the patient's stored time zone; record this device's one if the
+  // patient has never saved their profile
+  useEffect(() => {
+    if (!profile || profile.timezone) return;
+    const saveTimeZone = async () => {
+      const { error } = await supabase
+        .from('profiles')
+        .update({ timezone: Intl.DateTimeFormat().resolvedOptions().timeZone })
+        .eq('id', profile.id);
+      if (error) {
+        console.error("Error saving time zone:", error.message);
+        return;
+      }
+      await refreshProfile();
+    };
+    saveTimeZone();
+  }, [profile, refreshProfile]);
+
+  // Pending doses only count as missed once the practice's grace period has passed
+  useEffect(() => {
+    loadMissedDoseGraceMinutes()
+      .then(setGraceMinutes)
+      .catch(error => console.error("Error loading practice settings:", error.message));
+  }, []);
 
   // useEffect for Medication Alerts
   useEffect(() => {
@@ -68,10 +158,11 @@ export function PatientDashboard() {
       const pendingLogs = logs.filter(log => log.status === 'pending');
 
       for (const log of pendingLogs) {
+        // Stored times already follow the patient's dose times (the server reschedules on change)
         const scheduledTime = new Date(log.scheduled_time).getTime();
         if (now > scheduledTime && !shownAlerts.includes(log.id)) {
           alert(
-            `Medication Reminder:\n\nIt's time to take your ${log.medication_name} (${log.dosage}).`
+            `Medication Reminder:\n\nIt's time to take your ${log.medication_name}: ${doseText(log)}.`
           );
           setShownAlerts(prev => [...prev, log.id]);
         }
@@ -85,25 +176,52 @@ export function PatientDashboard() {
     return () => clearInterval(intervalId); // Cleanup interval
   }, [logs, shownAlerts, loading]); // Dependencies for the effect
 
-  // Filter logs based on the selectedDate state
-  const selectedDateLogs = logs.filter(log => {
-    const logDate = new Date(log.scheduled_time);
-    const selDate = new Date(selectedDate);
-    // Compare year, month, and day, adjusting for potential timezone offset in Date object
-    return logDate.getFullYear() === selDate.getFullYear() &&
-           logDate.getMonth() === selDate.getMonth() &&
-           logDate.getDate() === selDate.getDate(); // Compare dates directly
-  });
-
-
-  // Calculate stats based on selectedDateLogs
-  const takenToday = selectedDateLogs.filter(log => log.status === 'taken').length;
-  const pendingToday = selectedDateLogs.filter(log => log.status === 'pending').length;
-  const missedToday = selectedDateLogs.filter(log => log.status === 'missed').length;
-  const totalToday = selectedDateLogs.length;
-  const adherenceToday = totalToday > 0
-    ? Math.round((takenToday / (totalToday - selectedDateLogs.filter(l => l.status === 'skipped').length)) * 100)
-    : 100; // 100% if no doses scheduled
+  // Filter logs based on the selectedDate state (both compared as local days)
+  const selectedDateLogs = logs.filter(log => localDayKey(log.scheduled_time) === selectedDate);
+
+
+  // The calendar follows the selected day to other months
+  const selectDate = (date: string) => {
+    setSelectedDate(date);
+    if (date) setCalendarMonth(monthOf(date));
+  };
+
+  // Calendar and agenda clicks open that day's doses in the tracker
+  const openDay = (date: string) => {
+    selectDate(date);
+    trackerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Medications of active prescriptions a symptom can be linked to
+  const reportableMedications: ReportableMedication[] = prescriptions
+    .filter(p => p.status === 'active')
+    .flatMap(p => p.medications.map(med => ({ prescription_id: p.id, medication_id: med.id, name: med.name })));
+
+  // Calculate stats based on selectedDateLogs (PRN doses are not scheduled, so they don't count)
+  const scheduledLogs = selectedDateLogs.filter(log => !log.is_prn);
+  const takenToday = scheduledLogs.filter(log => log.status === 'taken').length;
+  const pendingToday = scheduledLogs.filter(log => log.status === 'pending').length;
+  const missedToday = scheduledLogs.filter(log => log.status === 'missed').length;
+  // Of the doses due so far; null (shown as "—") when nothing was due yet or all were skipped
+  const adherenceToday = countAdherence(selectedDateLogs, new Date(), graceMinutes).rate;
+
+  // As-needed medications from active prescriptions, loggable only for today
+  const todayString = localDayKey(new Date());
+  const prnMedications: PrnMedication[] = selectedDate !== todayString ? [] : prescriptions
+    .filter(p => p.status === 'active' && p.start_date <= todayString && p.end_date >= todayString)
+    .flatMap(p => p.medications.flatMap(med => {
+      const frequency = getFrequency(med);
+      if (frequency.type !== 'prn') return [];
+      return [{
+        prescription_id: p.id,
+        medication_id: med.id,
+        name: med.name,
+        dosage: med.dosage,
+        dose: med.dose,
+        max_per_day: frequency.max_per_day,
+        min_hours_between: frequency.min_hours_between,
+      }];
+    }));
 
   if (loading) {
     return (
@@ -154,7 +272,7 @@ export function PatientDashboard() {
                <input
                  type="date"
                  value={selectedDate}
-                 onChange={(e) => setSelectedDate(e.target.value)}
+                 onChange={(e) => selectDate(e.target.value)}
                  className="px-3 py-1.5 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-teal-500 focus:border-transparent"
                />
              </div>
@@ -174,14 +292,14 @@ export function PatientDashboard() {
                    <path
                      className="text-teal-500"
                      strokeWidth="3" fill="none"
-                     strokeDasharray={`${adherenceToday}, 100`}
+                     strokeDasharray={`${Math.round((adherenceToday ?? 0) * 100)}, 100`}
                      strokeLinecap="round" // Make the line end round
                      transform="rotate(-90 18 18)" // Start from the top
                      d="M18 2.0845 a 15.9155 15.9155 0 0 1 0 31.831 a 15.9155 15.9155 0 0 1 0 -31.831"
                    />
                  </svg>
                  <div className="absolute top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 text-center">
-                   <span className="text-2xl font-bold text-gray-700">{adherenceToday}%</span>
+                   <span className="text-2xl font-bold text-gray-700">{formatRate(adherenceToday)}</span>
                    <p className="text-xs text-gray-500">Adherence</p>
                  </div>
                </div>
@@ -195,17 +313,54 @@ export function PatientDashboard() {
 
 
         {/* Medication Tracker (Focused on Selected Date) */}
-        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 mb-8">
+        <div ref={trackerRef} className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 mb-8 scroll-mt-20">
            <h2 className="text-xl font-semibold text-gray-800 mb-4">
-              Medications for {new Date(selectedDate).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+              Medications for {new Date(`${selectedDate}T00:00:00`).toLocaleDateString(undefined, { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' })}
+              {refreshing && <span className="ml-2 text-sm font-normal text-gray-400">Updating...</span>}
             </h2>
             <MedicationTracker
               logs={selectedDateLogs} // Pass only the logs for the selected date
+              prnMedications={prnMedications}
               onRefresh={loadDataFromSupabase}
+              onReportSymptom={(medication) => setSymptomReport({ medication })}
             />
         </div>
 
 
+        {/* Month calendar & upcoming week */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 mb-8 grid grid-cols-1 md:grid-cols-2 gap-8">
+          <DoseCalendar
+            logs={logs}
+            month={calendarMonth}
+            onMonthChange={setCalendarMonth}
+            selectedDate={selectedDate}
+            graceMinutes={graceMinutes}
+            onSelectDate={openDay}
+          />
+          <WeeklyAgenda logs={logs} prescriptions={prescriptions} onSelectDate={openDay} />
+        </div>
+
+
+        {/* Symptom journal */}
+        {profile && (
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 mb-8">
+            <SymptomJournal
+              patientId={profile.id}
+              reloadKey={symptomReportsVersion}
+              onReport={() => setSymptomReport({ medication: null })}
+            />
+          </div>
+        )}
+
+
+        {/* Adherence over time */}
+        {profile && (
+          <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6 mb-8">
+            <AdherenceTrends patientId={profile.id} graceMinutes={graceMinutes} reloadKey={logs} />
+          </div>
+        )}
+
+
         {/* All Prescriptions (Collapsible) */}
         <div className="bg-white rounded-xl shadow-lg border border-gray-100 overflow-hidden">
           <button
@@ -242,18 +397,26 @@ export function PatientDashboard() {
                        <p className="text-sm text-gray-600"><strong>End:</strong> {new Date(p.end_date).toLocaleDateString()}</p>
                        <div className="mt-4 space-y-2">
                          <p className="text-xs font-medium text-gray-700">Medications:</p>
-                         {p.medications.map(med => (
+                         {p.medications.map(med => {
+                           const frequency = getFrequency(med);
+                           const slots = frequencySlots(frequency);
+                           return (
                            <div key={med.id} className="p-2 bg-white rounded border border-gray-200">
-                              <p className="font-semibold text-sm text-gray-800">{med.name} - {med.dosage}</p>
+                              <p className="font-semibold text-sm text-gray-800">{med.name} - {doseText(med)}</p>
                               <p className="text-xs text-gray-600 mt-0.5">{med.instructions}</p>
                               <div className="flex items-center flex-wrap gap-x-3 gap-y-1 mt-1.5">
-                               {med.timing.morning && <div className="flex items-center gap-1 text-xs text-yellow-700"><Sunrise className="w-3 h-3" /> Morning</div>}
-                               {med.timing.afternoon && <div className="flex items-center gap-1 text-xs text-blue-700"><Sun className="w-3 h-3" /> Afternoon</div>}
-                               {med.timing.night && <div className="flex items-center gap-1 text-xs text-indigo-700"><Sunset className="w-3 h-3" /> Night</div>}
+                               {slots.includes('morning') && <div className="flex items-center gap-1 text-xs text-yellow-700"><Sunrise className="w-3 h-3" /> Morning</div>}
+                               {slots.includes('afternoon') && <div className="flex items-center gap-1 text-xs text-blue-700"><Sun className="w-3 h-3" /> Afternoon</div>}
+                               {slots.includes('night') && <div className="flex items-center gap-1 text-xs text-indigo-700"><Sunset className="w-3 h-3" /> Night</div>}
+                               {frequency.type !== 'daily' && <div className="flex items-center gap-1 text-xs text-teal-700"><Repeat className="w-3 h-3" /> {describeFrequency(frequency)}</div>}
                              </div>
                            </div>
-                         ))}
+                           );
+                         })}
                        </div>
+                       <p className="mt-3 text-xs text-gray-600 flex items-start gap-1">
+                         <ShieldCheck className="w-3 h-3 mt-0.5 flex-shrink-0 text-teal-600" /> {plainLanguageSummary(p.safety_check)}
+                       </p>
                    </div>
                  ))
                )}
@@ -266,6 +429,14 @@ export function PatientDashboard() {
        {showEditProfile && (
          <EditProfileModal onClose={() => setShowEditProfile(false)} />
        )}
+       {symptomReport && (
+         <SymptomReportModal
+           medications={reportableMedications}
+           initialMedication={symptomReport.medication}
+           onClose={() => setSymptomReport(null)}
+           onSaved={() => setSymptomReportsVersion(version => version + 1)}
+         />
+       )}
     </div>
   );
 }
@@ -0,0 +1,89 @@
+import { useEffect, useState } from 'react';
+import { X, Save, ClipboardList } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { MedicalRecordsForm } from './MedicalRecordsForm';
+import { EMPTY_MEDICAL_RECORDS, MedicalRecords, loadMedicalRecords, saveMedicalRecords } from '../lib/medicalRecords';
+
+interface PatientRecordsModalProps {
+  patientId: string;
+  patientName: string;
+  onClose: () => void;
+}
+
+// Doctor's view of a patient's allergies, conditions and self-reported medications
+export function PatientRecordsModal({ patientId, patientName, onClose }: PatientRecordsModalProps) {
+  const { profile } = useAuth();
+  const [savedRecords, setSavedRecords] = useState<MedicalRecords>(EMPTY_MEDICAL_RECORDS);
+  const [records, setRecords] = useState<MedicalRecords>(EMPTY_MEDICAL_RECORDS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    const loadRecords = async () => {
+      setLoading(true);
+      try {
+        const loaded = await loadMedicalRecords(patientId);
+        setSavedRecords(loaded);
+        setRecords(loaded);
+      } catch (error) {
+        console.error("Error loading medical records:", error instanceof Error ? error.message : error);
+        alert("Could not load this patient's medical records.");
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadRecords();
+  }, [patientId]);
+
+  const handleSave = async () => {
+    setSaving(true);
+    try {
+      await saveMedicalRecords(patientId, savedRecords, records);
+      alert("Medical records updated.");
+      onClose();
+    } catch (error) {
+      console.error("Error saving medical records:", error instanceof Error ? error.message : error);
+      alert("Error saving medical records: " + (error instanceof Error ? error.message : error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <ClipboardList className="w-5 h-5 text-blue-600" /> Medical Records: {patientName}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading records...</p>
+          ) : (
+            <MedicalRecordsForm value={records} onChange={setRecords} verifierId={profile?.id} />
+          )}
+
+          <div className="flex gap-3 pt-4">
+            <button type="button" onClick={onClose} className="flex-1 px-4 py-2 border rounded-lg">
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={loading || saving}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg flex items-center justify-center gap-2 disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? "Saving..." : "Save Records"}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,123 @@
+import { useEffect, useState } from 'react';
+import { Settings, Clock } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { supabase } from '../lib/supabaseClient';
+import { DEFAULT_PRACTICE_SETTINGS, PracticeSettings } from '../lib/safetyCheck';
+
+export function PracticeSettingsPanel() {
+  const { profile } = useAuth();
+  const [settings, setSettings] = useState<PracticeSettings>(DEFAULT_PRACTICE_SETTINGS);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [graceMinutes, setGraceMinutes] = useState(String(DEFAULT_PRACTICE_SETTINGS.missed_dose_grace_minutes));
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('practice_settings')
+          .select('require_safety_check, missed_dose_grace_minutes')
+          .maybeSingle();
+        if (error) throw error;
+        if (data) {
+          setSettings(data as PracticeSettings);
+          setGraceMinutes(String(data.missed_dose_grace_minutes));
+        }
+      } catch (error) {
+        console.error("Error loading practice settings:", error instanceof Error ? error.message : error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadSettings();
+  }, []);
+
+  const saveSettings = async (changes: Partial<PracticeSettings>) => {
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('practice_settings')
+        .update({
+          ...changes,
+          updated_at: new Date().toISOString(),
+          updated_by: profile?.id ?? null,
+        })
+        .eq('id', true);
+      if (error) throw error;
+      setSettings({ ...settings, ...changes });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error("Error saving practice settings:", message);
+      alert("Error saving settings: " + message);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveGrace = () => {
+    const minutes = parseInt(graceMinutes);
+    if (!(minutes >= 15 && minutes <= 1440)) {
+      alert("Please enter a grace period between 15 and 1440 minutes.");
+      return;
+    }
+    saveSettings({ missed_dose_grace_minutes: minutes });
+  };
+
+  return (
+    <div>
+      <h2 className="text-lg font-semibold text-gray-900 flex items-center gap-2 mb-4">
+        <Settings className="w-5 h-5 text-blue-600" /> Practice Settings
+      </h2>
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading settings...</p>
+      ) : (
+        <>
+          <label className="flex items-start gap-3 p-4 border border-gray-200 rounded-lg">
+            <input
+              type="checkbox"
+              checked={settings.require_safety_check}
+              disabled={saving}
+              onChange={(e) => saveSettings({ require_safety_check: e.target.checked })}
+              className="mt-1"
+            />
+            <span>
+              <span className="block text-sm font-medium text-gray-900">Require an AI safety check</span>
+              <span className="block text-xs text-gray-500">
+                Prescriptions can only become active after a completed safety check. Applies to every doctor in the practice.
+              </span>
+            </span>
+          </label>
+          <div className="flex items-start gap-3 p-4 border border-gray-200 rounded-lg mt-4">
+            <Clock className="w-4 h-4 text-gray-500 mt-1" />
+            <div className="flex-1">
+              <span className="block text-sm font-medium text-gray-900">Mark overdue doses as missed</span>
+              <span className="block text-xs text-gray-500 mb-2">
+                Doses the patient has not recorded this many minutes after their scheduled time are marked missed automatically.
+              </span>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number"
+                  min="15"
+                  max="1440"
+                  value={graceMinutes}
+                  onChange={(e) => setGraceMinutes(e.target.value)}
+                  className="w-24 px-3 py-1.5 border border-gray-300 rounded-lg text-sm"
+                />
+                <span className="text-sm text-gray-600">minutes</span>
+                <button
+                  type="button"
+                  onClick={handleSaveGrace}
+                  disabled={saving || graceMinutes === String(settings.missed_dose_grace_minutes)}
+                  className="px-3 py-1.5 bg-blue-600 text-white text-sm rounded-lg hover:bg-blue-700 disabled:opacity-50"
+                >
+                  Save
+                </button>
+              </div>
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -1,20 +1,59 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { useAuth } from "../contexts/AuthContext";
-import { X, Plus, Trash2, Sunrise, Sun, Sunset } from "lucide-react";
+import { X, Plus, Trash2, Sunrise, Sun, Sunset, Repeat, Pencil, BookOpen, AlertTriangle } from "lucide-react";
+import { DoseSlot, DOSE_SLOTS, DOSE_SLOT_LABELS, sortSlots } from "../lib/doseTimes";
+import {
+  Frequency,
+  FrequencyType,
+  FREQUENCY_TYPE_LABELS,
+  WEEKDAY_LABELS,
+  DEFAULT_FREQUENCY,
+  LegacyTiming,
+  describeFrequency,
+  frequencySlots,
+  getFrequency,
+  validateFrequency,
+} from "../lib/frequency";
+import {
+  Dose,
+  DoseUnit,
+  DoseForm,
+  DoseRoute,
+  StrengthUnit,
+  DEFAULT_DOSE,
+  DOSE_FORMS,
+  DOSE_ROUTES,
+  DOSE_UNITS,
+  STRENGTH_UNITS,
+  describeDose,
+  doseFromCatalog,
+  doseInstruction,
+  getDose,
+  validateDose,
+} from "../lib/dose";
+import { DoseLimit, DoseLimitFlag, checkDoseLimits, loadDoseLimits } from "../lib/doseLimits";
+import { calculateAge } from "../lib/age";
+import { PrescriptionTemplate, toTemplateMedications } from "../lib/prescriptionTemplates";
+import { PrescriptionTemplatesPanel } from "./PrescriptionTemplatesPanel";
+import { DrugCatalogEntry, MIN_CATALOG_QUERY_LENGTH, describeCatalogProduct, loadCatalogGenericNames, searchDrugCatalog } from "../lib/drugCatalog";
 
 // --- (Types) ---
 type Profile = {
   id: string;
   full_name?: string;
   email?: string;
+  date_of_birth?: string;
+  weight_kg?: number | null;
 };
 
 // New types for the form
 type MedicationItem = {
   id: string;
   name: string;
-  dosage: string;
-  timing: { morning: boolean; afternoon: boolean; night: boolean };
+  catalog_id?: string | null; // drug_catalog row the name was picked from; missing for free text
+  dosage: string; // Text summary of `dose` (describeDose)
+  dose?: Dose; // Missing on medications saved before structured doses
+  frequency: Frequency;
   instructions: string;
 };
 
@@ -30,9 +69,15 @@ type Prescription = {
   medications: MedicationItem[];
 };
 
+// A saved prescription being edited (its medications may predate structured frequencies)
+type EditablePrescription = Pick<Prescription, 'id' | 'patient_id' | 'start_date' | 'end_date' | 'diagnosis'> & {
+  medications: (Omit<MedicationItem, 'frequency'> & { frequency?: Frequency; timing?: LegacyTiming })[];
+};
+
 interface PrescriptionFormProps {
   patients: Profile[];
   preselectedPatient?: Profile | null;
+  initialPrescription?: EditablePrescription | null; // Set when editing an existing prescription
   onClose: () => void;
   onSuccess: (prescription: Prescription) => void; // Will pass the new prescription
 }
@@ -42,53 +87,148 @@ const defaultMedState = {
   id: "",
   name: "",
   dosage: "",
-  timing: { morning: false, afternoon: false, night: false },
+  dose: DEFAULT_DOSE,
+  frequency: DEFAULT_FREQUENCY,
   instructions: "",
 };
 // --- (End Types) ---
 
+// Whole days between two "YYYY-MM-DD" dates
+const daysBetween = (start: string, end: string) =>
+  Math.round((new Date(end).getTime() - new Date(start).getTime()) / (24 * 60 * 60 * 1000));
+
 export function PrescriptionForm({
   patients,
   preselectedPatient,
+  initialPrescription,
   onClose,
   onSuccess,
 }: PrescriptionFormProps) {
   const { profile } = useAuth();
+  const isEditing = !!initialPrescription;
   
   // --- STATE FOR THE "PRESCRIPTION SET" ---
-  const [patientId, setPatientId] = useState(preselectedPatient?.id || "");
-  const [diagnosis, setDiagnosis] = useState("");
-  const [startDate, setStartDate] = useState(new Date().toISOString().split("T")[0]);
-  const [durationDays, setDurationDays] = useState("7"); // Default to 7 days
-  const [medications, setMedications] = useState<MedicationItem[]>([]);
+  const [patientId, setPatientId] = useState(initialPrescription?.patient_id || preselectedPatient?.id || "");
+  const [diagnosis, setDiagnosis] = useState(initialPrescription?.diagnosis || "");
+  const [startDate, setStartDate] = useState(initialPrescription?.start_date || new Date().toISOString().split("T")[0]);
+  const [durationDays, setDurationDays] = useState( // Default to 7 days
+    initialPrescription ? String(daysBetween(initialPrescription.start_date, initialPrescription.end_date)) : "7"
+  );
+  const [medications, setMedications] = useState<MedicationItem[]>(
+    // Older medications are converted to the structured frequency on edit
+    (initialPrescription?.medications || []).map(({ timing, ...med }) => ({ ...med, frequency: getFrequency({ ...med, timing }) }))
+  );
   const [loading, setLoading] = useState(false);
+  const [doseLimits, setDoseLimits] = useState<DoseLimit[]>([]);
+
+  // Maximum daily doses, checked as medications are added
+  useEffect(() => {
+    const fetchDoseLimits = async () => {
+      try {
+        setDoseLimits(await loadDoseLimits());
+      } catch (error) {
+        console.error("Error loading dose limits:", error instanceof Error ? error.message : error);
+      }
+    };
+    fetchDoseLimits();
+  }, []);
+
+  // Limits are matched by the catalog product's generic name; look it up for medications loaded
+  // from a saved prescription or template (picked products add theirs directly)
+  const [catalogGenericNames, setCatalogGenericNames] = useState<Record<string, string>>({});
+  const unresolvedCatalogIds = [...new Set(medications.map(med => med.catalog_id))]
+    .filter((id): id is string => !!id && !(id in catalogGenericNames))
+    .join(',');
+  useEffect(() => {
+    if (!unresolvedCatalogIds) return;
+    const fetchGenericNames = async () => {
+      try {
+        const names = await loadCatalogGenericNames(unresolvedCatalogIds.split(','));
+        setCatalogGenericNames(current => ({ ...current, ...names }));
+      } catch (error) {
+        console.error("Error loading catalog drugs:", error instanceof Error ? error.message : error);
+      }
+    };
+    fetchGenericNames();
+  }, [unresolvedCatalogIds]);
+
+  const selectedPatient = patients.find(p => p.id === patientId) || preselectedPatient || null;
+  const limitPatient = {
+    age: calculateAge(selectedPatient?.date_of_birth),
+    weight_kg: selectedPatient?.weight_kg ?? null,
+  };
 
   // --- STATE FOR THE *INDIVIDUAL* MEDICATION BEING ADDED ---
   const [currentMed, setCurrentMed] = useState<Omit<MedicationItem, 'id'>>(defaultMedState);
+  const [editingMedId, setEditingMedId] = useState<string | null>(null); // Keeps the id so history/logs stay linked
+
+  // Doses of the same drug are added up, so the medication being added is checked with the listed ones
+  const limitFlags = checkDoseLimits(medications, limitPatient, doseLimits, catalogGenericNames);
+  const draftLimitFlags = checkDoseLimits(
+    [...medications.filter(med => med.id !== editingMedId), { ...currentMed, dose: currentMed.dose || DEFAULT_DOSE }],
+    limitPatient,
+    doseLimits,
+    catalogGenericNames
+  ).pop() || [];
 
   // --- FUNCTION TO ADD A MEDICATION TO THE LIST ---
   const handleAddMedication = () => {
-    if (!currentMed.name || !currentMed.dosage || !currentMed.instructions) {
+    if (!currentMed.name || !currentMed.instructions) {
       alert("Please fill in all medication details.");
       return;
     }
-    if (!currentMed.timing.morning && !currentMed.timing.afternoon && !currentMed.timing.night) {
-      alert("Please select at least one time of day (e.g., Morning).");
+    const dose = currentMed.dose || DEFAULT_DOSE;
+    const doseError = validateDose(dose);
+    if (doseError) {
+      alert(doseError);
+      return;
+    }
+    const frequencyError = validateFrequency(currentMed.frequency);
+    if (frequencyError) {
+      alert(frequencyError);
       return;
     }
     
-    setMedications([
-      ...medications,
-      { ...currentMed, id: 'med_' + Math.random().toString(36).slice(2, 9) }
-    ]);
+    const medication = { ...currentMed, dose, dosage: describeDose(dose) };
+    if (editingMedId) {
+      setMedications(medications.map(med => med.id === editingMedId ? { ...medication, id: editingMedId } : med));
+      setEditingMedId(null);
+    } else {
+      setMedications([
+        ...medications,
+        { ...medication, id: 'med_' + Math.random().toString(36).slice(2, 9) }
+      ]);
+    }
     setCurrentMed(defaultMedState); // Reset the form
   };
 
+  // --- FUNCTION TO LOAD A LISTED MEDICATION BACK INTO THE FORM ---
+  const handleEditMedication = (med: MedicationItem) => {
+    const { id, ...rest } = med;
+    setEditingMedId(id);
+    // Older free-text dosages are converted when understood; otherwise the doctor re-enters them
+    setCurrentMed({ ...rest, dose: getDose(med) || DEFAULT_DOSE });
+  };
+
   // --- FUNCTION TO REMOVE A MEDICATION ---
   const handleRemoveMedication = (id: string) => {
     setMedications(medications.filter(med => med.id !== id));
+    if (editingMedId === id) {
+      setEditingMedId(null);
+      setCurrentMed(defaultMedState);
+    }
   };
   
+  // --- FUNCTION TO INSERT A TEMPLATE (its medications are added to the list for editing) ---
+  const handleUseTemplate = (template: PrescriptionTemplate) => {
+    if (template.diagnosis && !diagnosis) setDiagnosis(template.diagnosis);
+    setDurationDays(String(template.duration_days));
+    setMedications([
+      ...medications,
+      ...template.medications.map(med => ({ ...med, id: 'med_' + Math.random().toString(36).slice(2, 9) })),
+    ]);
+  };
+
   // --- FUNCTION TO HANDLE THE FINAL SUBMIT ---
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -100,6 +240,14 @@ export function PrescriptionForm({
       alert("Please add at least one medication to the prescription.");
       return;
     }
+    // A drug's combined dose is flagged on each of its medications; list it once
+    const exceeded = [...new Set(limitFlags.flat().filter(flag => flag.level === 'exceeds').map(flag => flag.message))];
+    if (
+      exceeded.length > 0 &&
+      !confirm(`These doses exceed the maximum daily dose:\n\n${exceeded.map(message => `- ${message}`).join('\n')}\n\nContinue to the safety check anyway?`)
+    ) {
+      return;
+    }
     setLoading(true);
 
     try {
@@ -109,9 +257,9 @@ export function PrescriptionForm({
       const endDateObj = new Date(startDateObj);
       endDateObj.setDate(startDateObj.getDate() + duration);
 
-      // This is the new "Prescription Set" object
+      // This is the new "Prescription Set" object (editing keeps the saved id)
       const newPrescription: Prescription = {
-        id: 'presc_' + Math.random().toString(36).slice(2, 9),
+        id: initialPrescription?.id || 'presc_' + Math.random().toString(36).slice(2, 9),
         doctor_id: profile?.id || "temp-doctor-id",
         patient_id: patientId,
         start_date: startDate,
@@ -137,13 +285,22 @@ export function PrescriptionForm({
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
       <div className="bg-white rounded-xl shadow-xl max-w-4xl w-full max-h-[90vh] overflow-y-auto">
         <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
-          <h2 className="text-xl font-bold text-gray-900">New Prescription</h2>
+          <h2 className="text-xl font-bold text-gray-900">{isEditing ? "Edit Prescription" : "New Prescription"}</h2>
           <button onClick={onClose} className="text-gray-400 hover:text-gray-600 transition-colors">
             <X className="w-6 h-6" />
           </button>
         </div>
 
         <form onSubmit={handleSubmit} className="p-6">
+          <PrescriptionTemplatesPanel
+            draft={{
+              diagnosis,
+              duration_days: parseInt(durationDays) || 1,
+              medications: toTemplateMedications(medications),
+            }}
+            onUse={handleUseTemplate}
+          />
+
           {/* --- Main Prescription Details --- */}
           <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
             <div>
@@ -153,7 +310,7 @@ export function PrescriptionForm({
                 onChange={(e) => setPatientId(e.target.value)}
                 className="w-full px-4 py-2 border border-gray-300 rounded-lg"
                 required
-                disabled={!!preselectedPatient}
+                disabled={!!preselectedPatient || isEditing}
               >
                 <option value="">Select a patient</option>
                 {patients.map((patient) => (
@@ -162,6 +319,11 @@ export function PrescriptionForm({
                   </option>
                 ))}
               </select>
+              {selectedPatient && (
+                <p className="text-xs text-gray-500 mt-1">
+                  Age: {limitPatient.age ?? 'not recorded'} · Weight: {limitPatient.weight_kg ? `${limitPatient.weight_kg} kg` : 'not recorded'}
+                </p>
+              )}
             </div>
             <div>
               <label className="block text-sm font-medium text-gray-700 mb-1">Diagnosis</label>
@@ -205,66 +367,68 @@ export function PrescriptionForm({
             {medications.length === 0 && (
               <p className="text-gray-500 text-sm">No medications added yet. Use the form below to add one.</p>
             )}
-            {medications.map(med => (
+            {medications.map((med, index) => (
               <div key={med.id} className="flex items-start justify-between p-3 bg-gray-50 rounded-lg border">
                 <div>
-                  <p className="font-semibold">{med.name} - {med.dosage}</p>
+                  <p className="font-semibold">
+                    {med.name} - {med.dosage}
+                    {!med.catalog_id && <span className="ml-2 text-xs font-normal px-2 py-0.5 bg-gray-200 text-gray-600 rounded-full">Free text</span>}
+                  </p>
                   <p className="text-sm text-gray-600">{med.instructions}</p>
+                  <DoseLimitFlags flags={limitFlags[index]} />
                   <div className="flex gap-2 mt-2">
-                    {med.timing.morning && <span className="text-xs px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full">Morning</span>}
-                    {med.timing.afternoon && <span className="text-xs px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full">Afternoon</span>}
-                    {med.timing.night && <span className="text-xs px-2 py-0.5 bg-indigo-100 text-indigo-800 rounded-full">Night</span>}
+                    {frequencySlots(med.frequency).includes('morning') && <span className="text-xs px-2 py-0.5 bg-yellow-100 text-yellow-800 rounded-full">Morning</span>}
+                    {frequencySlots(med.frequency).includes('afternoon') && <span className="text-xs px-2 py-0.5 bg-blue-100 text-blue-800 rounded-full">Afternoon</span>}
+                    {frequencySlots(med.frequency).includes('night') && <span className="text-xs px-2 py-0.5 bg-indigo-100 text-indigo-800 rounded-full">Night</span>}
+                    {med.frequency.type !== 'daily' && (
+                      <span className="flex items-center gap-1 text-xs px-2 py-0.5 bg-teal-100 text-teal-800 rounded-full">
+                        <Repeat className="w-3 h-3" /> {describeFrequency(med.frequency)}
+                      </span>
+                    )}
                   </div>
                 </div>
-                <button type="button" onClick={() => handleRemoveMedication(med.id)} className="text-red-500 hover:text-red-700">
-                  <Trash2 className="w-4 h-4" />
-                </button>
+                <div className="flex gap-2">
+                  <button type="button" onClick={() => handleEditMedication(med)} className="text-blue-500 hover:text-blue-700">
+                    <Pencil className="w-4 h-4" />
+                  </button>
+                  <button type="button" onClick={() => handleRemoveMedication(med.id)} className="text-red-500 hover:text-red-700">
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </div>
               </div>
             ))}
           </div>
 
           {/* --- Form to Add a New Medication --- */}
           <div className="border border-gray-200 rounded-lg p-4">
-            <h4 className="font-medium text-gray-800 mb-3">Add a Medication</h4>
+            <h4 className="font-medium text-gray-800 mb-3">{editingMedId ? "Edit Medication" : "Add a Medication"}</h4>
             <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-              <input
-                type="text"
-                value={currentMed.name}
-                onChange={(e) => setCurrentMed({ ...currentMed, name: e.target.value })}
-                className="w-full px-4 py-2 border rounded-lg"
-                placeholder="Medication Name *"
+              <DrugNameInput
+                name={currentMed.name}
+                catalogId={currentMed.catalog_id}
+                onType={(name) => setCurrentMed({ ...currentMed, name, catalog_id: null })}
+                onPick={(entry) => {
+                  setCatalogGenericNames(current => ({ ...current, [entry.id]: entry.generic_name }));
+                  setCurrentMed({
+                    ...currentMed,
+                    name: entry.generic_name,
+                    dose: doseFromCatalog(entry),
+                    catalog_id: entry.id,
+                  });
+                }}
               />
-              <input
-                type="text"
-                value={currentMed.dosage}
-                onChange={(e) => setCurrentMed({ ...currentMed, dosage: e.target.value })}
-                className="w-full px-4 py-2 border rounded-lg"
-                placeholder="Dosage (e.g., 500mg) *"
-              />
-            </div>
-            <div className="mt-4">
-              <label className="block text-sm font-medium text-gray-700 mb-2">Time of Day *</label>
-              <div className="flex gap-2">
-                <TimeOfDayButton
-                  icon={<Sunrise className="w-4 h-4" />}
-                  label="Morning"
-                  active={currentMed.timing.morning}
-                  onClick={() => setCurrentMed({ ...currentMed, timing: { ...currentMed.timing, morning: !currentMed.timing.morning }})}
-                />
-                <TimeOfDayButton
-                  icon={<Sun className="w-4 h-4" />}
-                  label="Afternoon"
-                  active={currentMed.timing.afternoon}
-                  onClick={() => setCurrentMed({ ...currentMed, timing: { ...currentMed.timing, afternoon: !currentMed.timing.afternoon }})}
-                />
-                <TimeOfDayButton
-                  icon={<Sunset className="w-4 h-4" />}
-                  label="Night"
-                  active={currentMed.timing.night}
-                  onClick={() => setCurrentMed({ ...currentMed, timing: { ...currentMed.timing, night: !currentMed.timing.night }})}
-                />
-              </div>
             </div>
+            <DoseEditor
+              dose={currentMed.dose || DEFAULT_DOSE}
+              onChange={(dose) => setCurrentMed({ ...currentMed, dose })}
+            />
+            <FrequencyEditor
+              frequency={currentMed.frequency}
+              onChange={(frequency) => setCurrentMed({ ...currentMed, frequency })}
+            />
+            {currentMed.name && (
+              <DoseLimitFlags flags={draftLimitFlags} />
+            )}
             <textarea
               value={currentMed.instructions}
               onChange={(e) => setCurrentMed({ ...currentMed, instructions: e.target.value })}
@@ -278,7 +442,7 @@ export function PrescriptionForm({
               className="mt-3 w-full flex items-center justify-center gap-2 px-4 py-2 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 font-medium"
             >
               <Plus className="w-5 h-5" />
-              Add This Medication to Prescription
+              {editingMedId ? "Update This Medication" : "Add This Medication to Prescription"}
             </button>
           </div>
           
@@ -306,6 +470,381 @@ export function PrescriptionForm({
   );
 }
 
+// Dose-limit flags (over the maximum daily dose, or not checked), shown before the AI safety check
+function DoseLimitFlags({ flags }: { flags: DoseLimitFlag[] }) {
+  if (flags.length === 0) return null;
+  return (
+    <div className="mt-2 space-y-1">
+      {flags.map((flag, index) => (
+        <p
+          key={index}
+          className={`flex items-start gap-1 text-xs ${flag.level === 'exceeds' ? 'text-red-700' : 'text-orange-700'}`}
+        >
+          <AlertTriangle className="w-3 h-3 mt-0.5 flex-shrink-0" /> {flag.message}
+        </p>
+      ))}
+    </div>
+  );
+}
+
+// Editor for the structured dose of the medication being added
+function DoseEditor({ dose, onChange }: { dose: Dose; onChange: (dose: Dose) => void }) {
+  const strength = dose.strength;
+  const error = validateDose(dose);
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <label className="text-sm text-gray-700">
+          Amount per dose *
+          <input
+            type="number" min="0" step="any"
+            value={dose.quantity || ''}
+            onChange={(e) => onChange({ ...dose, quantity: parseFloat(e.target.value) || 0 })}
+            className="w-full px-4 py-2 border rounded-lg mt-1"
+          />
+        </label>
+        <label className="text-sm text-gray-700">
+          Unit *
+          <select
+            value={dose.unit}
+            onChange={(e) => onChange({ ...dose, unit: e.target.value as DoseUnit })}
+            className="w-full px-4 py-2 border rounded-lg mt-1"
+          >
+            {DOSE_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Form *
+          <select
+            value={dose.form}
+            onChange={(e) => onChange({ ...dose, form: e.target.value as DoseForm })}
+            className="w-full px-4 py-2 border rounded-lg mt-1"
+          >
+            {DOSE_FORMS.map(form => <option key={form} value={form}>{form}</option>)}
+          </select>
+        </label>
+        <label className="text-sm text-gray-700">
+          Route *
+          <select
+            value={dose.route}
+            onChange={(e) => onChange({ ...dose, route: e.target.value as DoseRoute })}
+            className="w-full px-4 py-2 border rounded-lg mt-1"
+          >
+            {DOSE_ROUTES.map(route => <option key={route} value={route}>{route}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {/* Strength lets the app work out the amount of drug per dose and per day */}
+      <div className="flex items-center gap-2 text-sm text-gray-700 flex-wrap">
+        <span>Strength:</span>
+        <input
+          type="number" min="0" step="any"
+          value={strength?.amount ?? ''}
+          onChange={(e) => {
+            const amount = parseFloat(e.target.value);
+            onChange({
+              ...dose,
+              strength: Number.isNaN(amount) ? null : { unit: 'mg', per: 1, ...strength, amount },
+            });
+          }}
+          className="w-24 px-3 py-1.5 border rounded-lg"
+          placeholder="e.g., 500"
+        />
+        <select
+          value={strength?.unit ?? 'mg'}
+          onChange={(e) => strength && onChange({ ...dose, strength: { ...strength, unit: e.target.value as StrengthUnit } })}
+          disabled={!strength}
+          className="px-3 py-1.5 border rounded-lg"
+        >
+          {STRENGTH_UNITS.map(unit => <option key={unit} value={unit}>{unit}</option>)}
+        </select>
+        <span>per</span>
+        <input
+          type="number" min="0" step="any"
+          value={strength?.per ?? ''}
+          onChange={(e) => strength && onChange({ ...dose, strength: { ...strength, per: parseFloat(e.target.value) || 0 } })}
+          disabled={!strength}
+          className="w-20 px-3 py-1.5 border rounded-lg"
+        />
+        <span>{dose.unit}</span>
+        <span className="text-xs text-gray-500">(optional)</span>
+      </div>
+
+      <p className={`text-sm ${error ? 'text-red-600' : 'text-gray-600'}`}>
+        {error || <>Patient will see: <strong>{doseInstruction(dose)}</strong></>}
+      </p>
+    </div>
+  );
+}
+
+// Editor for the structured frequency of the medication being added
+function FrequencyEditor({ frequency, onChange }: { frequency: Frequency; onChange: (frequency: Frequency) => void }) {
+  // Switching type keeps the selected slots where the new type uses them
+  const handleTypeChange = (type: FrequencyType) => {
+    const slots = frequencySlots(frequency);
+    switch (type) {
+      case 'daily': return onChange({ type, slots });
+      case 'interval': return onChange({ type, every_hours: 8, first_dose: '06:00' });
+      case 'every_n_days': return onChange({ type, every_days: 2, slots });
+      case 'weekly': return onChange({ type, weekdays: [1], slots });
+      case 'prn': return onChange({ type, max_per_day: 4, min_hours_between: 4 });
+      case 'taper': return onChange({ type, slots, steps: [{ dosage: '', days: 7 }] });
+    }
+  };
+
+  const toggleSlot = (slot: DoseSlot) => {
+    if (!('slots' in frequency)) return;
+    const slots = frequency.slots.includes(slot)
+      ? frequency.slots.filter(s => s !== slot)
+      : sortSlots([...frequency.slots, slot]);
+    onChange({ ...frequency, slots });
+  };
+
+  const slotIcons: Record<DoseSlot, React.ReactNode> = {
+    morning: <Sunrise className="w-4 h-4" />,
+    afternoon: <Sun className="w-4 h-4" />,
+    night: <Sunset className="w-4 h-4" />,
+  };
+
+  return (
+    <div className="mt-4 space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 mb-2">Frequency *</label>
+        <select
+          value={frequency.type}
+          onChange={(e) => handleTypeChange(e.target.value as FrequencyType)}
+          className="w-full px-4 py-2 border rounded-lg"
+        >
+          {(Object.keys(FREQUENCY_TYPE_LABELS) as FrequencyType[]).map(type => (
+            <option key={type} value={type}>{FREQUENCY_TYPE_LABELS[type]}</option>
+          ))}
+        </select>
+      </div>
+
+      {frequency.type === 'interval' && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="text-sm text-gray-700">
+            Every (hours)
+            <input
+              type="number" min="1" max="24"
+              value={frequency.every_hours}
+              onChange={(e) => onChange({ ...frequency, every_hours: parseInt(e.target.value) || 0 })}
+              className="w-full px-4 py-2 border rounded-lg mt-1"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            First dose at
+            <input
+              type="time"
+              value={frequency.first_dose}
+              onChange={(e) => onChange({ ...frequency, first_dose: e.target.value })}
+              className="w-full px-4 py-2 border rounded-lg mt-1"
+            />
+          </label>
+        </div>
+      )}
+
+      {frequency.type === 'every_n_days' && (
+        <label className="block text-sm text-gray-700">
+          Every (days)
+          <input
+            type="number" min="2"
+            value={frequency.every_days}
+            onChange={(e) => onChange({ ...frequency, every_days: parseInt(e.target.value) || 0 })}
+            className="w-full px-4 py-2 border rounded-lg mt-1"
+          />
+        </label>
+      )}
+
+      {frequency.type === 'weekly' && (
+        <div className="flex gap-1">
+          {WEEKDAY_LABELS.map((label, day) => (
+            <button
+              key={label}
+              type="button"
+              onClick={() => onChange({
+                ...frequency,
+                weekdays: frequency.weekdays.includes(day)
+                  ? frequency.weekdays.filter(d => d !== day)
+                  : [...frequency.weekdays, day].sort(),
+              })}
+              className={`flex-1 py-2 border-2 rounded-lg text-xs font-medium transition-colors ${
+                frequency.weekdays.includes(day)
+                  ? 'bg-blue-50 border-blue-500 text-blue-700'
+                  : 'bg-gray-50 border-gray-200 text-gray-600 hover:border-gray-300'
+              }`}
+            >
+              {label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {frequency.type === 'prn' && (
+        <div className="grid grid-cols-2 gap-4">
+          <label className="text-sm text-gray-700">
+            Max doses per day
+            <input
+              type="number" min="1"
+              value={frequency.max_per_day}
+              onChange={(e) => onChange({ ...frequency, max_per_day: parseInt(e.target.value) || 0 })}
+              className="w-full px-4 py-2 border rounded-lg mt-1"
+            />
+          </label>
+          <label className="text-sm text-gray-700">
+            Min hours between doses
+            <input
+              type="number" min="0"
+              value={frequency.min_hours_between ?? ''}
+              onChange={(e) => onChange({ ...frequency, min_hours_between: parseInt(e.target.value) || undefined })}
+              className="w-full px-4 py-2 border rounded-lg mt-1"
+            />
+          </label>
+        </div>
+      )}
+
+      {frequency.type === 'taper' && (
+        <div className="space-y-2">
+          <p className="text-xs text-gray-500">Each step replaces the dosage above for the given number of days.</p>
+          {frequency.steps.map((step, index) => (
+            <div key={index} className="flex gap-2 items-center">
+              <input
+                type="text"
+                value={step.dosage}
+                onChange={(e) => onChange({
+                  ...frequency,
+                  steps: frequency.steps.map((s, i) => i === index ? { ...s, dosage: e.target.value } : s),
+                })}
+                className="flex-1 px-4 py-2 border rounded-lg"
+                placeholder={`Step ${index + 1} dosage (e.g., 40mg)`}
+              />
+              <input
+                type="number" min="1"
+                value={step.days}
+                onChange={(e) => onChange({
+                  ...frequency,
+                  steps: frequency.steps.map((s, i) => i === index ? { ...s, days: parseInt(e.target.value) || 0 } : s),
+                })}
+                className="w-24 px-4 py-2 border rounded-lg"
+              />
+              <span className="text-sm text-gray-600">days</span>
+              <button
+                type="button"
+                onClick={() => onChange({ ...frequency, steps: frequency.steps.filter((_, i) => i !== index) })}
+                className="text-red-500 hover:text-red-700"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </div>
+          ))}
+          <button
+            type="button"
+            onClick={() => onChange({ ...frequency, steps: [...frequency.steps, { dosage: '', days: 7 }] })}
+            className="text-sm text-blue-700 hover:text-blue-900 flex items-center gap-1"
+          >
+            <Plus className="w-4 h-4" /> Add step
+          </button>
+        </div>
+      )}
+
+      {'slots' in frequency && (
+        <div>
+          <label className="block text-sm font-medium text-gray-700 mb-2">Time of Day *</label>
+          <div className="flex gap-2">
+            {DOSE_SLOTS.map(slot => (
+              <TimeOfDayButton
+                key={slot}
+                icon={slotIcons[slot]}
+                label={DOSE_SLOT_LABELS[slot]}
+                active={frequency.slots.includes(slot)}
+                onClick={() => toggleSlot(slot)}
+              />
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Medication name with suggestions from the drug catalog. Picking one fills in the catalog
+// spelling; typing over it turns the entry back into free text.
+function DrugNameInput({ name, catalogId, onType, onPick }: {
+  name: string;
+  catalogId?: string | null;
+  onType: (name: string) => void;
+  onPick: (entry: DrugCatalogEntry) => void;
+}) {
+  const [suggestions, setSuggestions] = useState<DrugCatalogEntry[]>([]);
+  const [open, setOpen] = useState(false);
+
+  // Search once typing pauses; stale answers are dropped
+  useEffect(() => {
+    if (catalogId || name.trim().length < MIN_CATALOG_QUERY_LENGTH) {
+      setSuggestions([]);
+      return;
+    }
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      try {
+        const results = await searchDrugCatalog(name);
+        if (!cancelled) setSuggestions(results);
+      } catch (error) {
+        console.error("Error searching drug catalog:", error instanceof Error ? error.message : error);
+      }
+    }, 250);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [name, catalogId]);
+
+  return (
+    <div className="relative">
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => {
+          onType(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setOpen(false)}
+        className="w-full px-4 py-2 border rounded-lg"
+        placeholder="Medication Name * (search the catalog)"
+        autoComplete="off"
+      />
+      {open && suggestions.length > 0 && (
+        <div className="absolute z-10 mt-1 w-full bg-white border border-gray-200 rounded-lg shadow-lg max-h-60 overflow-y-auto">
+          {suggestions.map(entry => (
+            <button
+              key={entry.id}
+              type="button"
+              // mousedown fires before the input's blur closes the list
+              onMouseDown={(e) => {
+                e.preventDefault();
+                onPick(entry);
+                setOpen(false);
+              }}
+              className="w-full text-left px-4 py-2 hover:bg-blue-50"
+            >
+              <p className="text-sm font-medium text-gray-900">{entry.generic_name} <span className="font-normal text-gray-600">{describeCatalogProduct(entry)}</span></p>
+              {entry.brand_names.length > 0 && <p className="text-xs text-gray-500">{entry.brand_names.join(', ')}</p>}
+            </button>
+          ))}
+        </div>
+      )}
+      {catalogId ? (
+        <p className="mt-1 flex items-center gap-1 text-xs text-green-700"><BookOpen className="w-3 h-3" /> From the drug catalog</p>
+      ) : name.trim() && (
+        <p className="mt-1 text-xs text-gray-500">Not picked from the catalog; will be saved as free text.</p>
+      )}
+    </div>
+  );
+}
+
 // Helper component for the time of day buttons
 function TimeOfDayButton({ icon, label, active, onClick }: any) {
   return (
@@ -0,0 +1,144 @@
+import { useEffect, useState } from 'react';
+import { X, History, Plus, Minus, ArrowRight } from 'lucide-react';
+import { supabase } from '../lib/supabaseClient';
+import { DiffEntry, PrescriptionSnapshot, diffPrescriptions } from '../lib/prescriptionDiff';
+import { describeFrequency, getFrequency } from '../lib/frequency';
+
+// --- (Types) ---
+type PrescriptionVersion = PrescriptionSnapshot & {
+  id: string;
+  prescription_id: string;
+  version: number;
+  created_by: string | null;
+  created_at: string;
+};
+
+interface PrescriptionHistoryModalProps {
+  prescriptionId: string;
+  title: string;
+  onClose: () => void;
+}
+// --- (End Types) ---
+
+export function PrescriptionHistoryModal({ prescriptionId, title, onClose }: PrescriptionHistoryModalProps) {
+  const [versions, setVersions] = useState<PrescriptionVersion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [expandedVersion, setExpandedVersion] = useState<number | null>(null);
+
+  useEffect(() => {
+    const loadVersions = async () => {
+      setLoading(true);
+      try {
+        const { data, error } = await supabase
+          .from('prescription_versions')
+          .select('*')
+          .eq('prescription_id', prescriptionId)
+          .order('version', { ascending: false }); // Newest first
+
+        if (error) throw error;
+        setVersions(data as PrescriptionVersion[] || []);
+      } catch (error) {
+        console.error("Error loading prescription history:", error instanceof Error ? error.message : error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    loadVersions();
+  }, [prescriptionId]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-3xl w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-gray-900 flex items-center gap-2">
+            <History className="w-5 h-5 text-blue-600" /> History: {title}
+          </h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <div className="p-6 space-y-4">
+          {loading && <p className="text-sm text-gray-500">Loading history...</p>}
+          {!loading && versions.length === 0 && (
+            <p className="text-sm text-gray-500">No saved versions for this prescription.</p>
+          )}
+
+          {versions.map((version, index) => {
+            const previous = versions[index + 1]; // List is newest first
+            const changes = previous ? diffPrescriptions(previous, version) : [];
+            const expanded = expandedVersion === version.version;
+
+            return (
+              <div key={version.id} className="border border-gray-200 rounded-lg p-4">
+                <div className="flex justify-between items-center">
+                  <div>
+                    <p className="font-semibold text-gray-900">
+                      Version {version.version}
+                      {index === 0 && <span className="ml-2 text-xs px-2 py-0.5 bg-green-100 text-green-700 rounded-full">Current</span>}
+                    </p>
+                    <p className="text-xs text-gray-500">{new Date(version.created_at).toLocaleString()}</p>
+                  </div>
+                  <button
+                    onClick={() => setExpandedVersion(expanded ? null : version.version)}
+                    className="text-sm text-blue-700 hover:text-blue-900"
+                  >
+                    {expanded ? 'Hide details' : 'View version'}
+                  </button>
+                </div>
+
+                {previous ? (
+                  <div className="mt-3 space-y-1">
+                    {changes.length === 0 && <p className="text-xs text-gray-500">No content changes.</p>}
+                    {changes.map((change, i) => <DiffRow key={i} change={change} />)}
+                  </div>
+                ) : (
+                  <p className="mt-3 text-xs text-gray-500">Original prescription.</p>
+                )}
+
+                {expanded && (
+                  <div className="mt-4 p-3 bg-gray-50 rounded-lg border text-sm space-y-1">
+                    <p><strong>Diagnosis:</strong> {version.diagnosis || '—'}</p>
+                    <p><strong>Dates:</strong> {new Date(version.start_date).toLocaleDateString()} – {new Date(version.end_date).toLocaleDateString()}</p>
+                    {version.medications.map(med => (
+                      <p key={med.id} className="text-gray-700">
+                        • {med.name} - {med.dosage}, {describeFrequency(getFrequency(med))}
+                        {med.instructions && <span className="text-gray-500"> ({med.instructions})</span>}
+                      </p>
+                    ))}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+// One line of the diff between two versions
+function DiffRow({ change }: { change: DiffEntry }) {
+  if (change.kind === 'added') {
+    return (
+      <p className="text-sm text-green-700 flex items-center gap-1">
+        <Plus className="w-3 h-3" /> Added {change.label}: {change.after}
+      </p>
+    );
+  }
+  if (change.kind === 'removed') {
+    return (
+      <p className="text-sm text-red-700 flex items-center gap-1">
+        <Minus className="w-3 h-3" /> Removed {change.label}: {change.before}
+      </p>
+    );
+  }
+  return (
+    <p className="text-sm text-gray-700 flex items-center gap-1 flex-wrap">
+      <span className="font-medium">{change.label}:</span>
+      <span className="line-through text-gray-400">{change.before}</span>
+      <ArrowRight className="w-3 h-3" />
+      <span>{change.after}</span>
+    </p>
+  );
+}
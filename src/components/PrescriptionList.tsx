@@ -1,12 +1,21 @@
-import { Calendar, FileText, Trash2, Sunrise, Sun, Sunset } from 'lucide-react';
+import { useState } from 'react';
+import { Calendar, FileText, Trash2, Sunrise, Sun, Sunset, Repeat, RefreshCw, Pencil, History, ShieldCheck, ShieldAlert } from 'lucide-react';
 import { supabase } from '../lib/supabaseClient'; // <-- NEW IMPORT
+import { Frequency, LegacyTiming, describeFrequency, frequencySlots, getFrequency } from '../lib/frequency';
+import { regenerateSchedule } from '../lib/api';
+import { PrescriptionHistoryModal } from './PrescriptionHistoryModal';
+import { useAuth } from '../contexts/AuthContext';
+import { Dose } from '../lib/dose';
+import { SafetyCheckRecord, SAFETY_CHECK_ERRORS, SAFETY_ENGINE_LABELS, isConcerningAssessment } from '../lib/safetyCheck';
 
 // --- (Types) ---
 type MedicationItem = {
   id: string;
   name: string;
   dosage: string;
-  timing: { morning: boolean; afternoon: boolean; night: boolean };
+  dose?: Dose;
+  frequency: Frequency;
+  timing?: LegacyTiming;
   instructions: string;
 };
 
@@ -19,6 +28,8 @@ type Prescription = {
   diagnosis?: string;
   status: 'active' | 'completed' | 'cancelled' | 'pending_ai_check';
   medications: MedicationItem[];
+  version?: number;
+  safety_check?: SafetyCheckRecord | null;
 };
 
 type Profile = {
@@ -31,10 +42,14 @@ interface PrescriptionListProps {
   prescriptions: Prescription[];
   patients: Profile[];
   onRefresh: () => void; // This is now the loadPrescriptions() function from Dashboard
+  onEdit: (prescription: Prescription) => void;
 }
 // --- (End Types) ---
 
-export function PrescriptionList({ prescriptions, patients, onRefresh }: PrescriptionListProps) {
+export function PrescriptionList({ prescriptions, patients, onRefresh, onEdit }: PrescriptionListProps) {
+  const { profile, session } = useAuth();
+  const [historyFor, setHistoryFor] = useState<Prescription | null>(null);
+
   const getPatientName = (patientId: string) => {
     const patient = patients.find(p => p.id === patientId);
     return patient?.full_name || 'Unknown Patient';
@@ -55,16 +70,17 @@ export function PrescriptionList({ prescriptions, patients, onRefresh }: Prescri
     }
   };
 
-  // --- MODIFIED: No longer writes to localStorage ---
+  // Soft delete: the record and its adherence history are kept (and audited)
   const handleDelete = async (id: string) => {
-    if (!confirm('Are you sure you want to delete this entire prescription set?')) return;
+    if (!confirm('Are you sure you want to delete this entire prescription set? Upcoming doses will be removed; past history is kept.')) return;
     try {
       const { error } = await supabase
         .from('prescriptions')
-        .delete()
+        .update({ deleted_at: new Date().toISOString(), deleted_by: profile?.id })
         .eq('id', id);
 
       if (error) throw error;
+      await regenerateSchedule(id, session?.access_token); // Drops the upcoming pending doses
       onRefresh(); // Refresh the list from the DB
     } catch (error: any) {
       alert("Error deleting prescription: " + error.message);
@@ -80,12 +96,23 @@ export function PrescriptionList({ prescriptions, patients, onRefresh }: Prescri
         .eq('id', id);
 
       if (error) throw error;
+      // Drops upcoming doses when no longer active, restores them when reactivated
+      await regenerateSchedule(id, session?.access_token);
       onRefresh(); // Refresh the list from the DB
     } catch (error: any) {
       alert("Error updating status: " + error.message);
     }
   };
 
+  const handleRegenerateSchedule = async (id: string) => {
+    try {
+      const { removed, inserted } = await regenerateSchedule(id, session?.access_token);
+      alert(`Schedule regenerated: ${inserted} upcoming doses added, ${removed} replaced.`);
+    } catch (error) {
+      alert("Error regenerating schedule: " + (error instanceof Error ? error.message : error));
+    }
+  };
+
   if (prescriptions.length === 0) {
     return (
       <div className="text-center py-12">
@@ -100,6 +127,13 @@ export function PrescriptionList({ prescriptions, patients, onRefresh }: Prescri
   // --- (The JSX is unchanged from the previous version) ---
   return (
     <div className="space-y-4">
+      {historyFor && (
+        <PrescriptionHistoryModal
+          prescriptionId={historyFor.id}
+          title={historyFor.diagnosis || 'Prescription Set'}
+          onClose={() => setHistoryFor(null)}
+        />
+      )}
       {prescriptions.map((prescription) => (
         <div
           key={prescription.id}
@@ -114,18 +148,37 @@ export function PrescriptionList({ prescriptions, patients, onRefresh }: Prescri
                 <span className={`px-2 py-1 rounded-full text-xs font-medium ${getStatusColor(prescription.status)}`}>
                   {prescription.status.replace('_', ' ')}
                 </span>
+                {(prescription.version ?? 1) > 1 && (
+                  <span className="text-xs text-gray-500">v{prescription.version}</span>
+                )}
               </div>
               <p className="text-sm text-gray-600 mb-1">
                 Patient: {getPatientName(prescription.patient_id)}
               </p>
             </div>
 
-            <button
-              onClick={() => handleDelete(prescription.id)}
-              className="text-red-500 hover:text-red-700 transition-colors"
-            >
-              <Trash2 className="w-5 h-5" />
-            </button>
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => onEdit(prescription)}
+                className="text-blue-500 hover:text-blue-700 transition-colors"
+                title="Edit prescription"
+              >
+                <Pencil className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => setHistoryFor(prescription)}
+                className="text-gray-500 hover:text-gray-700 transition-colors"
+                title="Version history"
+              >
+                <History className="w-5 h-5" />
+              </button>
+              <button
+                onClick={() => handleDelete(prescription.id)}
+                className="text-red-500 hover:text-red-700 transition-colors"
+              >
+                <Trash2 className="w-5 h-5" />
+              </button>
+            </div>
           </div>
 
           <div className="grid grid-cols-2 gap-4 mb-4">
@@ -155,32 +208,43 @@ export function PrescriptionList({ prescriptions, patients, onRefresh }: Prescri
               Medications ({prescription.medications.length})
             </p>
             <div className="space-y-3">
-              {prescription.medications.map((med) => (
+              {prescription.medications.map((med) => {
+                const frequency = getFrequency(med);
+                const slots = frequencySlots(frequency);
+                return (
                 <div key={med.id} className="p-3 bg-gray-50 rounded-lg border border-gray-200">
                   <p className="font-semibold text-sm text-gray-900">{med.name} - {med.dosage}</p>
                   <p className="text-sm text-gray-600 mt-1">{med.instructions}</p>
                   <div className="flex items-center gap-3 mt-2">
-                    {med.timing.morning && (
+                    {slots.includes('morning') && (
                       <div className="flex items-center gap-1 text-xs text-yellow-700">
                         <Sunrise className="w-3 h-3" /> Morning
                       </div>
                     )}
-                    {med.timing.afternoon && (
+                    {slots.includes('afternoon') && (
                        <div className="flex items-center gap-1 text-xs text-blue-700">
                         <Sun className="w-3 h-3" /> Afternoon
                       </div>
                     )}
-                    {med.timing.night && (
+                    {slots.includes('night') && (
                       <div className="flex items-center gap-1 text-xs text-indigo-700">
                         <Sunset className="w-3 h-3" /> Night
                       </div>
                     )}
+                    {frequency.type !== 'daily' && (
+                      <div className="flex items-center gap-1 text-xs text-teal-700">
+                        <Repeat className="w-3 h-3" /> {describeFrequency(frequency)}
+                      </div>
+                    )}
                   </div>
                 </div>
-              ))}
+                );
+              })}
             </div>
           </div>
 
+          <SafetyCheckSummary record={prescription.safety_check} />
+
           <div className="flex gap-2">
             {prescription.status !== 'active' && (
               <button
@@ -206,9 +270,70 @@ export function PrescriptionList({ prescriptions, patients, onRefresh }: Prescri
                 Cancel
               </button>
             )}
+            {prescription.status === 'active' && (
+              <button
+                onClick={() => handleRegenerateSchedule(prescription.id)}
+                className="ml-auto flex items-center gap-1 px-3 py-1 bg-blue-50 text-blue-700 rounded hover:bg-blue-100 text-sm"
+              >
+                <RefreshCw className="w-3 h-3" /> Regenerate Schedule
+              </button>
+            )}
           </div>
         </div>
       ))}
     </div>
   );
-}
\ No newline at end of file
+}
+
+// AI safety-check result saved with the prescription
+function SafetyCheckSummary({ record }: { record?: SafetyCheckRecord | null }) {
+  if (!record) {
+    return <p className="mb-4 text-xs text-gray-500">No AI safety check recorded.</p>;
+  }
+
+  if (record.status !== 'completed') {
+    return (
+      <div className="mb-4 p-3 rounded-lg border border-gray-200 bg-gray-50 text-xs text-gray-600">
+        <p className="font-medium">
+          AI safety check {record.status === 'error' ? 'failed' : 'not run'}
+          {record.error_code && ` (${SAFETY_CHECK_ERRORS[record.error_code].title})`}
+        </p>
+        {record.error && <p className="mt-1">{record.error}</p>}
+        {record.override && <p className="mt-1"><strong>Saved anyway:</strong> {record.override.reason}</p>}
+      </div>
+    );
+  }
+
+  const concerning = isConcerningAssessment(record.overall_assessment);
+  return (
+    <div className={`mb-4 p-3 rounded-lg border text-sm ${concerning ? 'border-yellow-300 bg-yellow-50' : 'border-green-200 bg-green-50'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <p className="font-medium flex items-center gap-1">
+          {concerning ? <ShieldAlert className="w-4 h-4 text-yellow-700" /> : <ShieldCheck className="w-4 h-4 text-green-700" />}
+          AI check: {record.overall_assessment}
+        </p>
+        <p className="text-xs text-gray-500">
+          {[record.model, record.rules_version && `rules v${record.rules_version}`].filter(Boolean).join(' + ')}
+          {record.checked_at && ` · ${new Date(record.checked_at).toLocaleString()}`}
+        </p>
+      </div>
+      {record.flags.map((flag, i) => (
+        <p key={i} className="mt-2 text-xs text-gray-700">
+          {flag.engine && (
+            <span className="mr-1 px-1.5 py-0.5 rounded bg-white border border-gray-200 text-gray-500">{SAFETY_ENGINE_LABELS[flag.engine]}</span>
+          )}
+          <strong>{flag.problematic_drug}:</strong> {flag.issue}. {flag.explanation}
+          {flag.suggested_alternative && <span className="text-gray-500"> (Alternative: {flag.suggested_alternative})</span>}
+        </p>
+      ))}
+      {record.llm_error && (
+        <p className="mt-2 text-xs text-gray-500">{SAFETY_CHECK_ERRORS[record.llm_error_code || 'LLM_UNAVAILABLE'].message}</p>
+      )}
+      {record.override && (
+        <p className="mt-2 text-xs text-gray-700">
+          <strong>Override reason:</strong> {record.override.reason}
+        </p>
+      )}
+    </div>
+  );
+}
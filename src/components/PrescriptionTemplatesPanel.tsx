@@ -0,0 +1,226 @@
+// Template picker shown at the top of the prescription form: insert a saved regimen, star,
+// share or delete templates, and save the current draft as a new template.
+
+import { useEffect, useState } from 'react';
+import { BookMarked, Star, Share2, Trash2, Save, ChevronDown, ChevronUp } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { describeFrequency } from '../lib/frequency';
+import {
+  PrescriptionTemplate,
+  TemplateMedication,
+  createTemplate,
+  deleteTemplate,
+  loadTemplates,
+  setTemplateFavorite,
+  setTemplateShared,
+  sortTemplates,
+} from '../lib/prescriptionTemplates';
+
+interface PrescriptionTemplatesPanelProps {
+  // The form's current contents, for "Save as template"
+  draft: { diagnosis: string; duration_days: number; medications: TemplateMedication[] };
+  onUse: (template: PrescriptionTemplate) => void;
+}
+
+export function PrescriptionTemplatesPanel({ draft, onUse }: PrescriptionTemplatesPanelProps) {
+  const { profile } = useAuth();
+  const [templates, setTemplates] = useState<PrescriptionTemplate[]>([]);
+  const [expanded, setExpanded] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [shareNew, setShareNew] = useState(false);
+
+  const doctorId = profile?.id;
+
+  useEffect(() => {
+    if (!doctorId) return;
+    const fetchTemplates = async () => {
+      setLoading(true);
+      try {
+        setTemplates(await loadTemplates(doctorId));
+      } catch (error) {
+        console.error("Error loading templates:", error instanceof Error ? error.message : error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchTemplates();
+  }, [doctorId]);
+
+  const refresh = async () => {
+    if (doctorId) setTemplates(await loadTemplates(doctorId));
+  };
+
+  const handleSave = async () => {
+    if (!doctorId) return;
+    if (!newName.trim()) {
+      alert("Please enter a name for the template.");
+      return;
+    }
+    if (draft.medications.length === 0) {
+      alert("Please add at least one medication before saving a template.");
+      return;
+    }
+    setSaving(true);
+    try {
+      await createTemplate(doctorId, { name: newName, shared: shareNew, ...draft });
+      setNewName('');
+      setShareNew(false);
+      await refresh();
+    } catch (error) {
+      console.error("Error saving template:", error instanceof Error ? error.message : error);
+      alert("Error saving template: " + (error instanceof Error ? error.message : error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleFavorite = async (template: PrescriptionTemplate) => {
+    if (!doctorId) return;
+    try {
+      await setTemplateFavorite(doctorId, template.id, !template.is_favorite);
+      setTemplates(sortTemplates(
+        templates.map(t => (t.id === template.id ? { ...t, is_favorite: !t.is_favorite } : t)),
+        doctorId
+      ));
+    } catch (error) {
+      console.error("Error updating favorite:", error instanceof Error ? error.message : error);
+      alert("Could not update favorites.");
+    }
+  };
+
+  const handleShare = async (template: PrescriptionTemplate) => {
+    try {
+      await setTemplateShared(template.id, !template.shared);
+      setTemplates(templates.map(t => (t.id === template.id ? { ...t, shared: !t.shared } : t)));
+    } catch (error) {
+      console.error("Error sharing template:", error instanceof Error ? error.message : error);
+      alert("Could not change sharing for this template.");
+    }
+  };
+
+  const handleDelete = async (template: PrescriptionTemplate) => {
+    if (!confirm(`Delete the template "${template.name}"?`)) return;
+    try {
+      await deleteTemplate(template.id);
+      setTemplates(templates.filter(t => t.id !== template.id));
+    } catch (error) {
+      console.error("Error deleting template:", error instanceof Error ? error.message : error);
+      alert("Error deleting template: " + (error instanceof Error ? error.message : error));
+    }
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg mb-6">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between px-4 py-3 text-left"
+      >
+        <span className="flex items-center gap-2 font-medium text-gray-800">
+          <BookMarked className="w-4 h-4 text-blue-600" /> Templates ({templates.length})
+        </span>
+        {expanded ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {expanded && (
+        <div className="px-4 pb-4 space-y-3">
+          {loading ? (
+            <p className="text-sm text-gray-500">Loading templates...</p>
+          ) : templates.length === 0 ? (
+            <p className="text-sm text-gray-500">No templates yet. Save the medications below as one to reuse them.</p>
+          ) : (
+            <div className="space-y-2 max-h-64 overflow-y-auto">
+              {templates.map(template => {
+                const isOwn = template.doctor_id === doctorId;
+                return (
+                  <div key={template.id} className="flex items-start justify-between gap-3 p-3 bg-gray-50 rounded-lg border">
+                    <div className="flex-1">
+                      <p className="font-semibold text-sm text-gray-900 flex items-center gap-2">
+                        {template.name}
+                        {template.shared && (
+                          <span className="text-xs font-normal px-2 py-0.5 bg-teal-100 text-teal-800 rounded-full">
+                            {isOwn ? 'Shared' : `Shared by ${template.author_name ? `Dr. ${template.author_name}` : 'a colleague'}`}
+                          </span>
+                        )}
+                      </p>
+                      <p className="text-xs text-gray-600">
+                        {template.diagnosis ? `${template.diagnosis} · ` : ''}{template.duration_days} days
+                      </p>
+                      <ul className="text-xs text-gray-600 mt-1 list-disc list-inside">
+                        {template.medications.map((med, index) => (
+                          <li key={index}>{med.name} - {med.dosage} ({describeFrequency(med.frequency)})</li>
+                        ))}
+                      </ul>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <button
+                        type="button"
+                        onClick={() => handleFavorite(template)}
+                        title={template.is_favorite ? "Remove from favorites" : "Add to favorites"}
+                        className={template.is_favorite ? "text-yellow-500" : "text-gray-400 hover:text-yellow-500"}
+                      >
+                        <Star className="w-4 h-4" fill={template.is_favorite ? "currentColor" : "none"} />
+                      </button>
+                      {isOwn && (
+                        <>
+                          <button
+                            type="button"
+                            onClick={() => handleShare(template)}
+                            title={template.shared ? "Stop sharing with the practice" : "Share with the practice"}
+                            className={template.shared ? "text-teal-600" : "text-gray-400 hover:text-teal-600"}
+                          >
+                            <Share2 className="w-4 h-4" />
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => handleDelete(template)}
+                            title="Delete template"
+                            className="text-red-400 hover:text-red-600"
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </button>
+                        </>
+                      )}
+                      <button
+                        type="button"
+                        onClick={() => onUse(template)}
+                        className="px-3 py-1 bg-blue-600 text-white text-xs rounded-lg hover:bg-blue-700"
+                      >
+                        Use
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {/* Save the current draft */}
+          <div className="flex items-center gap-2 flex-wrap pt-2 border-t">
+            <input
+              type="text"
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              className="flex-1 min-w-[12rem] px-3 py-1.5 border rounded-lg text-sm"
+              placeholder="Template name (e.g., Amoxicillin 7-day course)"
+            />
+            <label className="flex items-center gap-1 text-sm text-gray-700">
+              <input type="checkbox" checked={shareNew} onChange={(e) => setShareNew(e.target.checked)} />
+              Share with practice
+            </label>
+            <button
+              type="button"
+              onClick={handleSave}
+              disabled={saving || draft.medications.length === 0}
+              className="flex items-center gap-1 px-3 py-1.5 bg-blue-100 text-blue-700 rounded-lg hover:bg-blue-200 text-sm disabled:opacity-50"
+            >
+              <Save className="w-4 h-4" /> {saving ? "Saving..." : "Save as Template"}
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+// The patient's own symptom and side-effect reports, newest first, with whether their doctor
+// has seen each one.
+
+import { useEffect, useState } from 'react';
+import { Activity, AlertTriangle, CheckCircle, PlusCircle } from 'lucide-react';
+import { SymptomReport, isHighSeverity, loadSymptomReports } from '../lib/symptomReports';
+
+interface SymptomJournalProps {
+  patientId: string;
+  reloadKey?: unknown; // Reloads the reports whenever this changes (e.g. after a new report)
+  onReport: () => void;
+}
+
+export function SymptomJournal({ patientId, reloadKey, onReport }: SymptomJournalProps) {
+  const [reports, setReports] = useState<SymptomReport[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    const fetchReports = async () => {
+      setLoading(true);
+      try {
+        setReports(await loadSymptomReports(patientId));
+      } catch (error) {
+        console.error("Error loading symptom reports:", error instanceof Error ? error.message : error);
+      } finally {
+        setLoading(false);
+      }
+    };
+    fetchReports();
+  }, [patientId, reloadKey]);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-gray-800 flex items-center gap-2">
+          <Activity className="w-5 h-5 text-rose-600" /> Symptom Journal
+        </h2>
+        <button
+          onClick={onReport}
+          className="flex items-center gap-1 px-3 py-1.5 bg-rose-600 text-white text-sm rounded-lg hover:bg-rose-700"
+        >
+          <PlusCircle className="w-4 h-4" /> Report Symptom
+        </button>
+      </div>
+
+      {loading ? (
+        <p className="text-sm text-gray-500">Loading your reports...</p>
+      ) : reports.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          No symptoms reported. If you notice a side effect or a new symptom, report it here and your doctor will be notified.
+        </p>
+      ) : (
+        <ul className="space-y-2 max-h-80 overflow-y-auto">
+          {reports.map(report => (
+            <li
+              key={report.id}
+              className={`p-3 border rounded-lg text-sm ${isHighSeverity(report) ? 'border-red-300 bg-red-50' : 'border-gray-200'}`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-semibold text-gray-900 flex items-center gap-1">
+                  {isHighSeverity(report) && <AlertTriangle className="w-4 h-4 text-red-600" />}
+                  {report.symptom}
+                  <span className="font-normal text-gray-500 capitalize"> · {report.severity}</span>
+                </span>
+                <span className="text-xs text-gray-500">
+                  {new Date(report.onset_at).toLocaleString(undefined, { month: 'short', day: 'numeric', year: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                </span>
+              </div>
+              {report.medication_name && <p className="text-xs text-gray-600">Suspected medication: {report.medication_name}</p>}
+              {report.description && <p className="text-gray-700 mt-1">{report.description}</p>}
+              <p className="text-xs mt-1">
+                {report.reviewed_at ? (
+                  <span className="text-green-700 flex items-center gap-1">
+                    <CheckCircle className="w-3 h-3" /> Seen by your doctor on {new Date(report.reviewed_at).toLocaleDateString()}
+                  </span>
+                ) : (
+                  <span className="text-gray-500">Waiting for your doctor to review</span>
+                )}
+              </p>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,174 @@
+import { useState } from 'react';
+import { X, Save, AlertTriangle } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { toDateTimeLocal } from '../lib/doseRecords';
+import {
+  SYMPTOM_SEVERITIES,
+  SYMPTOM_SEVERITY_LABELS,
+  SymptomSeverity,
+  createSymptomReport,
+  validateSymptomReport,
+} from '../lib/symptomReports';
+
+// A prescribed medication the symptom can be linked to
+export type ReportableMedication = {
+  prescription_id: string;
+  medication_id: string;
+  name: string;
+};
+
+interface SymptomReportModalProps {
+  medications: ReportableMedication[];
+  initialMedication?: { prescription_id: string; medication_id: string } | null;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+const medicationKey = (med: { prescription_id: string; medication_id: string }) => `${med.prescription_id}:${med.medication_id}`;
+
+// New symptom journal entry; the prescribing doctor is notified once it is saved
+export function SymptomReportModal({ medications, initialMedication, onClose, onSaved }: SymptomReportModalProps) {
+  const { profile } = useAuth();
+  const [saving, setSaving] = useState(false);
+  const [symptom, setSymptom] = useState('');
+  const [severity, setSeverity] = useState<SymptomSeverity>('mild');
+  const [onsetAt, setOnsetAt] = useState(() => toDateTimeLocal(new Date()));
+  const [medication, setMedication] = useState(initialMedication ? medicationKey(initialMedication) : '');
+  const [description, setDescription] = useState('');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!profile) return;
+
+    const linked = medications.find(med => medicationKey(med) === medication);
+    const onset = new Date(onsetAt);
+    const draft = {
+      symptom,
+      severity,
+      onset_at: isNaN(onset.getTime()) ? '' : onset.toISOString(),
+      description,
+      prescription_id: linked?.prescription_id ?? null,
+      medication_id: linked?.medication_id ?? null,
+    };
+    const validationError = validateSymptomReport(draft, new Date());
+    if (validationError) {
+      alert(validationError);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createSymptomReport(profile.id, draft);
+      alert(severity === 'severe'
+        ? "Your report was sent to your doctor. If your symptoms are severe or getting worse, contact your doctor or emergency services now."
+        : "Your report was saved and sent to your doctor.");
+      onSaved();
+      onClose();
+    } catch (error) {
+      console.error("Error saving symptom report:", error instanceof Error ? error.message : error);
+      alert("Error saving your report: " + (error instanceof Error ? error.message : error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center p-4 z-50">
+      <div className="bg-white rounded-xl shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        <div className="sticky top-0 bg-white border-b border-gray-200 px-6 py-4 flex justify-between items-center">
+          <h2 className="text-xl font-bold text-gray-900">Report a Side Effect or Symptom</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-gray-600">
+            <X className="w-6 h-6" />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Symptom *</label>
+            <input
+              type="text"
+              value={symptom}
+              onChange={(e) => setSymptom(e.target.value)}
+              maxLength={200}
+              className="w-full px-3 py-2 border rounded-lg"
+              placeholder="e.g., Nausea, rash, dizziness"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Severity *</label>
+            <div className="space-y-1">
+              {SYMPTOM_SEVERITIES.map(value => (
+                <label key={value} className="flex items-center gap-2 text-sm text-gray-700">
+                  <input type="radio" name="severity" checked={severity === value} onChange={() => setSeverity(value)} />
+                  {SYMPTOM_SEVERITY_LABELS[value]}
+                </label>
+              ))}
+            </div>
+            {severity === 'severe' && (
+              <p className="mt-2 text-xs text-red-700 flex items-start gap-1">
+                <AlertTriangle className="w-4 h-4 flex-shrink-0" />
+                For trouble breathing, swelling of the face or throat, or chest pain, call emergency services instead of waiting for a reply.
+              </p>
+            )}
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Started at *</label>
+            <input
+              type="datetime-local"
+              value={onsetAt}
+              max={toDateTimeLocal(new Date())}
+              onChange={(e) => setOnsetAt(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg"
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Suspected medication</label>
+            <select
+              value={medication}
+              onChange={(e) => setMedication(e.target.value)}
+              className="w-full px-3 py-2 border rounded-lg"
+            >
+              <option value="">Not sure / not related to a medication</option>
+              {medications.map(med => (
+                <option key={medicationKey(med)} value={medicationKey(med)}>{med.name}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-1">Details</label>
+            <textarea
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={3}
+              maxLength={2000}
+              className="w-full px-3 py-2 border rounded-lg"
+              placeholder="What happened, how long it lasted, anything that made it better or worse"
+            />
+          </div>
+
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="flex-1 px-4 py-2 border rounded-lg"
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              disabled={saving}
+              className="flex-1 px-4 py-2 bg-blue-600 text-white rounded-lg flex items-center justify-center gap-2"
+            >
+              <Save className="w-4 h-4" />
+              {saving ? "Saving..." : "Send Report"}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,104 @@
+// Notification area on the doctor's dashboard: symptom reports from their patients that they
+// have not reviewed yet, severe ones first and highlighted.
+
+import { useEffect, useState } from 'react';
+import { AlertTriangle, Bell, Check } from 'lucide-react';
+import { useAuth } from '../contexts/AuthContext';
+import { SymptomReport, isHighSeverity, loadUnreviewedReports, markReportReviewed } from '../lib/symptomReports';
+
+// --- (Types) ---
+type Profile = {
+  id: string;
+  full_name: string;
+};
+// --- (End Types) ---
+
+// How often new reports are looked for while the dashboard is open
+const REFRESH_INTERVAL_MS = 60 * 1000;
+
+interface SymptomReportsPanelProps {
+  patients: Profile[];
+}
+
+export function SymptomReportsPanel({ patients }: SymptomReportsPanelProps) {
+  const { profile } = useAuth();
+  const [reports, setReports] = useState<SymptomReport[]>([]);
+  const [reviewingId, setReviewingId] = useState<string | null>(null);
+
+  const doctorId = profile?.id;
+
+  useEffect(() => {
+    if (!doctorId) return;
+    const fetchReports = async () => {
+      try {
+        setReports(await loadUnreviewedReports(doctorId));
+      } catch (error) {
+        console.error("Error loading symptom reports:", error instanceof Error ? error.message : error);
+      }
+    };
+    fetchReports();
+    const intervalId = setInterval(fetchReports, REFRESH_INTERVAL_MS);
+    return () => clearInterval(intervalId);
+  }, [doctorId]);
+
+  const handleReviewed = async (report: SymptomReport) => {
+    if (!doctorId) return;
+    setReviewingId(report.id);
+    try {
+      await markReportReviewed(report.id, doctorId);
+      setReports(current => current.filter(r => r.id !== report.id));
+    } catch (error) {
+      console.error("Error marking report reviewed:", error instanceof Error ? error.message : error);
+      alert("Could not mark the report as reviewed.");
+    } finally {
+      setReviewingId(null);
+    }
+  };
+
+  if (reports.length === 0) return null;
+
+  const severeCount = reports.filter(isHighSeverity).length;
+  const patientName = (id: string) => patients.find(p => p.id === id)?.full_name || 'Unknown patient';
+
+  return (
+    <div className={`rounded-xl shadow-sm border p-4 mb-8 ${severeCount > 0 ? 'bg-red-50 border-red-200' : 'bg-white border-gray-100'}`}>
+      <h2 className="font-semibold text-gray-900 flex items-center gap-2 mb-3">
+        <Bell className="w-5 h-5 text-blue-600" />
+        New symptom reports ({reports.length})
+        {severeCount > 0 && (
+          <span className="text-xs font-medium px-2 py-0.5 bg-red-600 text-white rounded-full">{severeCount} severe</span>
+        )}
+      </h2>
+      <ul className="space-y-2 max-h-72 overflow-y-auto">
+        {reports.map(report => (
+          <li
+            key={report.id}
+            className={`flex items-start justify-between gap-3 p-3 rounded-lg border text-sm ${
+              isHighSeverity(report) ? 'border-red-300 bg-white' : 'border-gray-200 bg-gray-50'
+            }`}
+          >
+            <div>
+              <p className="font-semibold text-gray-900 flex items-center gap-1">
+                {isHighSeverity(report) && <AlertTriangle className="w-4 h-4 text-red-600" />}
+                {patientName(report.patient_id)}: {report.symptom}
+                <span className={`font-normal capitalize ${isHighSeverity(report) ? 'text-red-700' : 'text-gray-500'}`}> · {report.severity}</span>
+              </p>
+              <p className="text-xs text-gray-600">
+                Started {new Date(report.onset_at).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })}
+                {report.medication_name ? ` · Suspected: ${report.medication_name}` : ' · No medication linked'}
+              </p>
+              {report.description && <p className="text-gray-700 mt-1">{report.description}</p>}
+            </div>
+            <button
+              onClick={() => handleReviewed(report)}
+              disabled={reviewingId === report.id}
+              className="flex items-center gap-1 px-3 py-1 text-xs bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:opacity-50 flex-shrink-0"
+            >
+              <Check className="w-3 h-3" /> Reviewed
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
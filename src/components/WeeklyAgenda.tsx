@@ -0,0 +1,82 @@
+// The patient's upcoming scheduled doses for the next seven days, across all active
+// prescriptions, grouped by day.
+
+import { CalendarDays } from 'lucide-react';
+import { localDayKey } from '../lib/adherence';
+import { Dose, doseText } from '../lib/dose';
+
+// --- (Types) ---
+type MedicationLog = {
+  id: string; prescription_id: string; medication_name: string; dosage: string; dose?: Dose | null;
+  scheduled_time: string; status: 'pending' | 'taken' | 'missed' | 'skipped'; is_prn?: boolean;
+};
+type Prescription = { id: string; status: string };
+// --- (End Types) ---
+
+export const AGENDA_DAYS = 7;
+
+interface WeeklyAgendaProps {
+  logs: MedicationLog[];
+  prescriptions: Prescription[];
+  onSelectDate: (date: string) => void;
+}
+
+export function WeeklyAgenda({ logs, prescriptions, onSelectDate }: WeeklyAgendaProps) {
+  const now = new Date();
+  const end = new Date(now.getFullYear(), now.getMonth(), now.getDate() + AGENDA_DAYS);
+  const activeIds = new Set(prescriptions.filter(p => p.status === 'active').map(p => p.id));
+
+  const upcoming = logs
+    .filter(log => {
+      const time = new Date(log.scheduled_time).getTime();
+      return !log.is_prn && log.status === 'pending' && activeIds.has(log.prescription_id)
+        && time >= now.getTime() && time < end.getTime();
+    })
+    .sort((a, b) => new Date(a.scheduled_time).getTime() - new Date(b.scheduled_time).getTime());
+
+  const days = Array.from({ length: AGENDA_DAYS }, (_, index) => new Date(now.getFullYear(), now.getMonth(), now.getDate() + index));
+  const todayKey = localDayKey(now);
+
+  return (
+    <div className="space-y-3">
+      <h3 className="font-semibold text-gray-800 flex items-center gap-2">
+        <CalendarDays className="w-5 h-5 text-teal-600" /> Coming Up This Week
+      </h3>
+      {upcoming.length === 0 ? (
+        <p className="text-sm text-gray-500">No upcoming doses in the next {AGENDA_DAYS} days.</p>
+      ) : (
+        <div className="space-y-3">
+          {days.map(day => {
+            const key = localDayKey(day);
+            const dayLogs = upcoming.filter(log => localDayKey(log.scheduled_time) === key);
+            if (dayLogs.length === 0) return null;
+            return (
+              <div key={key}>
+                <button
+                  type="button"
+                  onClick={() => onSelectDate(key)}
+                  className="text-sm font-medium text-teal-800 hover:underline"
+                >
+                  {key === todayKey ? 'Today' : day.toLocaleDateString(undefined, { weekday: 'long', month: 'short', day: 'numeric' })}
+                  <span className="text-gray-500 font-normal"> · {dayLogs.length} {dayLogs.length === 1 ? 'dose' : 'doses'}</span>
+                </button>
+                <ul className="mt-1 space-y-1">
+                  {dayLogs.map(log => (
+                    <li key={log.id} className="flex items-center gap-3 text-sm text-gray-700">
+                      <span className="w-20 text-gray-500">
+                        {new Date(log.scheduled_time).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true })}
+                      </span>
+                      <span>
+                        <strong className="text-gray-800">{log.medication_name}</strong> - {doseText(log)}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
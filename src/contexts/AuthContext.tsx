@@ -1,6 +1,7 @@
 import { createContext, useContext, useState, useEffect } from "react";
 import { supabase } from "../lib/supabaseClient";
 import { Session, User } from "@supabase/supabase-js";
+import { DoseTimes } from "../lib/doseTimes";
 
 // --- (Helper function for timeout) ---
 const timeout = (ms: number, message: string) => {
@@ -18,8 +19,9 @@ interface Profile {
   role: "patient" | "doctor";
   specialization?: string;
   date_of_birth?: string;
-  ongoing_medications?: string;
-  medical_history?: { complication: string; description: string }[];
+  weight_kg?: number | null;
+  dose_times?: Partial<DoseTimes> | null;
+  timezone?: string | null;
 }
 
 // --- MODIFIED: Added refreshProfile ---
@@ -0,0 +1,184 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  AdherenceLog,
+  DEFAULT_MISSED_DOSE_GRACE_MINUTES,
+  ON_TIME_WINDOW_MINUTES,
+  adherenceTrend,
+  countAdherence,
+  currentStreak,
+  dueLogs,
+  isLate,
+} from './adherence';
+
+// The pure functions never touch the database; the client only needs to exist
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const MINUTE_MS = 60 * 1000;
+
+// Dates are built in local time, like the day/week/month keys the module computes
+const at = (month: number, day: number, hour = 8, minute = 0) => new Date(2026, month, day, hour, minute);
+
+let nextId = 0;
+const log = (scheduled: Date, overrides: Partial<AdherenceLog> = {}): AdherenceLog => ({
+  id: `log-${++nextId}`,
+  prescription_id: 'rx-1',
+  patient_id: 'patient-1',
+  medication_id: 'med-1',
+  medication_name: 'Metformin',
+  scheduled_time: scheduled.toISOString(),
+  status: 'taken',
+  taken_at: scheduled.toISOString(),
+  ...overrides,
+});
+
+describe('dueLogs', () => {
+  const now = at(9, 10, 12);
+
+  it('ignores PRN doses, even when they are in the past', () => {
+    const prn = log(at(9, 9), { is_prn: true });
+    expect(dueLogs([prn], now)).toEqual([]);
+  });
+
+  it('ignores doses scheduled after now', () => {
+    const future = log(at(9, 10, 18), { status: 'pending', taken_at: null });
+    const past = log(at(9, 9));
+    expect(dueLogs([future, past], now)).toEqual([past]);
+  });
+
+  it('only counts a pending dose once the grace period has passed', () => {
+    const withinGrace = log(new Date(now.getTime() - (DEFAULT_MISSED_DOSE_GRACE_MINUTES - 1) * MINUTE_MS), { status: 'pending', taken_at: null });
+    const pastGrace = log(new Date(now.getTime() - DEFAULT_MISSED_DOSE_GRACE_MINUTES * MINUTE_MS), { status: 'pending', taken_at: null });
+    expect(dueLogs([withinGrace, pastGrace], now)).toEqual([pastGrace]);
+    expect(dueLogs([withinGrace, pastGrace], now, 0)).toEqual([withinGrace, pastGrace]);
+  });
+
+  it('counts recorded doses as soon as they were scheduled', () => {
+    const taken = log(now);
+    expect(dueLogs([taken], now)).toEqual([taken]);
+  });
+});
+
+describe('isLate', () => {
+  const scheduled = at(9, 10, 8);
+  const takenAfter = (ms: number) => log(scheduled, { taken_at: new Date(scheduled.getTime() + ms).toISOString() });
+
+  it('is on time when taken exactly at the end of the on-time window', () => {
+    expect(isLate(takenAfter(ON_TIME_WINDOW_MINUTES * MINUTE_MS))).toBe(false);
+  });
+
+  it('is late once the on-time window has passed', () => {
+    expect(isLate(takenAfter(ON_TIME_WINDOW_MINUTES * MINUTE_MS + 1))).toBe(true);
+  });
+
+  it('is never late for doses that were not taken or have no taken_at', () => {
+    expect(isLate(log(scheduled, { status: 'missed', taken_at: null }))).toBe(false);
+    expect(isLate(log(scheduled, { taken_at: null }))).toBe(false);
+  });
+});
+
+describe('countAdherence', () => {
+  const now = at(9, 10, 12);
+
+  it('returns null rates, not NaN, when every dose was skipped', () => {
+    const result = countAdherence([
+      log(at(9, 9), { status: 'skipped', taken_at: null }),
+      log(at(9, 10), { status: 'skipped', taken_at: null }),
+    ], now);
+    expect(result).toEqual({ taken: 0, on_time: 0, late: 0, missed: 0, skipped: 2, rate: null, on_time_rate: null });
+  });
+
+  it('counts pending doses past the grace period as missed and leaves out PRN doses', () => {
+    const result = countAdherence([
+      log(at(9, 9)),
+      log(at(9, 9, 20), { taken_at: at(9, 9, 22).toISOString() }),
+      log(at(9, 10, 8), { status: 'pending', taken_at: null }),
+      log(at(9, 10, 11), { status: 'pending', taken_at: null }),
+      log(at(9, 9, 14), { is_prn: true, status: 'pending', taken_at: null }),
+    ], now);
+    expect(result).toEqual({ taken: 2, on_time: 1, late: 1, missed: 1, skipped: 0, rate: 2 / 3, on_time_rate: 0.5 });
+  });
+});
+
+describe('currentStreak', () => {
+  it('passes over today while its doses can still be taken', () => {
+    const now = at(9, 10, 9);
+    const logs = [
+      log(at(9, 8)),
+      log(at(9, 9)),
+      log(at(9, 10, 8), { status: 'pending', taken_at: null }),
+    ];
+    expect(currentStreak(logs, now)).toBe(2);
+  });
+
+  it('passes over today when a dose was missed today but keeps earlier days', () => {
+    const now = at(9, 10, 20);
+    const logs = [
+      log(at(9, 8)),
+      log(at(9, 9)),
+      log(at(9, 10, 8)),
+      log(at(9, 10, 12), { status: 'missed', taken_at: null }),
+    ];
+    expect(currentStreak(logs, now)).toBe(2);
+  });
+
+  it('counts today once all of its due doses are taken', () => {
+    const now = at(9, 10, 20);
+    expect(currentStreak([log(at(9, 9)), log(at(9, 10))], now)).toBe(2);
+  });
+
+  it('stops at the last day with a missed dose and passes over days with nothing due', () => {
+    const now = at(9, 10, 20);
+    const logs = [
+      log(at(9, 6)),
+      log(at(9, 7), { status: 'missed', taken_at: null }),
+      log(at(9, 8)),
+      log(at(9, 10)),
+    ];
+    expect(currentStreak(logs, now)).toBe(2);
+  });
+});
+
+describe('adherenceTrend', () => {
+  const now = at(11, 31, 23);
+
+  it('includes periods with no doses, with null rates', () => {
+    const points = adherenceTrend([log(at(9, 5)), log(at(9, 7), { status: 'missed', taken_at: null })], {
+      from: at(9, 5, 0),
+      to: at(9, 7, 23),
+      period: 'day',
+      now,
+    });
+    expect(points.map(point => point.start)).toEqual([at(9, 5, 0), at(9, 6, 0), at(9, 7, 0)]);
+    expect(points.map(point => point.counts.rate)).toEqual([1, null, 0]);
+    expect(points[1].counts.taken + points[1].counts.missed).toBe(0);
+  });
+
+  it('starts weeks on Monday', () => {
+    // 2026-10-11 is a Sunday, 2026-10-12 a Monday
+    const points = adherenceTrend([
+      log(at(9, 11, 23, 30)),
+      log(at(9, 12, 0, 30), { status: 'missed', taken_at: null }),
+    ], { from: at(9, 11, 0), to: at(9, 12, 23), period: 'week', now });
+    expect(points.map(point => point.start)).toEqual([at(9, 5, 0), at(9, 12, 0)]);
+    expect(points.map(point => [point.counts.taken, point.counts.missed])).toEqual([[1, 0], [0, 1]]);
+  });
+
+  it('splits doses at month boundaries', () => {
+    const points = adherenceTrend([
+      log(at(0, 31, 23, 30)),
+      log(at(1, 1, 0, 30), { status: 'missed', taken_at: null }),
+    ], { from: at(0, 15, 0), to: at(1, 10, 0), period: 'month', now });
+    expect(points.map(point => point.start)).toEqual([at(0, 1, 0), at(1, 1, 0)]);
+    expect(points.map(point => [point.counts.taken, point.counts.missed])).toEqual([[1, 0], [0, 1]]);
+  });
+
+  it('leaves out doses before `from` in the first period and after `to` in the last', () => {
+    const points = adherenceTrend([
+      log(at(0, 10)),
+      log(at(0, 20)),
+      log(at(1, 20), { status: 'missed', taken_at: null }),
+    ], { from: at(0, 15, 0), to: at(1, 10, 0), period: 'month', now });
+    expect(points.map(point => point.counts.taken + point.counts.missed)).toEqual([1, 0]);
+    expect(points[1].counts.rate).toBeNull();
+  });
+});
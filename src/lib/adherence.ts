@@ -0,0 +1,271 @@
+// Adherence figures computed from medication_logs, shared by the patient and doctor dashboards:
+// rates over any date range, daily/weekly/monthly trends, on-time vs. late doses, per-medication
+// breakdowns and streaks.
+// As-needed (PRN) logs are ignored, skipped doses do not count against the patient, and a
+// pending dose counts as not taken once the practice's missed-dose grace period has passed
+// (the same rule as the server's sweep). Every rate is null, never NaN, when nothing counted
+// was due.
+
+import { supabase } from './supabaseClient';
+import { SkipReason } from './doseRecords';
+import { DEFAULT_PRACTICE_SETTINGS } from './safetyCheck';
+
+export type AdherenceLog = {
+  id: string;
+  prescription_id: string;
+  patient_id: string;
+  medication_id: string;
+  medication_name: string;
+  scheduled_time: string;
+  status: 'pending' | 'taken' | 'missed' | 'skipped';
+  taken_at?: string | null;
+  skip_reason?: SkipReason | null;
+  notes?: string | null;
+  is_prn?: boolean;
+};
+
+export type AdherenceCounts = {
+  taken: number;
+  on_time: number; // Taken no later than ON_TIME_WINDOW_MINUTES after the scheduled time
+  late: number;
+  missed: number; // Includes pending doses past the grace period
+  skipped: number;
+  rate: number | null; // taken / (taken + missed); null when nothing was due
+  on_time_rate: number | null; // on_time / taken; null when nothing was taken
+};
+
+export type AdherencePeriod = 'day' | 'week' | 'month';
+
+export const ADHERENCE_PERIOD_LABELS: Record<AdherencePeriod, string> = {
+  day: 'Daily',
+  week: 'Weekly',
+  month: 'Monthly',
+};
+
+// Rates below this are highlighted as poor adherence
+export const ADHERENCE_TARGET_RATE = 0.8;
+
+// A dose taken within this long after its scheduled time is on time
+export const ON_TIME_WINDOW_MINUTES = 60;
+
+// Used until the practice's own setting (practice_settings.missed_dose_grace_minutes) is loaded
+export const DEFAULT_MISSED_DOSE_GRACE_MINUTES = DEFAULT_PRACTICE_SETTINGS.missed_dose_grace_minutes;
+
+// Longest range loadAdherenceLogs accepts
+export const MAX_RANGE_DAYS = 366;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const PAGE_SIZE = 1000; // PostgREST's default row limit
+
+// Doses that were due by `now` (PRN doses are never due). A dose still pending is only due once
+// the grace period after its scheduled time has passed; until then the patient can still take it.
+export function dueLogs<T extends AdherenceLog>(logs: T[], now: Date, graceMinutes = DEFAULT_MISSED_DOSE_GRACE_MINUTES): T[] {
+  return logs.filter(log => {
+    if (log.is_prn) return false;
+    const grace = log.status === 'pending' ? graceMinutes * 60 * 1000 : 0;
+    return new Date(log.scheduled_time).getTime() + grace <= now.getTime();
+  });
+}
+
+const isMissed = (log: AdherenceLog) => log.status === 'missed' || log.status === 'pending';
+
+// Late when taken more than the on-time window after the scheduled time. A taken dose without
+// taken_at (not expected, but possible in old data) counts as on time.
+export function isLate(log: AdherenceLog): boolean {
+  if (log.status !== 'taken' || !log.taken_at) return false;
+  return new Date(log.taken_at).getTime() - new Date(log.scheduled_time).getTime() > ON_TIME_WINDOW_MINUTES * 60 * 1000;
+}
+
+export function countAdherence(logs: AdherenceLog[], now: Date, graceMinutes = DEFAULT_MISSED_DOSE_GRACE_MINUTES): AdherenceCounts {
+  const due = dueLogs(logs, now, graceMinutes);
+  const taken = due.filter(log => log.status === 'taken');
+  const late = taken.filter(isLate).length;
+  const missed = due.filter(isMissed).length;
+  const skipped = due.filter(log => log.status === 'skipped').length;
+  return {
+    taken: taken.length,
+    on_time: taken.length - late,
+    late,
+    missed,
+    skipped,
+    rate: taken.length + missed > 0 ? taken.length / (taken.length + missed) : null,
+    on_time_rate: taken.length > 0 ? (taken.length - late) / taken.length : null,
+  };
+}
+
+// Local "YYYY-MM-DD" of a timestamp
+export const localDayKey = (time: string | Date) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Local date of the first day of the period containing `date` (weeks start on Monday)
+export function periodStart(date: Date, period: AdherencePeriod): Date {
+  const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  if (period === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+  if (period === 'month') start.setDate(1);
+  return start;
+}
+
+const nextPeriod = (start: Date, period: AdherencePeriod) => {
+  const next = new Date(start);
+  if (period === 'day') next.setDate(next.getDate() + 1);
+  if (period === 'week') next.setDate(next.getDate() + 7);
+  if (period === 'month') next.setMonth(next.getMonth() + 1);
+  return next;
+};
+
+export function periodLabel(start: Date, period: AdherencePeriod): string {
+  if (period === 'month') return start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+  const day = start.toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+  return period === 'week' ? `Week of ${day}` : day;
+}
+
+export type AdherenceTrendPoint = {
+  start: Date;
+  label: string;
+  counts: AdherenceCounts;
+};
+
+// One point per day, week or month overlapping [from, to], including periods with no doses
+export function adherenceTrend(
+  logs: AdherenceLog[],
+  { from, to, period, now, graceMinutes = DEFAULT_MISSED_DOSE_GRACE_MINUTES }:
+    { from: Date; to: Date; period: AdherencePeriod; now: Date; graceMinutes?: number }
+): AdherenceTrendPoint[] {
+  const points: AdherenceTrendPoint[] = [];
+  for (let start = periodStart(from, period); start.getTime() <= to.getTime(); start = nextPeriod(start, period)) {
+    const end = nextPeriod(start, period);
+    const inPeriod = logs.filter(log => {
+      const time = new Date(log.scheduled_time).getTime();
+      return time >= Math.max(start.getTime(), from.getTime()) && time < end.getTime() && time <= to.getTime();
+    });
+    points.push({ start, label: periodLabel(start, period), counts: countAdherence(inPeriod, now, graceMinutes) });
+  }
+  return points;
+}
+
+export type MedicationAdherence = {
+  prescription_id: string;
+  medication_id: string;
+  medication_name: string;
+  counts: AdherenceCounts;
+};
+
+// Per medication (of each prescription), lowest adherence first
+export function adherenceByMedication(logs: AdherenceLog[], now: Date, graceMinutes = DEFAULT_MISSED_DOSE_GRACE_MINUTES): MedicationAdherence[] {
+  const groups = new Map<string, AdherenceLog[]>();
+  for (const log of logs) {
+    if (log.is_prn) continue;
+    const key = `${log.prescription_id}:${log.medication_id}`;
+    groups.set(key, [...(groups.get(key) || []), log]);
+  }
+  return [...groups.values()]
+    .map(group => ({
+      prescription_id: group[0].prescription_id,
+      medication_id: group[0].medication_id,
+      medication_name: group[0].medication_name,
+      counts: countAdherence(group, now, graceMinutes),
+    }))
+    .sort((a, b) => (a.counts.rate ?? 2) - (b.counts.rate ?? 2) || a.medication_name.localeCompare(b.medication_name));
+}
+
+// Consecutive days, counting back from today, on which every due dose was taken. Days with
+// nothing due are passed over; today only counts once all of its due doses are taken.
+export function currentStreak(logs: AdherenceLog[], now: Date, graceMinutes = DEFAULT_MISSED_DOSE_GRACE_MINUTES): number {
+  const byDay = new Map<string, AdherenceLog[]>();
+  for (const log of dueLogs(logs, now, graceMinutes)) {
+    const key = localDayKey(log.scheduled_time);
+    byDay.set(key, [...(byDay.get(key) || []), log]);
+  }
+
+  const days = [...byDay.keys()].sort().reverse();
+  let streak = 0;
+  for (const day of days) {
+    const { taken, missed } = countAdherence(byDay.get(day) || [], now, graceMinutes);
+    if (missed > 0) {
+      if (day === localDayKey(now) && streak === 0) continue; // Today is still in progress
+      break;
+    }
+    if (taken > 0) streak++;
+  }
+  return streak;
+}
+
+export type PatientAdherenceSummary = {
+  patient_id: string;
+  overall: AdherenceCounts; // Whole loaded window
+  recent: AdherenceCounts; // Last 7 days
+  streak: number;
+  by_prescription: { prescription_id: string; counts: AdherenceCounts }[];
+};
+
+export function summarizePatient(
+  patientId: string,
+  logs: AdherenceLog[],
+  now: Date,
+  graceMinutes = DEFAULT_MISSED_DOSE_GRACE_MINUTES
+): PatientAdherenceSummary {
+  const weekAgo = now.getTime() - 7 * DAY_MS;
+  const recent = countAdherence(logs.filter(log => new Date(log.scheduled_time).getTime() > weekAgo), now, graceMinutes);
+  const prescriptionIds = [...new Set(logs.map(log => log.prescription_id))];
+
+  return {
+    patient_id: patientId,
+    overall: countAdherence(logs, now, graceMinutes),
+    recent,
+    streak: currentStreak(logs, now, graceMinutes),
+    by_prescription: prescriptionIds.map(id => ({
+      prescription_id: id,
+      counts: countAdherence(logs.filter(log => log.prescription_id === id), now, graceMinutes),
+    })),
+  };
+}
+
+// Logs of the given patients scheduled in [from, to], oldest first, fetched page by page so no
+// dose is cut off by PostgREST's row limit. Logs of deleted prescriptions are not returned (see
+// the medication_logs SELECT policies).
+export async function loadMedicationLogs<T>(patientIds: string[], from: Date, to: Date, columns = '*'): Promise<T[]> {
+  if (patientIds.length === 0) return [];
+
+  const logs: T[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await supabase
+      .from('medication_logs')
+      .select(columns)
+      .in('patient_id', patientIds)
+      .gte('scheduled_time', from.toISOString())
+      .lte('scheduled_time', to.toISOString())
+      .order('scheduled_time')
+      .order('id')
+      .range(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw error;
+    logs.push(...((data || []) as T[]));
+    if (!data || data.length < PAGE_SIZE) return logs;
+  }
+}
+
+// The columns adherence needs, for ranges of up to MAX_RANGE_DAYS
+export async function loadAdherenceLogs(patientIds: string[], from: Date, to: Date): Promise<AdherenceLog[]> {
+  if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+    throw new Error(`Please choose a range of at most ${MAX_RANGE_DAYS} days.`);
+  }
+  return loadMedicationLogs<AdherenceLog>(
+    patientIds,
+    from,
+    to,
+    'id, prescription_id, patient_id, medication_id, medication_name, scheduled_time, status, taken_at, skip_reason, notes, is_prn'
+  );
+}
+
+// The practice's missed-dose grace period (practice_settings is readable by every signed-in user)
+export async function loadMissedDoseGraceMinutes(): Promise<number> {
+  const { data, error } = await supabase
+    .from('practice_settings')
+    .select('missed_dose_grace_minutes')
+    .maybeSingle();
+  if (error) throw error;
+  return data?.missed_dose_grace_minutes ?? DEFAULT_MISSED_DOSE_GRACE_MINUTES;
+}
+
+export const formatRate = (rate: number | null) => (rate === null ? '—' : `${Math.round(rate * 100)}%`);
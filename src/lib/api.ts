@@ -0,0 +1,108 @@
+import {
+  SafetyCheckError,
+  SafetyCheckOutput,
+  SafetyCheckPayload,
+  SafetyFlag,
+  isSafetyCheckErrorCode,
+  parseSafetyCheckOutput,
+} from './safetyCheck';
+
+// Base URL of the Node AI/schedule backend (server.cjs)
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://127.0.0.1:8000';
+
+type ScheduleResult = { prescription_id: string; removed: number; inserted: number };
+
+// Backend calls are authenticated with the signed-in user's Supabase access token
+const authHeaders = (accessToken?: string): Record<string, string> =>
+  accessToken ? { Authorization: `Bearer ${accessToken}` } : {};
+
+// Ask the backend to (re)generate a prescription's medication logs in the patient's stored time
+// zone (it fails if the patient has none yet). Safe to call repeatedly: only upcoming pending
+// doses are replaced.
+export async function regenerateSchedule(prescriptionId: string, accessToken?: string): Promise<ScheduleResult> {
+  const response = await fetch(`${API_BASE_URL}/prescriptions/${prescriptionId}/schedule`, {
+    method: 'POST',
+    headers: authHeaders(accessToken),
+  });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({ detail: "Unknown API error" }));
+    const message = `Schedule Error ${response.status}: ${errorData.detail || response.statusText}`;
+    // Known codes (e.g. PATIENT_TIMEZONE_MISSING) keep their code so callers can tell them apart
+    if (isSafetyCheckErrorCode(errorData.code)) throw new SafetyCheckError(errorData.code, message);
+    throw new Error(message);
+  }
+  return response.json();
+}
+
+type SafetyCheckStreamEvent =
+  | { type: 'flag'; flag: SafetyFlag }
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; code?: string; detail?: string };
+
+// Run the rule-engine + LLM safety check on the streaming endpoint. `onFlag` is called with
+// each flag as soon as the server has it; the resolved value is the final, validated result.
+// Failures are thrown as SafetyCheckError with a code from safetyCheckSchema.json so the UI
+// can explain each one. Aborting `signal` cancels the check, including the upstream LLM call.
+// `bypassCache` forces a fresh analysis instead of the server's cached result.
+export async function streamSafetyCheck(
+  payload: SafetyCheckPayload,
+  options: { accessToken?: string; bypassCache?: boolean; signal?: AbortSignal; onFlag?: (flag: SafetyFlag) => void } = {}
+): Promise<SafetyCheckOutput> {
+  let response: Response;
+  try {
+    response = await fetch(`${API_BASE_URL}/run-safety-check/stream`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...authHeaders(options.accessToken),
+        ...(options.bypassCache && { 'Cache-Control': 'no-cache' }),
+      },
+      body: JSON.stringify(payload),
+      signal: options.signal,
+    });
+  } catch (error) {
+    if (options.signal?.aborted) throw error;
+    throw new SafetyCheckError('NETWORK_ERROR', error instanceof Error ? error.message : undefined);
+  }
+
+  if (!response.ok || !response.body) {
+    const errorData = await response.json().catch(() => ({ detail: "Unknown API error" }));
+    throw new SafetyCheckError(
+      isSafetyCheckErrorCode(errorData.code) ? errorData.code : 'INTERNAL_ERROR',
+      `API Error ${response.status}: ${errorData.detail || response.statusText}`
+    );
+  }
+
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let pending = '';
+  for (;;) {
+    let chunk: ReadableStreamReadResult<Uint8Array>;
+    try {
+      chunk = await reader.read();
+    } catch (error) {
+      if (options.signal?.aborted) throw error;
+      throw new SafetyCheckError('NETWORK_ERROR', error instanceof Error ? error.message : undefined);
+    }
+    pending += decoder.decode(chunk.value, { stream: !chunk.done });
+
+    const lines = pending.split('\n');
+    pending = chunk.done ? '' : lines.pop() ?? '';
+    for (const line of lines) {
+      if (!line.trim()) continue;
+      let event: SafetyCheckStreamEvent;
+      try {
+        event = JSON.parse(line);
+      } catch {
+        throw new SafetyCheckError('INVALID_RESPONSE', 'Malformed stream event');
+      }
+      if (event.type === 'flag') options.onFlag?.(event.flag);
+      if (event.type === 'result') return parseSafetyCheckOutput(event.result);
+      if (event.type === 'error') {
+        throw new SafetyCheckError(isSafetyCheckErrorCode(event.code) ? event.code : 'INTERNAL_ERROR', event.detail);
+      }
+    }
+    if (chunk.done) throw new SafetyCheckError('INVALID_RESPONSE', 'The stream ended without a result');
+  }
+}
@@ -19,6 +19,10 @@ export interface Database {
           date_of_birth: string | null
           license_number: string | null
           specialization: string | null
+          dose_times: Json
+          timezone: string | null
+          weight_kg: number | null
+          weight_updated_at: string | null
           created_at: string
           updated_at: string
         }
@@ -31,6 +35,10 @@ export interface Database {
           date_of_birth?: string | null
           license_number?: string | null
           specialization?: string | null
+          dose_times?: Json
+          timezone?: string | null
+          weight_kg?: number | null
+          weight_updated_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -43,6 +51,10 @@ export interface Database {
           date_of_birth?: string | null
           license_number?: string | null
           specialization?: string | null
+          dose_times?: Json
+          timezone?: string | null
+          weight_kg?: number | null
+          weight_updated_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -59,6 +71,11 @@ export interface Database {
           instructions: string
           diagnosis: string | null
           status: 'active' | 'completed' | 'cancelled'
+          medications: Json
+          version: number
+          deleted_at: string | null
+          deleted_by: string | null
+          safety_check: Json | null
           start_date: string
           end_date: string
           created_at: string
@@ -75,6 +92,11 @@ export interface Database {
           instructions: string
           diagnosis?: string | null
           status?: 'active' | 'completed' | 'cancelled'
+          medications?: Json
+          version?: number
+          deleted_at?: string | null
+          deleted_by?: string | null
+          safety_check?: Json | null
           start_date: string
           end_date: string
           created_at?: string
@@ -91,6 +113,11 @@ export interface Database {
           instructions?: string
           diagnosis?: string | null
           status?: 'active' | 'completed' | 'cancelled'
+          medications?: Json
+          version?: number
+          deleted_at?: string | null
+          deleted_by?: string | null
+          safety_check?: Json | null
           start_date?: string
           end_date?: string
           created_at?: string
@@ -106,6 +133,14 @@ export interface Database {
           taken_at: string | null
           status: 'pending' | 'taken' | 'missed' | 'skipped'
           notes: string | null
+          dose_slot: 'morning' | 'afternoon' | 'night' | null
+          is_prn: boolean
+          medication_id: string | null
+          medication_name: string | null
+          dosage: string | null
+          dose: Json | null
+          auto_missed_at: string | null
+          skip_reason: 'side_effect' | 'out_of_stock' | 'doctor_advised' | 'other' | null
           created_at: string
         }
         Insert: {
@@ -116,6 +151,14 @@ export interface Database {
           taken_at?: string | null
           status?: 'pending' | 'taken' | 'missed' | 'skipped'
           notes?: string | null
+          dose_slot?: 'morning' | 'afternoon' | 'night' | null
+          is_prn?: boolean
+          medication_id?: string | null
+          medication_name?: string | null
+          dosage?: string | null
+          dose?: Json | null
+          auto_missed_at?: string | null
+          skip_reason?: 'side_effect' | 'out_of_stock' | 'doctor_advised' | 'other' | null
           created_at?: string
         }
         Update: {
@@ -126,6 +169,289 @@ export interface Database {
           taken_at?: string | null
           status?: 'pending' | 'taken' | 'missed' | 'skipped'
           notes?: string | null
+          dose_slot?: 'morning' | 'afternoon' | 'night' | null
+          is_prn?: boolean
+          medication_id?: string | null
+          medication_name?: string | null
+          dosage?: string | null
+          dose?: Json | null
+          auto_missed_at?: string | null
+          skip_reason?: 'side_effect' | 'out_of_stock' | 'doctor_advised' | 'other' | null
+          created_at?: string
+        }
+      }
+      prescription_versions: {
+        Row: {
+          id: string
+          prescription_id: string
+          version: number
+          diagnosis: string | null
+          start_date: string
+          end_date: string
+          medications: Json
+          safety_check: Json | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          prescription_id: string
+          version: number
+          diagnosis?: string | null
+          start_date: string
+          end_date: string
+          medications: Json
+          safety_check?: Json | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          prescription_id?: string
+          version?: number
+          diagnosis?: string | null
+          start_date?: string
+          end_date?: string
+          medications?: Json
+          safety_check?: Json | null
+          created_by?: string | null
+          created_at?: string
+        }
+      }
+      audit_log: {
+        Row: {
+          id: string
+          entity_type: 'prescription' | 'medication_log'
+          entity_id: string
+          action: 'created' | 'edited' | 'status_changed' | 'deleted' | 'schedule_regenerated'
+          actor_id: string | null
+          actor_type: 'user' | 'system'
+          prescription_id: string | null
+          doctor_id: string | null
+          patient_id: string | null
+          details: Json
+          created_at: string
+        }
+        Insert: never
+        Update: never
+      }
+      practice_settings: {
+        Row: {
+          id: boolean
+          require_safety_check: boolean
+          missed_dose_grace_minutes: number
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          id?: boolean
+          require_safety_check?: boolean
+          missed_dose_grace_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          id?: boolean
+          require_safety_check?: boolean
+          missed_dose_grace_minutes?: number
+          updated_at?: string
+          updated_by?: string | null
+        }
+      }
+      patient_allergies: {
+        Row: {
+          id: string
+          patient_id: string
+          substance: string
+          reaction: string
+          severity: 'mild' | 'moderate' | 'severe' | 'unknown'
+          verified_by: string | null
+          verified_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          substance: string
+          reaction?: string
+          severity?: 'mild' | 'moderate' | 'severe' | 'unknown'
+          verified_by?: string | null
+          verified_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          substance?: string
+          reaction?: string
+          severity?: 'mild' | 'moderate' | 'severe' | 'unknown'
+          verified_by?: string | null
+          verified_at?: string | null
+          created_at?: string
+        }
+      }
+      patient_conditions: {
+        Row: {
+          id: string
+          patient_id: string
+          name: string
+          onset_date: string | null
+          notes: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          name: string
+          onset_date?: string | null
+          notes?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          name?: string
+          onset_date?: string | null
+          notes?: string
+          created_at?: string
+        }
+      }
+      patient_reported_medications: {
+        Row: {
+          id: string
+          patient_id: string
+          name: string
+          dosage: string
+          frequency: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          name: string
+          dosage?: string
+          frequency?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          name?: string
+          dosage?: string
+          frequency?: string
+          created_at?: string
+        }
+      }
+      prescription_templates: {
+        Row: {
+          id: string
+          doctor_id: string
+          name: string
+          diagnosis: string | null
+          duration_days: number
+          medications: Json
+          shared: boolean
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          id?: string
+          doctor_id: string
+          name: string
+          diagnosis?: string | null
+          duration_days?: number
+          medications?: Json
+          shared?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          id?: string
+          doctor_id?: string
+          name?: string
+          diagnosis?: string | null
+          duration_days?: number
+          medications?: Json
+          shared?: boolean
+          created_at?: string
+          updated_at?: string
+        }
+      }
+      prescription_template_favorites: {
+        Row: {
+          doctor_id: string
+          template_id: string
+          created_at: string
+        }
+        Insert: {
+          doctor_id: string
+          template_id: string
+          created_at?: string
+        }
+        Update: {
+          doctor_id?: string
+          template_id?: string
+          created_at?: string
+        }
+      }
+      drug_catalog: {
+        Row: {
+          id: string
+          generic_name: string
+          brand_names: string[]
+          strength: string
+          form: string
+          route: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          generic_name: string
+          brand_names?: string[]
+          strength: string
+          form: string
+          route: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          generic_name?: string
+          brand_names?: string[]
+          strength?: string
+          form?: string
+          route?: string
+          created_at?: string
+        }
+      }
+      drug_dose_limits: {
+        Row: {
+          id: string
+          generic_name: string
+          population: 'adult' | 'pediatric' | 'geriatric'
+          max_daily: number | null
+          max_daily_per_kg: number | null
+          unit: 'mg' | 'mcg' | 'g' | 'IU'
+          note: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          generic_name: string
+          population: 'adult' | 'pediatric' | 'geriatric'
+          max_daily?: number | null
+          max_daily_per_kg?: number | null
+          unit: 'mg' | 'mcg' | 'g' | 'IU'
+          note?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          generic_name?: string
+          population?: 'adult' | 'pediatric' | 'geriatric'
+          max_daily?: number | null
+          max_daily_per_kg?: number | null
+          unit?: 'mg' | 'mcg' | 'g' | 'IU'
+          note?: string | null
           created_at?: string
         }
       }
@@ -152,6 +478,53 @@ export interface Database {
           created_at?: string
         }
       }
+      symptom_reports: {
+        Row: {
+          id: string
+          patient_id: string
+          prescription_id: string | null
+          medication_id: string | null
+          medication_name: string | null
+          doctor_id: string | null
+          symptom: string
+          severity: 'mild' | 'moderate' | 'severe'
+          onset_at: string
+          description: string
+          reviewed_by: string | null
+          reviewed_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          patient_id: string
+          prescription_id?: string | null
+          medication_id?: string | null
+          medication_name?: string | null
+          doctor_id?: string | null
+          symptom: string
+          severity: 'mild' | 'moderate' | 'severe'
+          onset_at: string
+          description?: string
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          patient_id?: string
+          prescription_id?: string | null
+          medication_id?: string | null
+          medication_name?: string | null
+          doctor_id?: string | null
+          symptom?: string
+          severity?: 'mild' | 'moderate' | 'severe'
+          onset_at?: string
+          description?: string
+          reviewed_by?: string | null
+          reviewed_at?: string | null
+          created_at?: string
+        }
+      }
     }
   }
 }
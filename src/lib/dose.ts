@@ -0,0 +1,157 @@
+// Structured dose of a prescribed medication: how many units to take each time, of which
+// form and by which route, plus the strength per unit when known.
+// `dosage` stays on each medication as the text summary (describeDose), so older screens,
+// the AI safety payload and medication_logs.dosage keep working.
+
+export type StrengthUnit = 'mg' | 'mcg' | 'g' | 'IU';
+
+// What is counted per dose. Strength units can be counted directly ("500 mg").
+export type DoseUnit = StrengthUnit | 'tablet' | 'capsule' | 'mL' | 'drop' | 'puff' | 'sachet' | 'patch' | 'application' | 'unit';
+
+export type DoseForm =
+  | 'tablet' | 'capsule' | 'oral liquid' | 'injection' | 'inhaler' | 'drops'
+  | 'cream/gel' | 'patch' | 'suppository' | 'powder' | 'other';
+
+export type DoseRoute =
+  | 'oral' | 'sublingual' | 'topical' | 'transdermal' | 'inhalation' | 'nasal' | 'ophthalmic'
+  | 'otic' | 'subcutaneous' | 'intramuscular' | 'intravenous' | 'rectal' | 'vaginal';
+
+export type Dose = {
+  quantity: number; // e.g. 2 (tablets) or 5 (mL)
+  unit: DoseUnit;
+  form: DoseForm;
+  route: DoseRoute;
+  // Active ingredient in `per` units, e.g. 500 mg per 1 tablet or 250 mg per 5 mL
+  strength?: { amount: number; unit: StrengthUnit; per: number } | null;
+};
+
+export const STRENGTH_UNITS: StrengthUnit[] = ['mg', 'mcg', 'g', 'IU'];
+
+export const DOSE_UNITS: DoseUnit[] = [
+  'tablet', 'capsule', 'mL', 'drop', 'puff', 'sachet', 'patch', 'application', 'unit', 'mg', 'mcg', 'g', 'IU',
+];
+
+export const DOSE_FORMS: DoseForm[] = [
+  'tablet', 'capsule', 'oral liquid', 'injection', 'inhaler', 'drops', 'cream/gel', 'patch', 'suppository', 'powder', 'other',
+];
+
+export const DOSE_ROUTES: DoseRoute[] = [
+  'oral', 'sublingual', 'topical', 'transdermal', 'inhalation', 'nasal', 'ophthalmic', 'otic',
+  'subcutaneous', 'intramuscular', 'intravenous', 'rectal', 'vaginal',
+];
+
+// Patient-facing wording: "<verb> 2 tablets <where>"
+const ROUTE_DIRECTIONS: Record<DoseRoute, { verb: string; where: string }> = {
+  oral: { verb: 'Take', where: 'by mouth' },
+  sublingual: { verb: 'Place', where: 'under the tongue' },
+  topical: { verb: 'Apply', where: 'to the skin' },
+  transdermal: { verb: 'Apply', where: 'to the skin' },
+  inhalation: { verb: 'Inhale', where: '' },
+  nasal: { verb: 'Spray', where: 'into the nose' },
+  ophthalmic: { verb: 'Put', where: 'in the eye' },
+  otic: { verb: 'Put', where: 'in the ear' },
+  subcutaneous: { verb: 'Inject', where: 'under the skin' },
+  intramuscular: { verb: 'Inject', where: 'into the muscle' },
+  intravenous: { verb: 'Give', where: 'intravenously' },
+  rectal: { verb: 'Insert', where: 'rectally' },
+  vaginal: { verb: 'Insert', where: 'vaginally' },
+};
+
+// Units that only make sense whole (half tablets are allowed)
+const WHOLE_UNITS: DoseUnit[] = ['capsule', 'drop', 'puff', 'sachet', 'patch', 'application'];
+
+export const DEFAULT_DOSE: Dose = { quantity: 1, unit: 'tablet', form: 'tablet', route: 'oral', strength: null };
+
+const isStrengthUnit = (unit: string): unit is StrengthUnit => (STRENGTH_UNITS as string[]).includes(unit);
+
+const formatNumber = (value: number) => String(Math.round(value * 1000) / 1000);
+
+// "2 tablets", "5 mL", "1 puff"
+export function formatQuantity(dose: Pick<Dose, 'quantity' | 'unit'>): string {
+  const countable = !isStrengthUnit(dose.unit) && dose.unit !== 'mL';
+  const plural = countable && dose.quantity !== 1 ? 's' : '';
+  return `${formatNumber(dose.quantity)} ${dose.unit}${plural}`;
+}
+
+// Total active ingredient per dose, e.g. 2 x 500 mg tablets -> 1000 mg; null when unknown
+export function doseIngredientAmount(dose: Dose): { amount: number; unit: StrengthUnit } | null {
+  if (isStrengthUnit(dose.unit)) return { amount: dose.quantity, unit: dose.unit };
+  if (!dose.strength || !(dose.strength.per > 0)) return null;
+  return { amount: (dose.quantity * dose.strength.amount) / dose.strength.per, unit: dose.strength.unit };
+}
+
+// Text summary stored as `dosage`, e.g. "2 tablets (1000 mg), oral"
+export function describeDose(dose: Dose): string {
+  const ingredient = isStrengthUnit(dose.unit) ? null : doseIngredientAmount(dose);
+  const amount = ingredient ? ` (${formatNumber(ingredient.amount)} ${ingredient.unit})` : '';
+  return `${formatQuantity(dose)}${amount}, ${dose.route}`;
+}
+
+// What the patient is told, e.g. "Take 2 tablets (1000 mg) by mouth"
+export function doseInstruction(dose: Dose): string {
+  const { verb, where } = ROUTE_DIRECTIONS[dose.route] || ROUTE_DIRECTIONS.oral;
+  const ingredient = isStrengthUnit(dose.unit) ? null : doseIngredientAmount(dose);
+  const amount = ingredient ? ` (${formatNumber(ingredient.amount)} ${ingredient.unit})` : '';
+  return `${verb} ${formatQuantity(dose)}${amount}${where ? ` ${where}` : ''}`;
+}
+
+// Returns an error message, or null if the dose is complete
+export function validateDose(dose: Dose): string | null {
+  if (!(dose.quantity > 0)) return 'Please enter how much to take per dose.';
+  if (dose.quantity > 1000) return 'The amount per dose looks too large; please check it.';
+  if (WHOLE_UNITS.includes(dose.unit) && !Number.isInteger(dose.quantity)) {
+    return `Please enter a whole number of ${dose.unit}s.`;
+  }
+  if (dose.unit === 'tablet' && !Number.isInteger(dose.quantity * 2)) {
+    return 'Tablets can only be split in half (e.g., 0.5 or 1.5).';
+  }
+  if (dose.strength && !(dose.strength.amount > 0 && dose.strength.per > 0)) {
+    return 'Please complete the strength (e.g., 500 mg per 1 tablet) or clear it.';
+  }
+  return null;
+}
+
+// "500 mg" -> 500 mg per 1, "250 mg/5 mL" -> 250 mg per 5. Combinations ("875 mg/125 mg")
+// and percentages have no single strength and return null.
+export function parseStrength(text: string): Dose['strength'] {
+  const match = text.trim().match(/^(\d+(?:\.\d+)?)\s*(mg|mcg|g|iu)(?:\s*\/\s*(\d+(?:\.\d+)?)?\s*(ml|dose))?$/i);
+  if (!match) return null;
+  const unit = STRENGTH_UNITS.find(u => u.toLowerCase() === match[2].toLowerCase())!;
+  return { amount: Number(match[1]), unit, per: match[3] ? Number(match[3]) : 1 };
+}
+
+// Starting dose for a product picked from the drug catalog: one unit of its form
+export function doseFromCatalog(entry: { strength: string; form: string; route: string }): Dose {
+  const form = entry.form.toLowerCase();
+  const route = (DOSE_ROUTES as string[]).includes(entry.route) ? entry.route as DoseRoute : 'oral';
+  const strength = parseStrength(entry.strength);
+
+  if (form.includes('capsule')) return { quantity: 1, unit: 'capsule', form: 'capsule', route, strength };
+  if (form.includes('tablet')) return { quantity: 1, unit: 'tablet', form: 'tablet', route, strength };
+  if (form.includes('suspension') || form.includes('solution') || form.includes('syrup')) {
+    return { quantity: strength?.per || 5, unit: 'mL', form: 'oral liquid', route, strength };
+  }
+  if (form.includes('inhaler')) return { quantity: 1, unit: 'puff', form: 'inhaler', route, strength };
+  if (form.includes('injection')) return { quantity: 1, unit: /units/i.test(entry.strength) ? 'unit' : 'mL', form: 'injection', route, strength: null };
+  if (form.includes('gel') || form.includes('cream') || form.includes('ointment')) {
+    return { quantity: 1, unit: 'application', form: 'cream/gel', route, strength: null };
+  }
+  return { ...DEFAULT_DOSE, form: 'other', route, strength };
+}
+
+// Medications saved before structured doses only carry the `dosage` text. Amount-only text
+// such as "500mg" is understood; anything else returns null.
+export function getDose(med: { dose?: Dose | null; dosage?: string | null }): Dose | null {
+  if (med.dose) return med.dose;
+  const match = (med.dosage || '').trim().match(/^(\d+(?:\.\d+)?)\s*(mg|mcg|g|iu|ml)$/i);
+  if (!match) return null;
+  const unit = match[2].toLowerCase() === 'ml'
+    ? 'mL'
+    : STRENGTH_UNITS.find(u => u.toLowerCase() === match[2].toLowerCase())!;
+  return { quantity: Number(match[1]), unit, form: 'other', route: 'oral', strength: null };
+}
+
+// Patient-facing text for a medication or scheduled dose; older records fall back to `dosage`
+export function doseText(item: { dose?: Dose | null; dosage: string }): string {
+  return item.dose ? doseInstruction(item.dose) : item.dosage;
+}
@@ -0,0 +1,121 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Dose } from './dose';
+import { DoseLimit, DoseLimitMedication, checkDoseLimits, findDoseLimit, genericNameFor } from './doseLimits';
+
+// The checks never touch the database; the client only needs to exist
+vi.mock('./supabaseClient', () => ({ supabase: {} }));
+
+const LIMITS: DoseLimit[] = [
+  { generic_name: 'Paracetamol', population: 'adult', max_daily: 4000, max_daily_per_kg: null, unit: 'mg', note: null },
+  { generic_name: 'Paracetamol', population: 'pediatric', max_daily: 4000, max_daily_per_kg: 75, unit: 'mg', note: null },
+  { generic_name: 'Ibuprofen', population: 'adult', max_daily: 3200, max_daily_per_kg: null, unit: 'mg', note: null },
+];
+
+const ADULT = { age: 40, weight_kg: 70 };
+
+const tablets = (mg: number, quantity = 1): Dose => ({
+  quantity,
+  unit: 'tablet',
+  form: 'tablet',
+  route: 'oral',
+  strength: { amount: mg, unit: 'mg', per: 1 },
+});
+
+const med = (name: string, dose: Dose | null, overrides: Partial<DoseLimitMedication> = {}): DoseLimitMedication => ({
+  name,
+  dose,
+  dosage: dose ? `${dose.quantity} tablet` : '1 tablet',
+  frequency: { type: 'daily', slots: ['morning', 'afternoon', 'night'] },
+  ...overrides,
+});
+
+describe('genericNameFor', () => {
+  it("uses the catalog product's generic name and falls back to the typed name", () => {
+    const names = { 'cat-1': 'Paracetamol' };
+    expect(genericNameFor(med('Crocin 500', null, { catalog_id: 'cat-1' }), names)).toBe('Paracetamol');
+    expect(genericNameFor(med(' Crocin 500 ', null, { catalog_id: 'cat-2' }), names)).toBe('Crocin 500');
+    expect(genericNameFor(med('Crocin 500', null), names)).toBe('Crocin 500');
+  });
+});
+
+describe('findDoseLimit', () => {
+  it('picks the limit for the age group and falls back to the adult limit', () => {
+    expect(findDoseLimit('paracetamol', { age: 8, weight_kg: null }, LIMITS)?.population).toBe('pediatric');
+    expect(findDoseLimit('Ibuprofen', { age: 8, weight_kg: null }, LIMITS)?.population).toBe('adult');
+    expect(findDoseLimit('Cetirizine', ADULT, LIMITS)).toBeNull();
+  });
+});
+
+describe('checkDoseLimits', () => {
+  it('passes a dose within the limit', () => {
+    expect(checkDoseLimits([med('Paracetamol', tablets(500, 2))], ADULT, LIMITS)).toEqual([[]]);
+  });
+
+  it('flags a single medication over the limit', () => {
+    expect(checkDoseLimits([med('Paracetamol', tablets(1000, 2))], ADULT, LIMITS)).toEqual([[{
+      level: 'exceeds',
+      message: 'Paracetamol: 6000 mg/day exceeds the maximum of 4000 mg/day for adults.',
+    }]]);
+  });
+
+  it('looks the limit up through the catalog product, not the medication name', () => {
+    const crocin = med('Crocin Advance', tablets(1000, 2), { catalog_id: 'cat-1' });
+    const [flags] = checkDoseLimits([crocin], ADULT, LIMITS, { 'cat-1': 'Paracetamol' });
+    expect(flags).toEqual([expect.objectContaining({ level: 'exceeds' })]);
+  });
+
+  it('adds up the daily doses of the same drug across medications', () => {
+    // 3000 mg/day each is within the limit, 6000 mg/day together is not
+    const meds = [
+      med('Paracetamol', tablets(1000)),
+      med('Dolo 1000', tablets(1000), { catalog_id: 'cat-1' }),
+      med('Ibuprofen', tablets(400)),
+    ];
+
+    const flags = checkDoseLimits(meds, ADULT, LIMITS, { 'cat-1': 'Paracetamol' });
+
+    const combined = {
+      level: 'exceeds',
+      message: 'Paracetamol: 6000 mg/day in total across 2 medications exceeds the maximum of 4000 mg/day for adults.',
+    };
+    expect(flags).toEqual([[combined], [combined], []]);
+  });
+
+  it('marks a drug without a limit on file as unchecked', () => {
+    expect(checkDoseLimits([med('Cetirizine', tablets(10))], ADULT, LIMITS)).toEqual([[{
+      level: 'unchecked',
+      message: 'Cetirizine: no maximum daily dose is on file for Cetirizine; check the dose against the product information.',
+    }]]);
+  });
+
+  it('marks a dose without a strength as unchecked and still checks the others of that drug', () => {
+    const flags = checkDoseLimits([
+      med('Paracetamol', { ...tablets(0), strength: null }),
+      med('Paracetamol', tablets(1000, 2)),
+    ], ADULT, LIMITS);
+
+    expect(flags[0]).toEqual([
+      { level: 'unchecked', message: 'Paracetamol: the daily dose could not be checked against the mg limit; enter the strength of the dose.' },
+      { level: 'exceeds', message: 'Paracetamol: 6000 mg/day exceeds the maximum of 4000 mg/day for adults.' },
+    ]);
+    expect(flags[1]).toEqual([flags[0][1]]);
+  });
+
+  it('applies the lower of the absolute and weight-based limits', () => {
+    // 75 mg/kg/day at 20 kg is 1500 mg/day, below the absolute 4000 mg/day
+    const child = { age: 6, weight_kg: 20 };
+    expect(checkDoseLimits([med('Paracetamol', tablets(250, 2))], child, LIMITS)).toEqual([[]]);
+    expect(checkDoseLimits([med('Paracetamol', tablets(500, 2))], child, LIMITS)).toEqual([[{
+      level: 'exceeds',
+      message: 'Paracetamol: 3000 mg/day exceeds the maximum of 1500 mg/day (75 mg/kg/day at 20 kg) for children.',
+    }]]);
+  });
+
+  it("reports a weight-based limit as unchecked when the patient's weight is missing", () => {
+    const [flags] = checkDoseLimits([med('Paracetamol', tablets(500))], { age: 6, weight_kg: null }, LIMITS);
+    expect(flags).toEqual([{
+      level: 'unchecked',
+      message: "Paracetamol: the weight-based limit (75 mg/kg/day) could not be checked because the patient's weight is not recorded.",
+    }]);
+  });
+});
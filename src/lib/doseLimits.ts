@@ -0,0 +1,220 @@
+// Checks a prescription's total daily dose of each drug against the maximum daily dose for it
+// (drug_dose_limits table), picking the pediatric or geriatric limit by age and applying
+// weight-based limits when the patient's weight is known. Medications are matched to limits by
+// the generic name of their catalog product, and doses of the same drug are added up. Run in
+// the prescription form, before the AI safety check.
+
+import { supabase } from './supabaseClient';
+import { Dose, StrengthUnit, doseIngredientAmount, getDose } from './dose';
+import { Frequency } from './frequency';
+
+export type DosePopulation = 'adult' | 'pediatric' | 'geriatric';
+
+export type DoseLimit = {
+  generic_name: string;
+  population: DosePopulation;
+  max_daily: number | null;
+  max_daily_per_kg: number | null; // per kg of body weight
+  unit: StrengthUnit;
+  note: string | null;
+};
+
+export type DoseLimitPatient = {
+  age: number | null;
+  weight_kg: number | null;
+};
+
+// 'exceeds': the daily dose is over the limit; 'unchecked': no limit is on file for the drug,
+// or the dose could not be compared with it
+export type DoseLimitFlag = {
+  level: 'exceeds' | 'unchecked';
+  message: string;
+};
+
+export type DoseLimitMedication = {
+  name: string;
+  catalog_id?: string | null;
+  dose?: Dose | null;
+  dosage: string;
+  frequency: Frequency;
+};
+
+export const POPULATION_LABELS: Record<DosePopulation, string> = {
+  adult: 'adults',
+  pediatric: 'children',
+  geriatric: 'patients 65 and over',
+};
+
+const TO_MG: Partial<Record<StrengthUnit, number>> = { mcg: 0.001, mg: 1, g: 1000 };
+
+const formatAmount = (value: number) => String(Math.round(value * 100) / 100);
+
+export function populationForAge(age: number | null): DosePopulation {
+  if (age === null) return 'adult';
+  if (age < 18) return 'pediatric';
+  return age >= 65 ? 'geriatric' : 'adult';
+}
+
+// Doses taken on a dosing day (the busiest day for interval schedules)
+export function dosesPerDay(frequency: Frequency): number {
+  switch (frequency.type) {
+    case 'interval':
+      return frequency.every_hours > 0 ? Math.ceil(24 / frequency.every_hours) : 0;
+    case 'prn':
+      return frequency.max_per_day;
+    default:
+      return frequency.slots.length;
+  }
+}
+
+type IngredientAmount = { amount: number; unit: StrengthUnit };
+
+// Active ingredient in a single dose; taper steps use their largest step
+function amountPerDose(med: { dose?: Dose | null; dosage: string; frequency: Frequency }): IngredientAmount | null {
+  if (med.frequency.type !== 'taper') {
+    const dose = getDose(med);
+    return dose ? doseIngredientAmount(dose) : null;
+  }
+  let largest: IngredientAmount | null = null;
+  for (const step of med.frequency.steps) {
+    const dose = getDose({ dosage: step.dosage });
+    const amount = dose ? doseIngredientAmount(dose) : null;
+    if (amount && (!largest || amount.amount > largest.amount)) largest = amount;
+  }
+  return largest;
+}
+
+// Total active ingredient per dosing day, or null when the dose has no known strength
+export function dailyDoseAmount(med: { dose?: Dose | null; dosage: string; frequency: Frequency }): IngredientAmount | null {
+  const perDose = amountPerDose(med);
+  if (!perDose) return null;
+  return { amount: perDose.amount * dosesPerDay(med.frequency), unit: perDose.unit };
+}
+
+// Amount in `to` units, or null when the units cannot be converted (e.g. IU to mg)
+function convertAmount(amount: number, from: StrengthUnit, to: StrengthUnit): number | null {
+  if (from === to) return amount;
+  const fromFactor = TO_MG[from];
+  const toFactor = TO_MG[to];
+  return fromFactor && toFactor ? (amount * fromFactor) / toFactor : null;
+}
+
+export async function loadDoseLimits(): Promise<DoseLimit[]> {
+  const { data, error } = await supabase
+    .from('drug_dose_limits')
+    .select('generic_name, population, max_daily, max_daily_per_kg, unit, note');
+  if (error) throw error;
+  return (data || []) as DoseLimit[];
+}
+
+// Catalog products are matched by their generic name; free-text entries by the name as typed
+export function genericNameFor(med: DoseLimitMedication, catalogGenericNames: Record<string, string>): string {
+  return (med.catalog_id && catalogGenericNames[med.catalog_id]) || med.name.trim();
+}
+
+// The limit for this drug and patient; adult limits apply when none exists for their age group
+export function findDoseLimit(genericName: string, patient: DoseLimitPatient, limits: DoseLimit[]): DoseLimit | null {
+  const forDrug = limits.filter(limit => limit.generic_name.toLowerCase() === genericName.trim().toLowerCase());
+  const population = populationForAge(patient.age);
+  return forDrug.find(limit => limit.population === population)
+    || forDrug.find(limit => limit.population === 'adult')
+    || null;
+}
+
+// Flags for each medication, in the order given. The daily doses of all medications with the
+// same generic drug are added up, so two products of one drug cannot each pass on their own.
+export function checkDoseLimits(
+  medications: DoseLimitMedication[],
+  patient: DoseLimitPatient,
+  limits: DoseLimit[],
+  catalogGenericNames: Record<string, string> = {}
+): DoseLimitFlag[][] {
+  const flags: DoseLimitFlag[][] = medications.map(() => []);
+  const byDrug = new Map<string, { genericName: string; indexes: number[] }>();
+  medications.forEach((med, index) => {
+    const genericName = genericNameFor(med, catalogGenericNames);
+    if (!genericName) return;
+    const group = byDrug.get(genericName.toLowerCase()) || { genericName, indexes: [] };
+    group.indexes.push(index);
+    byDrug.set(genericName.toLowerCase(), group);
+  });
+
+  for (const { genericName, indexes } of byDrug.values()) {
+    const limit = findDoseLimit(genericName, patient, limits);
+    if (!limit) {
+      for (const index of indexes) {
+        flags[index].push({
+          level: 'unchecked',
+          message: `${medications[index].name}: no maximum daily dose is on file for ${genericName}; check the dose against the product information.`,
+        });
+      }
+      continue;
+    }
+
+    let total = 0;
+    const counted: DoseLimitMedication[] = [];
+    for (const index of indexes) {
+      const daily = dailyDoseAmount(medications[index]);
+      const amount = daily ? convertAmount(daily.amount, daily.unit, limit.unit) : null;
+      if (amount === null) {
+        flags[index].push({
+          level: 'unchecked',
+          message: `${medications[index].name}: the daily dose could not be checked against the ${limit.unit} limit; enter the strength of the dose.`,
+        });
+      } else {
+        total += amount;
+        counted.push(medications[index]);
+      }
+    }
+    if (counted.length === 0) continue;
+    for (const flag of drugLimitFlags(genericName, counted, total, limit, patient)) {
+      for (const index of indexes) flags[index].push(flag);
+    }
+  }
+  return flags;
+}
+
+// Flags shared by every medication of one drug, given their combined daily amount in the limit's unit
+function drugLimitFlags(
+  genericName: string,
+  meds: DoseLimitMedication[],
+  total: number,
+  limit: DoseLimit,
+  patient: DoseLimitPatient
+): DoseLimitFlag[] {
+  const flags: DoseLimitFlag[] = [];
+  const label = meds.length === 1 ? meds[0].name : genericName;
+
+  // The lower of the absolute and weight-based limits applies
+  const candidates: { value: number; reason: string }[] = [];
+  if (limit.max_daily !== null) {
+    candidates.push({ value: limit.max_daily, reason: `maximum of ${formatAmount(limit.max_daily)} ${limit.unit}/day` });
+  }
+  if (limit.max_daily_per_kg !== null) {
+    if (patient.weight_kg) {
+      const value = limit.max_daily_per_kg * patient.weight_kg;
+      candidates.push({
+        value,
+        reason: `maximum of ${formatAmount(value)} ${limit.unit}/day (${formatAmount(limit.max_daily_per_kg)} ${limit.unit}/kg/day at ${formatAmount(patient.weight_kg)} kg)`,
+      });
+    } else {
+      flags.push({
+        level: 'unchecked',
+        message: `${label}: the weight-based limit (${formatAmount(limit.max_daily_per_kg)} ${limit.unit}/kg/day) could not be checked because the patient's weight is not recorded.`,
+      });
+    }
+  }
+
+  const applied = candidates.sort((a, b) => a.value - b.value)[0];
+  if (applied && total > applied.value) {
+    const who = POPULATION_LABELS[limit.population];
+    const amount = meds.length === 1
+      ? `${formatAmount(total)} ${limit.unit}/day`
+      : `${formatAmount(total)} ${limit.unit}/day in total across ${meds.length} medications`;
+    flags.unshift({
+      level: 'exceeds',
+      message: `${label}: ${amount} exceeds the ${applied.reason} for ${who}.${limit.note ? ` ${limit.note}` : ''}`,
+    });
+  }
+  return flags;
+}
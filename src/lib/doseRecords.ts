@@ -0,0 +1,46 @@
+// What a patient records about a scheduled dose: taken (possibly at an earlier time), skipped
+// with a reason, or missed, each with an optional note. Changes can be undone for a short while.
+
+export type SkipReason = 'side_effect' | 'out_of_stock' | 'doctor_advised' | 'other';
+
+export const SKIP_REASONS: SkipReason[] = ['side_effect', 'out_of_stock', 'doctor_advised', 'other'];
+
+export const SKIP_REASON_LABELS: Record<SkipReason, string> = {
+  side_effect: 'Side effect',
+  out_of_stock: 'Out of stock',
+  doctor_advised: 'Doctor advised',
+  other: 'Other',
+};
+
+// How long the "Undo" button stays after recording a dose
+export const UNDO_WINDOW_MS = 10 * 1000;
+
+// How far before its scheduled time a dose can be recorded as taken (matches the database check)
+const EARLIEST_TAKEN_MS = 24 * 60 * 60 * 1000;
+
+// The fields of medication_logs a patient's record changes
+export type DoseRecord = {
+  status: 'pending' | 'taken' | 'missed' | 'skipped';
+  taken_at: string | null;
+  skip_reason: SkipReason | null;
+  notes: string | null;
+};
+
+// Returns an error message, or null if `takenAt` is a plausible time for the dose
+export function validateTakenAt(takenAt: Date, scheduledTime: string, now: Date): string | null {
+  if (isNaN(takenAt.getTime())) return 'Please enter when you took this dose.';
+  if (takenAt.getTime() > now.getTime()) return 'The time taken cannot be in the future.';
+  if (takenAt.getTime() < new Date(scheduledTime).getTime() - EARLIEST_TAKEN_MS) {
+    return 'The time taken cannot be more than a day before the scheduled time.';
+  }
+  return null;
+}
+
+// Value for an <input type="datetime-local">, in local time
+export function toDateTimeLocal(time: string | Date): string {
+  const date = new Date(time);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export const skipReasonLabel = (reason?: SkipReason | null) => (reason ? SKIP_REASON_LABELS[reason] : 'No reason given');
@@ -0,0 +1,51 @@
+// Per-patient dose-time schedule.
+// Each timing slot (morning/afternoon/night) maps to a local "HH:MM" time.
+// Stored on profiles.dose_times; falls back to the old 8 AM / 1 PM / 8 PM slots.
+
+export type DoseSlot = 'morning' | 'afternoon' | 'night';
+
+export type DoseTimes = Record<DoseSlot, string>;
+
+export const DOSE_SLOTS: DoseSlot[] = ['morning', 'afternoon', 'night'];
+
+export const DEFAULT_DOSE_TIMES: DoseTimes = {
+  morning: '08:00',
+  afternoon: '13:00',
+  night: '20:00',
+};
+
+export const DOSE_SLOT_LABELS: Record<DoseSlot, string> = {
+  morning: 'Morning',
+  afternoon: 'Afternoon',
+  night: 'Night',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Keep selected slots in morning -> night order
+export function sortSlots(slots: DoseSlot[]): DoseSlot[] {
+  return DOSE_SLOTS.filter(slot => slots.includes(slot));
+}
+
+export function isValidDoseTime(value: string): boolean {
+  return TIME_PATTERN.test(value);
+}
+
+// Merge a (possibly partial or missing) stored schedule with the defaults
+export function resolveDoseTimes(doseTimes?: Partial<DoseTimes> | null): DoseTimes {
+  const resolved = { ...DEFAULT_DOSE_TIMES };
+  if (!doseTimes) return resolved;
+  for (const slot of DOSE_SLOTS) {
+    const value = doseTimes[slot];
+    if (value && isValidDoseTime(value)) resolved[slot] = value;
+  }
+  return resolved;
+}
+
+// "20:00" -> "8:00 PM"
+export function formatDoseTime(value: string): string {
+  const [hours, minutes] = value.split(':').map(Number);
+  const date = new Date();
+  date.setHours(hours, minutes, 0, 0);
+  return date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit', hour12: true });
+}
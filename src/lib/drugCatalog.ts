@@ -0,0 +1,36 @@
+// Searchable catalog of drug products (drug_catalog table). Prescribers pick from it in the
+// prescription form; the chosen row's id is kept on the medication as `catalog_id`.
+
+import { supabase } from './supabaseClient';
+
+export type DrugCatalogEntry = {
+  id: string;
+  generic_name: string;
+  brand_names: string[];
+  strength: string;
+  form: string;
+  route: string;
+};
+
+export const MIN_CATALOG_QUERY_LENGTH = 2;
+
+// Generic/brand substring matches plus misspelling-tolerant matches; see search_drug_catalog
+export async function searchDrugCatalog(query: string, limit = 8): Promise<DrugCatalogEntry[]> {
+  if (query.trim().length < MIN_CATALOG_QUERY_LENGTH) return [];
+  const { data, error } = await supabase.rpc('search_drug_catalog', { p_query: query.trim(), p_limit: limit });
+  if (error) throw error;
+  return (data || []) as DrugCatalogEntry[];
+}
+
+// Generic names of catalog products by id, for medications that were picked from the catalog
+export async function loadCatalogGenericNames(ids: string[]): Promise<Record<string, string>> {
+  if (ids.length === 0) return {};
+  const { data, error } = await supabase.from('drug_catalog').select('id, generic_name').in('id', ids);
+  if (error) throw error;
+  return Object.fromEntries((data || []).map(row => [row.id, row.generic_name]));
+}
+
+// e.g. "500 mg capsule, oral"
+export function describeCatalogProduct(entry: DrugCatalogEntry): string {
+  return `${entry.strength} ${entry.form}, ${entry.route}`;
+}
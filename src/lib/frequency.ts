@@ -0,0 +1,111 @@
+// Structured dosing frequency for a prescribed medication.
+// Replaces the old { morning, afternoon, night } checkbox timing.
+// Schedules are expanded on the server (server/schedule.cjs), which mirrors these types.
+
+import { DoseSlot, DOSE_SLOTS, DOSE_SLOT_LABELS } from './doseTimes';
+
+export type TaperStep = {
+  dosage: string; // e.g. "40mg"
+  days: number; // how many days this step lasts
+};
+
+export type Frequency =
+  // Fixed daily slots (the old morning/afternoon/night checkboxes)
+  | { type: 'daily'; slots: DoseSlot[] }
+  // Every N hours around the clock, starting at a given time on the start date
+  | { type: 'interval'; every_hours: number; first_dose: string }
+  // Every N days (e.g. every other day = 2) at the given slots
+  | { type: 'every_n_days'; every_days: number; slots: DoseSlot[] }
+  // On specific weekdays (0 = Sunday) at the given slots
+  | { type: 'weekly'; weekdays: number[]; slots: DoseSlot[] }
+  // As needed; nothing is scheduled, the patient logs each dose
+  | { type: 'prn'; max_per_day: number; min_hours_between?: number }
+  // Daily slots with a dosage that steps down over time
+  | { type: 'taper'; slots: DoseSlot[]; steps: TaperStep[] };
+
+export type FrequencyType = Frequency['type'];
+
+export type LegacyTiming = { morning: boolean; afternoon: boolean; night: boolean };
+
+export const FREQUENCY_TYPE_LABELS: Record<FrequencyType, string> = {
+  daily: 'Daily at set times',
+  interval: 'Every N hours',
+  every_n_days: 'Every N days',
+  weekly: 'Weekly on set days',
+  prn: 'As needed (PRN)',
+  taper: 'Taper',
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+export const DEFAULT_FREQUENCY: Frequency = { type: 'daily', slots: [] };
+
+// Medications saved before structured frequencies only carry `timing`
+export function getFrequency(med: { frequency?: Frequency | null; timing?: LegacyTiming | null }): Frequency {
+  if (med.frequency) return med.frequency;
+  const timing = med.timing;
+  return {
+    type: 'daily',
+    slots: timing ? DOSE_SLOTS.filter(slot => timing[slot]) : [],
+  };
+}
+
+// The daily slots a frequency uses, if it is slot-based
+export function frequencySlots(frequency: Frequency): DoseSlot[] {
+  switch (frequency.type) {
+    case 'daily':
+    case 'every_n_days':
+    case 'weekly':
+    case 'taper':
+      return frequency.slots;
+    default:
+      return [];
+  }
+}
+
+// Returns an error message, or null if the frequency is complete
+export function validateFrequency(frequency: Frequency): string | null {
+  switch (frequency.type) {
+    case 'daily':
+      return frequency.slots.length === 0 ? 'Please select at least one time of day (e.g., Morning).' : null;
+    case 'interval':
+      if (!(frequency.every_hours >= 1 && frequency.every_hours <= 24)) return 'Interval must be between 1 and 24 hours.';
+      return frequency.first_dose ? null : 'Please set the time of the first dose.';
+    case 'every_n_days':
+      if (!(frequency.every_days >= 2)) return 'Please enter an interval of at least 2 days.';
+      return frequency.slots.length === 0 ? 'Please select at least one time of day (e.g., Morning).' : null;
+    case 'weekly':
+      if (frequency.weekdays.length === 0) return 'Please select at least one day of the week.';
+      return frequency.slots.length === 0 ? 'Please select at least one time of day (e.g., Morning).' : null;
+    case 'prn':
+      return frequency.max_per_day >= 1 ? null : 'Please enter the maximum number of doses per day.';
+    case 'taper':
+      if (frequency.slots.length === 0) return 'Please select at least one time of day (e.g., Morning).';
+      if (frequency.steps.length === 0) return 'Please add at least one taper step.';
+      return frequency.steps.every(step => step.dosage && step.days >= 1)
+        ? null
+        : 'Each taper step needs a dosage and at least 1 day.';
+  }
+}
+
+// Human-readable summary, used in the UI and in the AI safety payload
+export function describeFrequency(frequency: Frequency): string {
+  const slotText = (slots: DoseSlot[]) => slots.map(slot => DOSE_SLOT_LABELS[slot]).join(', ');
+
+  switch (frequency.type) {
+    case 'daily':
+      return slotText(frequency.slots) || 'As directed';
+    case 'interval':
+      return `Every ${frequency.every_hours} hours (first dose at ${frequency.first_dose})`;
+    case 'every_n_days':
+      return `Every ${frequency.every_days === 2 ? 'other day' : `${frequency.every_days} days`} (${slotText(frequency.slots)})`;
+    case 'weekly':
+      return `Weekly on ${frequency.weekdays.map(d => WEEKDAY_LABELS[d]).join(', ')} (${slotText(frequency.slots)})`;
+    case 'prn': {
+      const gap = frequency.min_hours_between ? `, at least ${frequency.min_hours_between}h apart` : '';
+      return `As needed, max ${frequency.max_per_day}/day${gap}`;
+    }
+    case 'taper':
+      return `Taper ${frequency.steps.map(step => `${step.dosage} x${step.days}d`).join(' → ')} (${slotText(frequency.slots)})`;
+  }
+}
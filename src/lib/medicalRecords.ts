@@ -0,0 +1,136 @@
+// Structured medical records of a patient: allergies, chronic conditions and the medications
+// they report taking outside this app. Stored in the patient_allergies, patient_conditions and
+// patient_reported_medications tables; edited by the patient and by their doctors.
+
+import { supabase } from './supabaseClient';
+
+export type AllergySeverity = 'mild' | 'moderate' | 'severe' | 'unknown';
+
+export const ALLERGY_SEVERITIES: AllergySeverity[] = ['mild', 'moderate', 'severe', 'unknown'];
+
+export const ALLERGY_SEVERITY_LABELS: Record<AllergySeverity, string> = {
+  mild: 'Mild',
+  moderate: 'Moderate',
+  severe: 'Severe',
+  unknown: 'Unknown severity',
+};
+
+// `id` starts with "new_" until the record is saved
+export type Allergy = {
+  id: string;
+  substance: string;
+  reaction: string;
+  severity: AllergySeverity;
+  verified_by?: string | null; // Doctor who confirmed it
+  verified_at?: string | null;
+  verifier?: { full_name: string } | null;
+};
+
+export type Condition = {
+  id: string;
+  name: string;
+  onset_date?: string | null; // YYYY-MM-DD
+  notes: string;
+};
+
+export type ReportedMedication = {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency: string;
+};
+
+export type MedicalRecords = {
+  allergies: Allergy[];
+  conditions: Condition[];
+  medications: ReportedMedication[];
+};
+
+export const EMPTY_MEDICAL_RECORDS: MedicalRecords = { allergies: [], conditions: [], medications: [] };
+
+export const newRecordId = () => 'new_' + Math.random().toString(36).slice(2, 9);
+
+const isNewRecord = (record: { id: string }) => record.id.startsWith('new_');
+
+// e.g. "Penicillin - hives (Severe)"
+export function describeAllergy(allergy: Allergy): string {
+  const reaction = allergy.reaction.trim() ? ` - ${allergy.reaction.trim()}` : '';
+  return `${allergy.substance}${reaction} (${ALLERGY_SEVERITY_LABELS[allergy.severity]})`;
+}
+
+export async function loadMedicalRecords(patientId: string): Promise<MedicalRecords> {
+  const [allergies, conditions, medications] = await Promise.all([
+    supabase
+      .from('patient_allergies')
+      .select('id, substance, reaction, severity, verified_by, verified_at, verifier:profiles!patient_allergies_verified_by_fkey(full_name)')
+      .eq('patient_id', patientId)
+      .order('created_at'),
+    supabase
+      .from('patient_conditions')
+      .select('id, name, onset_date, notes')
+      .eq('patient_id', patientId)
+      .order('created_at'),
+    supabase
+      .from('patient_reported_medications')
+      .select('id, name, dosage, frequency')
+      .eq('patient_id', patientId)
+      .order('created_at'),
+  ]);
+
+  const error = allergies.error || conditions.error || medications.error;
+  if (error) throw error;
+
+  return {
+    allergies: (allergies.data || []) as unknown as Allergy[],
+    conditions: (conditions.data || []) as Condition[],
+    medications: (medications.data || []) as ReportedMedication[],
+  };
+}
+
+// Writes the difference between `saved` (as loaded) and `edited` to one table
+async function syncTable<T extends { id: string }>(
+  table: string,
+  patientId: string,
+  saved: T[],
+  edited: T[],
+  columns: (keyof T)[]
+) {
+  const pick = (record: T) => Object.fromEntries(columns.map(column => [column, record[column] ?? null]));
+
+  const removedIds = saved.filter(s => !edited.some(e => e.id === s.id)).map(s => s.id);
+  if (removedIds.length > 0) {
+    const { error } = await supabase.from(table).delete().in('id', removedIds);
+    if (error) throw error;
+  }
+
+  const added = edited.filter(isNewRecord).map(record => ({ ...pick(record), patient_id: patientId }));
+  if (added.length > 0) {
+    const { error } = await supabase.from(table).insert(added);
+    if (error) throw error;
+  }
+
+  for (const record of edited.filter(e => !isNewRecord(e))) {
+    const before = saved.find(s => s.id === record.id);
+    if (before && JSON.stringify(pick(before)) === JSON.stringify(pick(record))) continue;
+    const { error } = await supabase.from(table).update(pick(record)).eq('id', record.id);
+    if (error) throw error;
+  }
+}
+
+export async function saveMedicalRecords(patientId: string, saved: MedicalRecords, edited: MedicalRecords) {
+  await syncTable('patient_allergies', patientId, saved.allergies, edited.allergies,
+    ['substance', 'reaction', 'severity', 'verified_by']);
+  await syncTable('patient_conditions', patientId, saved.conditions, edited.conditions,
+    ['name', 'onset_date', 'notes']);
+  await syncTable('patient_reported_medications', patientId, saved.medications, edited.medications,
+    ['name', 'dosage', 'frequency']);
+}
+
+// Sign-up metadata read by the import_signup_medical_records trigger
+export function medicalRecordsForSignUp(records: MedicalRecords) {
+  return {
+    allergies: records.allergies.map(({ substance, reaction, severity }) => ({ substance, reaction, severity })),
+    conditions: records.conditions.map(({ name, onset_date, notes }) => ({ name, onset_date, notes })),
+    reported_medications: records.medications.map(({ name, dosage, frequency }) => ({ name, dosage, frequency })),
+  };
+}
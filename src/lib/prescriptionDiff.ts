@@ -0,0 +1,66 @@
+// Field-level diff between two versions of a prescription, for the history view.
+
+import { Frequency, LegacyTiming, describeFrequency, getFrequency } from './frequency';
+
+type VersionedMedication = {
+  id: string;
+  name: string;
+  dosage: string;
+  frequency?: Frequency | null;
+  timing?: LegacyTiming | null;
+  instructions: string;
+};
+
+export type PrescriptionSnapshot = {
+  diagnosis?: string | null;
+  start_date: string;
+  end_date: string;
+  medications: VersionedMedication[];
+};
+
+export type DiffEntry = {
+  kind: 'added' | 'removed' | 'changed';
+  label: string; // e.g. "End date" or "Amoxicillin dosage"
+  before?: string;
+  after?: string;
+};
+
+function describeMedication(med: VersionedMedication): string {
+  return `${med.dosage}, ${describeFrequency(getFrequency(med))}`;
+}
+
+export function diffPrescriptions(before: PrescriptionSnapshot, after: PrescriptionSnapshot): DiffEntry[] {
+  const changes: DiffEntry[] = [];
+
+  const compareField = (label: string, a?: string | null, b?: string | null) => {
+    if ((a || '') !== (b || '')) changes.push({ kind: 'changed', label, before: a || '—', after: b || '—' });
+  };
+
+  compareField('Diagnosis', before.diagnosis, after.diagnosis);
+  compareField('Start date', before.start_date, after.start_date);
+  compareField('End date', before.end_date, after.end_date);
+
+  for (const med of after.medications) {
+    const previous = before.medications.find(m => m.id === med.id);
+    if (!previous) {
+      changes.push({ kind: 'added', label: med.name, after: describeMedication(med) });
+      continue;
+    }
+    compareField(`${previous.name} name`, previous.name, med.name);
+    compareField(`${med.name} dosage`, previous.dosage, med.dosage);
+    compareField(
+      `${med.name} frequency`,
+      describeFrequency(getFrequency(previous)),
+      describeFrequency(getFrequency(med))
+    );
+    compareField(`${med.name} instructions`, previous.instructions, med.instructions);
+  }
+
+  for (const med of before.medications) {
+    if (!after.medications.some(m => m.id === med.id)) {
+      changes.push({ kind: 'removed', label: med.name, before: describeMedication(med) });
+    }
+  }
+
+  return changes;
+}
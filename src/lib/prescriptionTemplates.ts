@@ -0,0 +1,107 @@
+// Named prescription templates (prescription_templates table): a saved medications list with
+// its diagnosis and duration, private to the author or shared with the practice. Doctors can
+// star any template they see (prescription_template_favorites).
+
+import { supabase } from './supabaseClient';
+import { Dose } from './dose';
+import { Frequency } from './frequency';
+
+// A medication as stored in a template (the prescription format without an id)
+export type TemplateMedication = {
+  name: string;
+  catalog_id?: string | null;
+  dosage: string;
+  dose?: Dose;
+  frequency: Frequency;
+  instructions: string;
+};
+
+export type PrescriptionTemplate = {
+  id: string;
+  doctor_id: string;
+  name: string;
+  diagnosis: string | null;
+  duration_days: number;
+  medications: TemplateMedication[];
+  shared: boolean;
+  is_favorite: boolean;
+  author_name: string | null; // Null when the author's profile is not visible
+};
+
+type TemplateRow = Omit<PrescriptionTemplate, 'is_favorite' | 'author_name'> & {
+  author: { full_name: string } | null;
+  favorites: { doctor_id: string }[] | null;
+};
+
+export type TemplateDraft = Pick<PrescriptionTemplate, 'name' | 'diagnosis' | 'duration_days' | 'medications' | 'shared'>;
+
+// A prescription's medications in template form (their ids are specific to the prescription)
+export function toTemplateMedications(medications: (TemplateMedication & { id: string })[]): TemplateMedication[] {
+  return medications.map(med => ({
+    name: med.name,
+    catalog_id: med.catalog_id ?? null,
+    dosage: med.dosage,
+    dose: med.dose,
+    frequency: med.frequency,
+    instructions: med.instructions,
+  }));
+}
+
+// Favorites first, then the doctor's own templates, then by name
+export function sortTemplates(templates: PrescriptionTemplate[], doctorId: string): PrescriptionTemplate[] {
+  return [...templates].sort((a, b) =>
+    Number(b.is_favorite) - Number(a.is_favorite)
+    || Number(b.doctor_id === doctorId) - Number(a.doctor_id === doctorId)
+    || a.name.localeCompare(b.name)
+  );
+}
+
+export async function loadTemplates(doctorId: string): Promise<PrescriptionTemplate[]> {
+  const { data, error } = await supabase
+    .from('prescription_templates')
+    .select(`
+      id, doctor_id, name, diagnosis, duration_days, medications, shared,
+      author:profiles!prescription_templates_doctor_id_fkey(full_name),
+      favorites:prescription_template_favorites(doctor_id)
+    `)
+    .order('name');
+  if (error) throw error;
+
+  // RLS only returns the signed-in doctor's own favorite rows
+  const templates = ((data || []) as unknown as TemplateRow[]).map(({ author, favorites, ...template }) => ({
+    ...template,
+    medications: template.medications || [],
+    is_favorite: (favorites || []).length > 0,
+    author_name: author?.full_name ?? null,
+  }));
+  return sortTemplates(templates, doctorId);
+}
+
+export async function createTemplate(doctorId: string, draft: TemplateDraft) {
+  const { error } = await supabase.from('prescription_templates').insert({
+    doctor_id: doctorId,
+    name: draft.name.trim(),
+    diagnosis: draft.diagnosis || null,
+    duration_days: draft.duration_days,
+    medications: draft.medications,
+    shared: draft.shared,
+  });
+  if (error) throw error;
+}
+
+export async function setTemplateShared(templateId: string, shared: boolean) {
+  const { error } = await supabase.from('prescription_templates').update({ shared }).eq('id', templateId);
+  if (error) throw error;
+}
+
+export async function deleteTemplate(templateId: string) {
+  const { error } = await supabase.from('prescription_templates').delete().eq('id', templateId);
+  if (error) throw error;
+}
+
+export async function setTemplateFavorite(doctorId: string, templateId: string, favorite: boolean) {
+  const { error } = favorite
+    ? await supabase.from('prescription_template_favorites').insert({ doctor_id: doctorId, template_id: templateId })
+    : await supabase.from('prescription_template_favorites').delete().eq('doctor_id', doctorId).eq('template_id', templateId);
+  if (error) throw error;
+}
@@ -0,0 +1,243 @@
+// Types for the /run-safety-check AI review and the record stored with each prescription.
+// Enums and error codes come from safetyCheckSchema.json, which the server validates against too.
+
+import schema from './safetyCheckSchema.json';
+import { MedicalRecords, describeAllergy } from './medicalRecords';
+import { SymptomHistoryEntry } from './symptomReports';
+
+export type SafetyAssessment = 'Safe' | 'Caution' | 'High-Risk';
+
+// 'rules' = local interaction dataset (server/data/interactions.json), 'llm' = model review
+export type SafetyEngine = 'rules' | 'llm';
+
+export type SafetyFlag = {
+  problematic_drug: string;
+  issue: string;
+  explanation: string;
+  suggested_alternative: string;
+  replacement_drug?: string; // A single drug that can be swapped into the draft
+  engine?: SafetyEngine; // Missing on checks saved before the rule engine existed
+  severity?: FlagSeverity; // Rule-engine flags only
+};
+
+export type FlagSeverity = 'minor' | 'moderate' | 'high';
+
+export const FLAG_SEVERITY_LABELS: Record<FlagSeverity, string> = {
+  minor: 'Minor',
+  moderate: 'Moderate',
+  high: 'High',
+};
+
+// LLM flags carry no severity of their own; they take it from the overall verdict
+export function flagSeverity(flag: SafetyFlag, assessment?: string): FlagSeverity {
+  if (flag.severity) return flag.severity;
+  const normalized = assessment?.toLowerCase();
+  if (normalized === 'high-risk') return 'high';
+  if (normalized === 'caution') return 'moderate';
+  return 'minor';
+}
+
+// The draft medication a flag is about: exact name first, then either name containing the other
+export function medicationForFlag<T extends { id: string; name: string }>(flag: SafetyFlag, medications: T[]): T | undefined {
+  const drug = flag.problematic_drug.trim().toLowerCase();
+  return medications.find(med => med.name.trim().toLowerCase() === drug)
+    ?? medications.find(med => {
+      const name = med.name.trim().toLowerCase();
+      return name !== '' && (drug.includes(name) || name.includes(drug));
+    });
+}
+
+export type SafetyCheckErrorCode = keyof typeof schema.error_codes;
+
+export const SAFETY_CHECK_ERRORS: Record<SafetyCheckErrorCode, { title: string; message: string }> = schema.error_codes;
+
+export class SafetyCheckError extends Error {
+  code: SafetyCheckErrorCode;
+
+  constructor(code: SafetyCheckErrorCode, message?: string) {
+    super(message || SAFETY_CHECK_ERRORS[code].message);
+    this.code = code;
+  }
+}
+
+export function isSafetyCheckErrorCode(value: unknown): value is SafetyCheckErrorCode {
+  return typeof value === 'string' && value in SAFETY_CHECK_ERRORS;
+}
+
+export const SAFETY_ENGINE_LABELS: Record<SafetyEngine, string> = {
+  rules: 'Rule',
+  llm: 'AI',
+};
+
+// Exact structure sent to the backend
+export type SafetyCheckPayload = {
+  patient: {
+    age: number;
+    gender: string;
+    consultation_reason: string;
+  };
+  history: {
+    allergies: string[];
+    conditions: { name: string; notes: string }[];
+    active_medications: ActiveMedication[]; // Everything the patient already takes
+    symptom_reports?: SymptomHistoryEntry[]; // Severe side effects the patient reported (missing in older payloads)
+  };
+  new_prescriptions: {
+    drug_name: string;
+    dosage: string;
+    frequency: string;
+  }[];
+};
+
+// 'prescription' = another active prescription (any doctor), 'patient_reported' = the patient's own list
+export type ActiveMedication = {
+  drug_name: string;
+  dosage: string;
+  frequency: string;
+  source: 'prescription' | 'patient_reported';
+  prescribed_by?: string;
+};
+
+// Allergies and conditions are sent as text so the rule engine and the model can read them
+export function safetyHistoryFromRecords(
+  records: MedicalRecords,
+  prescribed: ActiveMedication[],
+  symptomReports: SymptomHistoryEntry[] = []
+): SafetyCheckPayload['history'] {
+  return {
+    allergies: records.allergies.map(a =>
+      `${describeAllergy(a)}${a.verified_by ? ', verified by a doctor' : ''}`),
+    conditions: records.conditions.map(c => ({
+      name: c.name,
+      notes: [c.onset_date && `since ${c.onset_date}`, c.notes].filter(Boolean).join('; '),
+    })),
+    active_medications: [
+      ...prescribed,
+      ...records.medications.map(m => ({
+        drug_name: m.name,
+        dosage: m.dosage,
+        frequency: m.frequency,
+        source: 'patient_reported' as const,
+      })),
+    ],
+    symptom_reports: symptomReports,
+  };
+}
+
+// Backend response
+export type SafetyCheckOutput = {
+  overall_assessment: SafetyAssessment;
+  flags: SafetyFlag[];
+  model?: string; // Missing when the LLM could not be reached
+  rules_version?: string;
+  llm_error?: string; // Set when only the rule engine ran
+  llm_error_code?: SafetyCheckErrorCode;
+  checked_at?: string;
+  cached?: boolean; // Served from the server's cache; checked_at is when it was computed
+};
+
+// Saved on prescriptions.safety_check
+export type SafetyCheckRecord = {
+  status: 'completed' | 'error' | 'not_run';
+  overall_assessment?: string;
+  flags: SafetyFlag[];
+  model?: string;
+  rules_version?: string;
+  llm_error?: string;
+  llm_error_code?: SafetyCheckErrorCode;
+  checked_at?: string;
+  payload?: SafetyCheckPayload;
+  error?: string;
+  error_code?: SafetyCheckErrorCode;
+  // Set when the doctor saved despite a Caution/High-Risk verdict
+  override?: {
+    reason: string;
+    acknowledged_flags: number[]; // Indexes into `flags`
+    by: string;
+    at: string;
+  };
+};
+
+// Row of the practice_settings table
+export type PracticeSettings = {
+  require_safety_check: boolean;
+  missed_dose_grace_minutes: number; // Pending doses this long past their time become missed
+};
+
+export const DEFAULT_PRACTICE_SETTINGS: PracticeSettings = {
+  require_safety_check: false,
+  missed_dose_grace_minutes: 120,
+};
+
+const isNonEmptyString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+// Checks a /run-safety-check response against the shared schema
+export function parseSafetyCheckOutput(value: unknown): SafetyCheckOutput {
+  const output = value as Partial<SafetyCheckOutput> | null;
+  if (!output || typeof output !== 'object') throw new SafetyCheckError('INVALID_RESPONSE');
+  if (!schema.assessments.includes(output.overall_assessment as string)) {
+    throw new SafetyCheckError('INVALID_RESPONSE', `Unknown assessment "${output.overall_assessment}"`);
+  }
+  if (!Array.isArray(output.flags)) throw new SafetyCheckError('INVALID_RESPONSE', 'Missing flags');
+
+  for (const flag of output.flags) {
+    const fields = flag as Record<string, unknown>;
+    const missing = schema.flag_required_fields.filter(field => !isNonEmptyString(fields[field]));
+    if (missing.length > 0) {
+      throw new SafetyCheckError('INVALID_RESPONSE', `Flag is missing ${missing.join(', ')}`);
+    }
+    if (flag.engine !== undefined && !schema.engines.includes(flag.engine)) {
+      throw new SafetyCheckError('INVALID_RESPONSE', `Unknown engine "${flag.engine}"`);
+    }
+  }
+
+  return {
+    ...output,
+    llm_error_code: isSafetyCheckErrorCode(output.llm_error_code) ? output.llm_error_code : undefined,
+  } as SafetyCheckOutput;
+}
+
+export function isConcerningAssessment(assessment?: string): boolean {
+  const normalized = assessment?.toLowerCase();
+  return normalized === 'caution' || normalized === 'high-risk';
+}
+
+// Reasons the prescription cannot be saved yet; mirrors the enforce_safety_check_policy trigger
+export function savePolicyBlockers(
+  record: SafetyCheckRecord,
+  acknowledgedFlags: number[],
+  justification: string,
+  settings: PracticeSettings
+): string[] {
+  const blockers: string[] = [];
+  if (settings.require_safety_check && record.status !== 'completed') {
+    blockers.push(record.status === 'error'
+      ? 'The safety check failed. Your practice requires a completed check; please run it again.'
+      : 'Your practice requires running the AI safety check before saving.');
+  }
+  if (record.status !== 'completed') return blockers;
+
+  const assessment = record.overall_assessment?.toLowerCase();
+  if (isConcerningAssessment(assessment) && record.flags.some((_, i) => !acknowledgedFlags.includes(i))) {
+    blockers.push('Acknowledge every flagged issue.');
+  }
+  if (assessment === 'high-risk' && !justification.trim()) {
+    blockers.push('A written justification is required to save a High-Risk prescription.');
+  }
+  return blockers;
+}
+
+// Patient-facing wording; avoids clinical jargon and never shows raw model output
+export function plainLanguageSummary(record?: SafetyCheckRecord | null): string {
+  if (!record || record.status !== 'completed') {
+    return "Your doctor reviewed this prescription.";
+  }
+  const assessment = record.overall_assessment?.toLowerCase();
+  if (assessment === 'safe' || record.flags.length === 0) {
+    return "An automated safety check found no problems with this prescription and your medical history.";
+  }
+  const drugs = Array.from(new Set(record.flags.map(f => f.problematic_drug))).join(', ');
+  return `An automated safety check noted something to watch for with ${drugs}. ` +
+    "Your doctor reviewed it and decided this prescription is right for you. " +
+    "If you notice anything unusual, contact your doctor.";
+}
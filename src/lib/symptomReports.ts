@@ -0,0 +1,133 @@
+// Patients' side-effect and symptom journal (symptom_reports table). Entries are only ever
+// added; the prescribing doctor marks them reviewed. Severe reports are sent with later
+// safety checks as history.
+
+import { supabase } from './supabaseClient';
+
+export type SymptomSeverity = 'mild' | 'moderate' | 'severe';
+
+export const SYMPTOM_SEVERITIES: SymptomSeverity[] = ['mild', 'moderate', 'severe'];
+
+export const SYMPTOM_SEVERITY_LABELS: Record<SymptomSeverity, string> = {
+  mild: 'Mild - noticeable but not bothersome',
+  moderate: 'Moderate - affects daily activities',
+  severe: 'Severe - prevents daily activities or needs medical help',
+};
+
+// Reports at this severity are highlighted and included in safety checks
+export const HIGH_SEVERITY: SymptomSeverity = 'severe';
+
+// How far back severe reports are sent with a safety check
+const SAFETY_HISTORY_DAYS = 365;
+
+export type SymptomReport = {
+  id: string;
+  patient_id: string;
+  prescription_id: string | null;
+  medication_id: string | null;
+  medication_name: string | null;
+  doctor_id: string | null;
+  symptom: string;
+  severity: SymptomSeverity;
+  onset_at: string;
+  description: string;
+  reviewed_by: string | null;
+  reviewed_at: string | null;
+  created_at: string;
+};
+
+export type SymptomReportDraft = Pick<SymptomReport, 'symptom' | 'severity' | 'onset_at' | 'description'> & {
+  prescription_id: string | null;
+  medication_id: string | null;
+};
+
+// As sent in the safety-check payload's history
+export type SymptomHistoryEntry = {
+  symptom: string;
+  severity: SymptomSeverity;
+  medication: string | null;
+  onset: string; // YYYY-MM-DD
+  description: string;
+};
+
+const REPORT_COLUMNS = 'id, patient_id, prescription_id, medication_id, medication_name, doctor_id, symptom, severity, onset_at, description, reviewed_by, reviewed_at, created_at';
+
+export const isHighSeverity = (report: { severity: SymptomSeverity }) => report.severity === HIGH_SEVERITY;
+
+// Returns an error message, or null if the draft can be saved
+export function validateSymptomReport(draft: SymptomReportDraft, now: Date): string | null {
+  if (!draft.symptom.trim()) return 'Please describe the symptom (e.g., nausea, rash, dizziness).';
+  const onset = new Date(draft.onset_at);
+  if (isNaN(onset.getTime())) return 'Please enter when the symptom started.';
+  if (onset.getTime() > now.getTime()) return 'The start time cannot be in the future.';
+  return null;
+}
+
+export async function createSymptomReport(patientId: string, draft: SymptomReportDraft) {
+  const { error } = await supabase.from('symptom_reports').insert({
+    patient_id: patientId,
+    prescription_id: draft.prescription_id,
+    medication_id: draft.prescription_id ? draft.medication_id : null,
+    symptom: draft.symptom.trim(),
+    severity: draft.severity,
+    onset_at: draft.onset_at,
+    description: draft.description.trim(),
+  });
+  if (error) throw error;
+}
+
+export async function loadSymptomReports(patientId: string): Promise<SymptomReport[]> {
+  const { data, error } = await supabase
+    .from('symptom_reports')
+    .select(REPORT_COLUMNS)
+    .eq('patient_id', patientId)
+    .order('onset_at', { ascending: false });
+  if (error) throw error;
+  return (data || []) as SymptomReport[];
+}
+
+// Reports awaiting the doctor's review: those on their prescriptions and those not linked to
+// any prescription (RLS limits both to the doctor's active patients). Severe ones first.
+export async function loadUnreviewedReports(doctorId: string): Promise<SymptomReport[]> {
+  const { data, error } = await supabase
+    .from('symptom_reports')
+    .select(REPORT_COLUMNS)
+    .is('reviewed_at', null)
+    .or(`doctor_id.eq.${doctorId},doctor_id.is.null`)
+    .order('created_at', { ascending: false });
+  if (error) throw error;
+  return ((data || []) as SymptomReport[])
+    .sort((a, b) => Number(isHighSeverity(b)) - Number(isHighSeverity(a)));
+}
+
+export async function markReportReviewed(reportId: string, doctorId: string) {
+  const { error } = await supabase.from('symptom_reports').update({ reviewed_by: doctorId }).eq('id', reportId);
+  if (error) throw error;
+}
+
+// Severe reports of the last year, for the safety-check history
+export async function loadSevereSymptomHistory(patientId: string): Promise<SymptomHistoryEntry[]> {
+  const since = new Date(Date.now() - SAFETY_HISTORY_DAYS * 24 * 60 * 60 * 1000);
+  const { data, error } = await supabase
+    .from('symptom_reports')
+    .select('symptom, severity, medication_name, onset_at, description')
+    .eq('patient_id', patientId)
+    .eq('severity', HIGH_SEVERITY)
+    .gte('onset_at', since.toISOString())
+    .order('onset_at', { ascending: false });
+  if (error) throw error;
+  return (data || []).map(report => ({
+    symptom: report.symptom,
+    severity: report.severity as SymptomSeverity,
+    medication: report.medication_name,
+    onset: report.onset_at.slice(0, 10),
+    description: report.description,
+  }));
+}
+
+// e.g. "Rash (severe), suspected Amoxicillin, since Mar 3"
+export function describeSymptomReport(report: Pick<SymptomReport, 'symptom' | 'severity' | 'medication_name' | 'onset_at'>): string {
+  const medication = report.medication_name ? `, suspected ${report.medication_name}` : '';
+  const onset = new Date(report.onset_at).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+  return `${report.symptom} (${report.severity})${medication}, since ${onset}`;
+}
@@ -0,0 +1,25 @@
+/*
+  # Per-patient dose times
+
+  ## Overview
+  Medication logs used to be generated at fixed 8:00 / 13:00 / 20:00 slots.
+  Patients on night shifts or with different routines need their own times.
+
+  ## Changes
+
+  ### 1. `profiles`
+  - `dose_times` (jsonb) - Local "HH:MM" time for each timing slot,
+    e.g. {"morning": "08:00", "afternoon": "13:00", "night": "20:00"}
+
+  ### 2. `medication_logs`
+  - `dose_slot` (text, optional) - 'morning', 'afternoon' or 'night'; lets reminders
+    and rescheduling follow the patient's current dose times
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS dose_times jsonb NOT NULL
+  DEFAULT '{"morning": "08:00", "afternoon": "13:00", "night": "20:00"}'::jsonb;
+
+ALTER TABLE medication_logs
+  ADD COLUMN IF NOT EXISTS dose_slot text
+  CHECK (dose_slot IN ('morning', 'afternoon', 'night'));
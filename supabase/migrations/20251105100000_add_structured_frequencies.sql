@@ -0,0 +1,18 @@
+/*
+  # Structured dosing frequencies
+
+  ## Overview
+  Each entry in `prescriptions.medications` now carries a `frequency` object instead of
+  the `timing` {morning, afternoon, night} booleans. Supported types: daily, interval
+  (every N hours), every_n_days, weekly, prn (as needed) and taper. Entries saved before
+  this change keep `timing` and are read as a daily frequency.
+
+  ## Changes
+
+  ### 1. `medication_logs`
+  - `is_prn` (boolean) - Dose logged on demand by the patient for an as-needed medication.
+    PRN doses are never pre-scheduled, so they are excluded from adherence.
+*/
+
+ALTER TABLE medication_logs
+  ADD COLUMN IF NOT EXISTS is_prn boolean NOT NULL DEFAULT false;
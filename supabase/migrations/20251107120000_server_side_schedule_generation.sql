@@ -0,0 +1,89 @@
+/*
+  # Server-side schedule generation
+
+  ## Overview
+  Medication logs used to be expanded and inserted from the browser, so closing the tab
+  mid-save left a prescription with a partial schedule. The Node backend now expands the
+  schedule and hands the rows to `replace_future_medication_logs`, which swaps them in
+  within a single transaction.
+
+  ## Changes
+
+  ### 1. `profiles`
+  - `timezone` (text, optional) - IANA time zone the patient's dose times are expressed in;
+    set when the patient saves their profile
+
+  ### 2. `medication_logs`
+  - `medication_id`, `medication_name`, `dosage` (text) - Which entry of
+    `prescriptions.medications` the dose belongs to (already written by the app)
+  - Unique index on (prescription_id, medication_id, scheduled_time) for scheduled doses,
+    so regenerating a schedule never duplicates a dose
+
+  ### 3. `replace_future_medication_logs(prescription_id, from, logs)`
+  - Deletes the prescription's pending scheduled doses at or after `from` (all of them when
+    `from` is null) and inserts the given rows from that point on
+  - Past and already-answered doses are never touched, so calling it twice is a no-op
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS timezone text;
+
+ALTER TABLE medication_logs
+  ADD COLUMN IF NOT EXISTS medication_id text,
+  ADD COLUMN IF NOT EXISTS medication_name text,
+  ADD COLUMN IF NOT EXISTS dosage text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_medication_logs_schedule_unique
+  ON medication_logs(prescription_id, medication_id, scheduled_time)
+  WHERE NOT is_prn;
+
+CREATE OR REPLACE FUNCTION replace_future_medication_logs(
+  p_prescription_id uuid,
+  p_from timestamptz,
+  p_logs jsonb
+)
+RETURNS TABLE (removed integer, inserted integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_from timestamptz := COALESCE(p_from, '-infinity'::timestamptz);
+  v_removed integer;
+  v_inserted integer;
+BEGIN
+  -- Serialize concurrent regenerations of the same prescription
+  PERFORM 1 FROM prescriptions WHERE id = p_prescription_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prescription % not found', p_prescription_id;
+  END IF;
+
+  DELETE FROM medication_logs
+  WHERE prescription_id = p_prescription_id
+    AND status = 'pending'
+    AND NOT is_prn
+    AND scheduled_time >= v_from;
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  INSERT INTO medication_logs (
+    prescription_id, patient_id, medication_id, medication_name, dosage,
+    scheduled_time, dose_slot, status
+  )
+  SELECT
+    p_prescription_id,
+    (log->>'patient_id')::uuid,
+    log->>'medication_id',
+    log->>'medication_name',
+    log->>'dosage',
+    (log->>'scheduled_time')::timestamptz,
+    log->>'dose_slot',
+    'pending'
+  FROM jsonb_array_elements(p_logs) AS log
+  WHERE (log->>'scheduled_time')::timestamptz >= v_from
+  ON CONFLICT (prescription_id, medication_id, scheduled_time) WHERE NOT is_prn DO NOTHING;
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  RETURN QUERY SELECT v_removed, v_inserted;
+END;
+$$;
+
+-- Only the backend (service role) regenerates schedules
+REVOKE EXECUTE ON FUNCTION replace_future_medication_logs(uuid, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,117 @@
+/*
+  # Versioned prescription history
+
+  ## Overview
+  Doctors can now edit a prescription (dose, frequency, dates, diagnosis). Every saved
+  change is kept as a numbered version so earlier versions stay viewable and can be diffed.
+
+  ## Changes
+
+  ### 1. `prescriptions`
+  - `medications` (jsonb) - The prescription set's medications (already written by the app)
+  - `version` (integer) - Current version number, bumped whenever content changes
+
+  ### 2. `prescription_versions`
+  Immutable snapshot of a prescription's content at each version
+  - `id` (uuid, primary key)
+  - `prescription_id` (uuid) - References prescriptions
+  - `version` (integer) - Version number, unique per prescription
+  - `diagnosis`, `start_date`, `end_date`, `medications` - Snapshot of the content
+  - `created_by` (uuid) - Who saved this version
+  - `created_at` (timestamptz)
+
+  ## Triggers
+  - BEFORE UPDATE on prescriptions bumps `version` when content changes
+  - AFTER INSERT/UPDATE on prescriptions writes the snapshot row
+
+  ## Security
+  - Doctors can view versions of prescriptions they created, patients of their own
+  - Rows are only written by the trigger
+*/
+
+ALTER TABLE prescriptions
+  ADD COLUMN IF NOT EXISTS medications jsonb NOT NULL DEFAULT '[]'::jsonb,
+  ADD COLUMN IF NOT EXISTS version integer NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS prescription_versions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  prescription_id uuid NOT NULL REFERENCES prescriptions(id) ON DELETE CASCADE,
+  version integer NOT NULL,
+  diagnosis text,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  medications jsonb NOT NULL,
+  created_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(prescription_id, version)
+);
+
+CREATE INDEX IF NOT EXISTS idx_prescription_versions_prescription ON prescription_versions(prescription_id, version);
+
+-- Existing prescriptions start at version 1
+INSERT INTO prescription_versions (prescription_id, version, diagnosis, start_date, end_date, medications, created_by, created_at)
+SELECT id, version, diagnosis, start_date, end_date, medications, doctor_id, created_at
+FROM prescriptions
+ON CONFLICT (prescription_id, version) DO NOTHING;
+
+ALTER TABLE prescription_versions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view versions of their prescriptions"
+  ON prescription_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM prescriptions
+      WHERE prescriptions.id = prescription_versions.prescription_id
+      AND prescriptions.doctor_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Patients can view versions of own prescriptions"
+  ON prescription_versions FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM prescriptions
+      WHERE prescriptions.id = prescription_versions.prescription_id
+      AND prescriptions.patient_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION bump_prescription_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.diagnosis IS DISTINCT FROM OLD.diagnosis
+    OR NEW.start_date IS DISTINCT FROM OLD.start_date
+    OR NEW.end_date IS DISTINCT FROM OLD.end_date
+    OR NEW.medications IS DISTINCT FROM OLD.medications THEN
+    NEW.version = OLD.version + 1;
+  ELSE
+    NEW.version = OLD.version;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION snapshot_prescription_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO prescription_versions (prescription_id, version, diagnosis, start_date, end_date, medications, created_by)
+  VALUES (NEW.id, NEW.version, NEW.diagnosis, NEW.start_date, NEW.end_date, NEW.medications, COALESCE(auth.uid(), NEW.doctor_id));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER bump_prescriptions_version
+  BEFORE UPDATE ON prescriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION bump_prescription_version();
+
+CREATE TRIGGER snapshot_prescriptions_version
+  AFTER INSERT OR UPDATE ON prescriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION snapshot_prescription_version();
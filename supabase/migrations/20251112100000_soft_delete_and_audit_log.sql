@@ -0,0 +1,220 @@
+/*
+  # Soft delete and audit trail
+
+  ## Overview
+  Deleting a prescription used to remove it (and, by cascade, its adherence history) for
+  good. Prescriptions are now soft-deleted, and every change to prescriptions and
+  medication logs is recorded in an append-only audit log.
+
+  ## Changes
+
+  ### 1. `prescriptions`
+  - `deleted_at` (timestamptz, optional) - When the prescription was deleted
+  - `deleted_by` (uuid, optional) - Who deleted it
+  - The hard-delete policy is dropped, so clients can no longer DELETE prescriptions
+
+  ### 2. `audit_log`
+  Append-only record of changes
+  - `id` (uuid, primary key)
+  - `entity_type` (text) - 'prescription' or 'medication_log'
+  - `entity_id` (uuid) - The changed row
+  - `action` (text) - 'created', 'edited', 'status_changed', 'deleted' or 'schedule_regenerated'
+  - `actor_id` (uuid, optional) - Who made the change (null when made by the system)
+  - `actor_type` (text) - 'user' or 'system'
+  - `prescription_id`, `doctor_id`, `patient_id` (uuid) - For filtering and access control
+  - `details` (jsonb) - Action specific data, e.g. {"from": "active", "to": "cancelled"}
+  - `created_at` (timestamptz)
+
+  ## Triggers
+  - prescriptions: created / edited (new version) / status_changed / deleted
+  - medication_logs: created / status_changed / edited / deleted. Bulk schedule
+    regeneration is recorded once per call as 'schedule_regenerated' instead of per row.
+
+  ## Security
+  - Only SELECT policies exist on `audit_log`; rows are written by SECURITY DEFINER triggers
+    and cannot be updated or deleted by clients
+  - Doctors see entries for their prescriptions, patients see entries about themselves
+*/
+
+ALTER TABLE prescriptions
+  ADD COLUMN IF NOT EXISTS deleted_at timestamptz,
+  ADD COLUMN IF NOT EXISTS deleted_by uuid REFERENCES profiles(id) ON DELETE SET NULL;
+
+DROP POLICY IF EXISTS "Doctors can delete their own prescriptions" ON prescriptions;
+
+CREATE TABLE IF NOT EXISTS audit_log (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  entity_type text NOT NULL CHECK (entity_type IN ('prescription', 'medication_log')),
+  entity_id uuid NOT NULL,
+  action text NOT NULL CHECK (action IN ('created', 'edited', 'status_changed', 'deleted', 'schedule_regenerated')),
+  actor_id uuid,
+  actor_type text NOT NULL DEFAULT 'user' CHECK (actor_type IN ('user', 'system')),
+  prescription_id uuid,
+  doctor_id uuid,
+  patient_id uuid,
+  details jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_log_doctor ON audit_log(doctor_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_patient ON audit_log(patient_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_log_entity ON audit_log(entity_type, entity_id);
+
+ALTER TABLE audit_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view audit entries for their prescriptions"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (doctor_id = auth.uid());
+
+CREATE POLICY "Patients can view audit entries about themselves"
+  ON audit_log FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+REVOKE INSERT, UPDATE, DELETE ON audit_log FROM anon, authenticated;
+
+-- Helper used by the triggers below
+CREATE OR REPLACE FUNCTION write_audit_entry(
+  p_entity_type text,
+  p_entity_id uuid,
+  p_action text,
+  p_prescription_id uuid,
+  p_doctor_id uuid,
+  p_patient_id uuid,
+  p_details jsonb
+)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO audit_log (entity_type, entity_id, action, actor_id, actor_type, prescription_id, doctor_id, patient_id, details)
+  VALUES (
+    p_entity_type, p_entity_id, p_action,
+    auth.uid(),
+    CASE WHEN auth.uid() IS NULL THEN 'system' ELSE 'user' END,
+    p_prescription_id, p_doctor_id, p_patient_id,
+    COALESCE(p_details, '{}'::jsonb)
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION write_audit_entry(text, uuid, text, uuid, uuid, uuid, jsonb) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION audit_prescription_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM write_audit_entry('prescription', NEW.id, 'created', NEW.id, NEW.doctor_id, NEW.patient_id,
+      jsonb_build_object('version', NEW.version));
+  ELSIF NEW.deleted_at IS NOT NULL AND OLD.deleted_at IS NULL THEN
+    PERFORM write_audit_entry('prescription', NEW.id, 'deleted', NEW.id, NEW.doctor_id, NEW.patient_id, '{}'::jsonb);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM write_audit_entry('prescription', NEW.id, 'status_changed', NEW.id, NEW.doctor_id, NEW.patient_id,
+      jsonb_build_object('from', OLD.status, 'to', NEW.status));
+  ELSIF NEW.version IS DISTINCT FROM OLD.version THEN
+    PERFORM write_audit_entry('prescription', NEW.id, 'edited', NEW.id, NEW.doctor_id, NEW.patient_id,
+      jsonb_build_object('from_version', OLD.version, 'to_version', NEW.version));
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_prescriptions
+  AFTER INSERT OR UPDATE ON prescriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_prescription_change();
+
+CREATE OR REPLACE FUNCTION audit_medication_log_change()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_row medication_logs%ROWTYPE;
+  v_doctor_id uuid;
+BEGIN
+  -- Bulk schedule regeneration records a single summary entry instead
+  IF current_setting('app.audit_skip_medication_logs', true) = 'on' THEN
+    RETURN NULL;
+  END IF;
+
+  v_row := CASE WHEN TG_OP = 'DELETE' THEN OLD ELSE NEW END;
+  SELECT doctor_id INTO v_doctor_id FROM prescriptions WHERE id = v_row.prescription_id;
+
+  IF TG_OP = 'INSERT' THEN
+    PERFORM write_audit_entry('medication_log', NEW.id, 'created', NEW.prescription_id, v_doctor_id, NEW.patient_id,
+      jsonb_build_object('status', NEW.status, 'medication_name', NEW.medication_name, 'scheduled_time', NEW.scheduled_time));
+  ELSIF TG_OP = 'DELETE' THEN
+    PERFORM write_audit_entry('medication_log', OLD.id, 'deleted', OLD.prescription_id, v_doctor_id, OLD.patient_id,
+      jsonb_build_object('status', OLD.status, 'medication_name', OLD.medication_name, 'scheduled_time', OLD.scheduled_time));
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    PERFORM write_audit_entry('medication_log', NEW.id, 'status_changed', NEW.prescription_id, v_doctor_id, NEW.patient_id,
+      jsonb_build_object('from', OLD.status, 'to', NEW.status, 'medication_name', NEW.medication_name, 'scheduled_time', NEW.scheduled_time));
+  ELSIF ROW(NEW.*) IS DISTINCT FROM ROW(OLD.*) THEN
+    PERFORM write_audit_entry('medication_log', NEW.id, 'edited', NEW.prescription_id, v_doctor_id, NEW.patient_id,
+      jsonb_build_object('medication_name', NEW.medication_name, 'scheduled_time', NEW.scheduled_time));
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER audit_medication_logs
+  AFTER INSERT OR UPDATE OR DELETE ON medication_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION audit_medication_log_change();
+
+-- Regeneration now writes one summary audit entry and skips the per-row ones
+CREATE OR REPLACE FUNCTION replace_future_medication_logs(
+  p_prescription_id uuid,
+  p_from timestamptz,
+  p_logs jsonb
+)
+RETURNS TABLE (removed integer, inserted integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_from timestamptz := COALESCE(p_from, '-infinity'::timestamptz);
+  v_prescription prescriptions%ROWTYPE;
+  v_removed integer;
+  v_inserted integer;
+BEGIN
+  -- Serialize concurrent regenerations of the same prescription
+  SELECT * INTO v_prescription FROM prescriptions WHERE id = p_prescription_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prescription % not found', p_prescription_id;
+  END IF;
+
+  PERFORM set_config('app.audit_skip_medication_logs', 'on', true);
+
+  DELETE FROM medication_logs
+  WHERE prescription_id = p_prescription_id
+    AND status = 'pending'
+    AND NOT is_prn
+    AND scheduled_time >= v_from;
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  INSERT INTO medication_logs (
+    prescription_id, patient_id, medication_id, medication_name, dosage,
+    scheduled_time, dose_slot, status
+  )
+  SELECT
+    p_prescription_id,
+    (log->>'patient_id')::uuid,
+    log->>'medication_id',
+    log->>'medication_name',
+    log->>'dosage',
+    (log->>'scheduled_time')::timestamptz,
+    log->>'dose_slot',
+    'pending'
+  FROM jsonb_array_elements(p_logs) AS log
+  WHERE (log->>'scheduled_time')::timestamptz >= v_from
+  ON CONFLICT (prescription_id, medication_id, scheduled_time) WHERE NOT is_prn DO NOTHING;
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  PERFORM set_config('app.audit_skip_medication_logs', 'off', true);
+
+  IF v_removed > 0 OR v_inserted > 0 THEN
+    PERFORM write_audit_entry('prescription', p_prescription_id, 'schedule_regenerated', p_prescription_id,
+      v_prescription.doctor_id, v_prescription.patient_id,
+      jsonb_build_object('removed', v_removed, 'inserted', v_inserted, 'from', p_from));
+  END IF;
+
+  RETURN QUERY SELECT v_removed, v_inserted;
+END;
+$$;
@@ -0,0 +1,44 @@
+/*
+  # Persist AI safety-check results
+
+  ## Overview
+  The /run-safety-check result used to live only in the review screen's state. It is now
+  stored with the prescription so doctors can revisit it and patients can see a
+  plain-language summary.
+
+  ## Changes
+
+  ### 1. `prescriptions`
+  - `safety_check` (jsonb, optional) - The check the prescription was saved against:
+    status ('completed' | 'error' | 'not_run'), overall_assessment, flags, model,
+    checked_at, the exact payload sent, and `override` {reason, by, at} when the doctor
+    saved despite a Caution/High-Risk verdict
+
+  ### 2. `prescription_versions`
+  - `safety_check` (jsonb, optional) - The check each version was saved against
+*/
+
+ALTER TABLE prescriptions
+  ADD COLUMN IF NOT EXISTS safety_check jsonb;
+
+ALTER TABLE prescription_versions
+  ADD COLUMN IF NOT EXISTS safety_check jsonb;
+
+UPDATE prescription_versions
+SET safety_check = prescriptions.safety_check
+FROM prescriptions
+WHERE prescriptions.id = prescription_versions.prescription_id
+  AND prescriptions.version = prescription_versions.version;
+
+CREATE OR REPLACE FUNCTION snapshot_prescription_version()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.version = OLD.version THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO prescription_versions (prescription_id, version, diagnosis, start_date, end_date, medications, safety_check, created_by)
+  VALUES (NEW.id, NEW.version, NEW.diagnosis, NEW.start_date, NEW.end_date, NEW.medications, NEW.safety_check, COALESCE(auth.uid(), NEW.doctor_id));
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
@@ -0,0 +1,94 @@
+/*
+  # Safety-check save policy
+
+  ## Overview
+  A prescription could be saved as active whatever the AI safety check said, or without
+  running the check at all. Saving now follows a policy:
+  - High-Risk verdict: every flag must be acknowledged and a written justification given
+  - Caution verdict: every flag must be acknowledged
+  - Optionally (practice setting), a completed check is required before a prescription
+    can become active
+
+  ## Changes
+
+  ### 1. `practice_settings`
+  Single-row table of practice-wide settings
+  - `id` (boolean, primary key, always true) - Keeps the table to one row
+  - `require_safety_check` (boolean, default false) - Block activation without a completed check
+  - `updated_at` (timestamptz)
+  - `updated_by` (uuid, optional) - Doctor who last changed the settings
+
+  ### 2. `prescriptions`
+  - BEFORE INSERT/UPDATE trigger `enforce_safety_check_policy` rejects rows that become
+    active (or have their content edited while active) without satisfying the policy.
+    The acknowledgement and justification are read from `safety_check.override`.
+
+  ## Security
+  - All signed-in users can read the settings; only doctors can change them
+*/
+
+CREATE TABLE IF NOT EXISTS practice_settings (
+  id boolean PRIMARY KEY DEFAULT true CHECK (id),
+  require_safety_check boolean NOT NULL DEFAULT false,
+  updated_at timestamptz DEFAULT now(),
+  updated_by uuid REFERENCES profiles(id) ON DELETE SET NULL
+);
+
+INSERT INTO practice_settings (id) VALUES (true) ON CONFLICT (id) DO NOTHING;
+
+ALTER TABLE practice_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view practice settings"
+  ON practice_settings FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE POLICY "Doctors can update practice settings"
+  ON practice_settings FOR UPDATE
+  TO authenticated
+  USING (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'doctor'))
+  WITH CHECK (EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'doctor'));
+
+CREATE OR REPLACE FUNCTION enforce_safety_check_policy()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_require boolean;
+  v_check jsonb := NEW.safety_check;
+  v_assessment text := lower(COALESCE(NEW.safety_check->>'overall_assessment', ''));
+  v_flag_count int := COALESCE(jsonb_array_length(NEW.safety_check->'flags'), 0);
+  v_ack_count int := COALESCE(jsonb_array_length(NEW.safety_check->'override'->'acknowledged_flags'), 0);
+BEGIN
+  IF NEW.status <> 'active' OR NEW.deleted_at IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+  -- Only check when the row becomes active or its content changes, not on soft delete etc.
+  IF TG_OP = 'UPDATE' AND OLD.status = 'active'
+     AND NEW.medications IS NOT DISTINCT FROM OLD.medications
+     AND NEW.safety_check IS NOT DISTINCT FROM OLD.safety_check THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT require_safety_check INTO v_require FROM practice_settings WHERE id;
+
+  IF COALESCE(v_require, false) AND (v_check IS NULL OR v_check->>'status' IS DISTINCT FROM 'completed') THEN
+    RAISE EXCEPTION 'A completed AI safety check is required before a prescription can be active';
+  END IF;
+
+  IF v_check->>'status' = 'completed' AND v_assessment IN ('caution', 'high-risk') THEN
+    IF v_ack_count < v_flag_count THEN
+      RAISE EXCEPTION 'Every safety-check flag must be acknowledged before saving';
+    END IF;
+    IF v_assessment = 'high-risk' AND btrim(COALESCE(v_check->'override'->>'reason', '')) = '' THEN
+      RAISE EXCEPTION 'A written justification is required to save a High-Risk prescription';
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_safety_check_policy ON prescriptions;
+CREATE TRIGGER enforce_safety_check_policy
+  BEFORE INSERT OR UPDATE ON prescriptions
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_safety_check_policy();
@@ -0,0 +1,57 @@
+/*
+  # Patient active medications for the safety check
+
+  ## Overview
+  The AI safety check only knew about the new prescription and the patient's free-text
+  "ongoing medications". Doctors can only read prescriptions they wrote, so drugs that
+  another doctor prescribed were invisible to the interaction checks. This function returns
+  every medication the patient currently takes on an active prescription, whoever wrote it.
+
+  ## Changes
+
+  ### 1. `get_patient_active_medications(patient_id)`
+  One row per medication on the patient's active, non-deleted prescriptions that have not
+  ended yet:
+  - `prescription_id` (uuid)
+  - `doctor_id` (uuid) - Prescribing doctor
+  - `doctor_name` (text, optional) - Prescribing doctor's full name
+  - `medication` (jsonb) - The entry of `prescriptions.medications`
+
+  ## Security
+  - SECURITY DEFINER so other doctors' prescriptions can be read, but only by the patient
+    themselves or a doctor with an active relationship to the patient
+  - Only the medications are exposed, not diagnoses or safety-check notes
+*/
+
+CREATE OR REPLACE FUNCTION get_patient_active_medications(p_patient_id uuid)
+RETURNS TABLE (prescription_id uuid, doctor_id uuid, doctor_name text, medication jsonb)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS DISTINCT FROM p_patient_id AND NOT EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid()
+      AND r.patient_id = p_patient_id
+      AND r.status = 'active'
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to view this patient''s medications';
+  END IF;
+
+  RETURN QUERY
+  SELECT p.id, p.doctor_id, d.full_name, med
+  FROM prescriptions p
+  LEFT JOIN profiles d ON d.id = p.doctor_id
+  CROSS JOIN LATERAL jsonb_array_elements(p.medications) AS med
+  WHERE p.patient_id = p_patient_id
+    AND p.status = 'active'
+    AND p.deleted_at IS NULL
+    AND p.end_date >= current_date
+  ORDER BY p.created_at, med->>'name';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_patient_active_medications(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_patient_active_medications(uuid) TO authenticated;
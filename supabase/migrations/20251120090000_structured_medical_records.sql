@@ -0,0 +1,282 @@
+/*
+  # Structured allergy, condition and medication records
+
+  ## Overview
+  A patient's medical history was a free-text `{complication, description}` array in
+  `profiles.medical_history`, and their own medications a free-text
+  `profiles.ongoing_medications`. The safety check had to guess which entries were
+  allergies. They are now separate typed records that patients and their doctors edit.
+
+  ## Changes
+
+  ### 1. `patient_allergies`
+  - `id` (uuid, primary key)
+  - `patient_id` (uuid) - References profiles
+  - `substance` (text) - e.g. "Penicillin"
+  - `reaction` (text) - e.g. "Hives"
+  - `severity` (text) - 'mild', 'moderate', 'severe' or 'unknown'
+  - `verified_by` (uuid, optional) - Doctor who confirmed the allergy
+  - `verified_at` (timestamptz, optional)
+  - `created_at` (timestamptz)
+
+  ### 2. `patient_conditions`
+  Chronic conditions
+  - `id`, `patient_id`, `created_at`
+  - `name` (text)
+  - `onset_date` (date, optional)
+  - `notes` (text)
+
+  ### 3. `patient_reported_medications`
+  Medications the patient takes that are not prescribed in this app
+  - `id`, `patient_id`, `created_at`
+  - `name`, `dosage`, `frequency` (text)
+
+  ### 4. Migration of existing data
+  - `import_legacy_medical_history(patient_id, history, medications)` converts the old
+    free-text fields: history entries mentioning an allergy become allergies (severity
+    'unknown', unverified), the others conditions; the medication text is split on commas,
+    semicolons and new lines
+  - Every patient without structured records yet is converted once
+  - `profiles.medical_history` and `profiles.ongoing_medications` are kept unchanged so the
+    conversion can be rerun or inspected, but the app no longer writes them
+  - New profiles are filled from the `allergies`, `conditions` and `reported_medications`
+    sign-up metadata (or the legacy fields, from older clients)
+
+  ## Security
+  - Patients manage their own records; doctors manage the records of their active patients
+  - Only a doctor can mark an allergy verified, and only as themselves. A patient editing a
+    verified allergy's substance, reaction or severity clears the verification.
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS medical_history jsonb,
+  ADD COLUMN IF NOT EXISTS ongoing_medications text;
+
+CREATE TABLE IF NOT EXISTS patient_allergies (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  substance text NOT NULL CHECK (btrim(substance) <> ''),
+  reaction text NOT NULL DEFAULT '',
+  severity text NOT NULL DEFAULT 'unknown' CHECK (severity IN ('mild', 'moderate', 'severe', 'unknown')),
+  verified_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  verified_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS patient_conditions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  onset_date date,
+  notes text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS patient_reported_medications (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  dosage text NOT NULL DEFAULT '',
+  frequency text NOT NULL DEFAULT '',
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_patient_allergies_patient ON patient_allergies(patient_id);
+CREATE INDEX IF NOT EXISTS idx_patient_conditions_patient ON patient_conditions(patient_id);
+CREATE INDEX IF NOT EXISTS idx_patient_reported_medications_patient ON patient_reported_medications(patient_id);
+
+ALTER TABLE patient_allergies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_conditions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE patient_reported_medications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients manage own allergies"
+  ON patient_allergies FOR ALL
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Doctors manage their patients' allergies"
+  ON patient_allergies FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = patient_allergies.patient_id AND r.status = 'active'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = patient_allergies.patient_id AND r.status = 'active'
+  ));
+
+CREATE POLICY "Patients manage own conditions"
+  ON patient_conditions FOR ALL
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Doctors manage their patients' conditions"
+  ON patient_conditions FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = patient_conditions.patient_id AND r.status = 'active'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = patient_conditions.patient_id AND r.status = 'active'
+  ));
+
+CREATE POLICY "Patients manage own reported medications"
+  ON patient_reported_medications FOR ALL
+  TO authenticated
+  USING (patient_id = auth.uid())
+  WITH CHECK (patient_id = auth.uid());
+
+CREATE POLICY "Doctors manage their patients' reported medications"
+  ON patient_reported_medications FOR ALL
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = patient_reported_medications.patient_id AND r.status = 'active'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = patient_reported_medications.patient_id AND r.status = 'active'
+  ));
+
+-- Verification can only be given by a doctor, as themselves
+CREATE OR REPLACE FUNCTION guard_allergy_verification()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_is_doctor boolean := EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'doctor');
+BEGIN
+  -- Service-role imports (no signed-in user) are left alone
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.verified_by IS NOT NULL AND (TG_OP = 'INSERT' OR NEW.verified_by IS DISTINCT FROM OLD.verified_by) THEN
+    IF NOT v_is_doctor OR NEW.verified_by <> auth.uid() THEN
+      RAISE EXCEPTION 'Only a doctor can verify an allergy, as themselves';
+    END IF;
+    NEW.verified_at := now();
+  ELSIF NEW.verified_by IS NULL THEN
+    NEW.verified_at := NULL;
+  ELSIF NOT v_is_doctor AND (
+    NEW.substance IS DISTINCT FROM OLD.substance OR
+    NEW.reaction IS DISTINCT FROM OLD.reaction OR
+    NEW.severity IS DISTINCT FROM OLD.severity
+  ) THEN
+    NEW.verified_by := NULL;
+    NEW.verified_at := NULL;
+  ELSE
+    NEW.verified_at := OLD.verified_at;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+DROP TRIGGER IF EXISTS guard_allergy_verification ON patient_allergies;
+CREATE TRIGGER guard_allergy_verification
+  BEFORE INSERT OR UPDATE ON patient_allergies
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_allergy_verification();
+
+-- Converts the free-text fields of one patient into structured records
+CREATE OR REPLACE FUNCTION import_legacy_medical_history(
+  p_patient_id uuid,
+  p_history jsonb,
+  p_medications text
+)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF jsonb_typeof(p_history) = 'array' THEN
+    INSERT INTO patient_allergies (patient_id, substance, reaction)
+    SELECT
+      p_patient_id,
+      -- "Penicillin allergy" -> "Penicillin"; keep the text as-is if nothing else is left
+      COALESCE(
+        NULLIF(btrim(regexp_replace(item->>'complication', '\s*\m(allergy|allergies|allergic)\M(\s+to)?\s*', ' ', 'gi')), ''),
+        btrim(item->>'complication')
+      ),
+      COALESCE(btrim(item->>'description'), '')
+    FROM jsonb_array_elements(p_history) AS item
+    WHERE btrim(COALESCE(item->>'complication', '')) <> ''
+      AND concat(item->>'complication', ' ', item->>'description') ~* 'allerg';
+
+    INSERT INTO patient_conditions (patient_id, name, notes)
+    SELECT p_patient_id, btrim(item->>'complication'), COALESCE(btrim(item->>'description'), '')
+    FROM jsonb_array_elements(p_history) AS item
+    WHERE btrim(COALESCE(item->>'complication', '')) <> ''
+      AND concat(item->>'complication', ' ', item->>'description') !~* 'allerg';
+  END IF;
+
+  INSERT INTO patient_reported_medications (patient_id, name)
+  SELECT p_patient_id, btrim(entry)
+  FROM regexp_split_to_table(COALESCE(p_medications, ''), '[,;\n]+') AS entry
+  WHERE btrim(entry) <> '' AND btrim(entry) !~* '^(none|n/a|-)$';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION import_legacy_medical_history(uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
+
+-- One-off conversion of existing patients
+SELECT import_legacy_medical_history(p.id, p.medical_history, p.ongoing_medications)
+FROM profiles p
+WHERE p.role = 'patient'
+  AND NOT EXISTS (SELECT 1 FROM patient_allergies WHERE patient_id = p.id)
+  AND NOT EXISTS (SELECT 1 FROM patient_conditions WHERE patient_id = p.id)
+  AND NOT EXISTS (SELECT 1 FROM patient_reported_medications WHERE patient_id = p.id);
+
+-- New patients: records entered on the sign-up form arrive as user metadata
+CREATE OR REPLACE FUNCTION import_signup_medical_records()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meta jsonb;
+BEGIN
+  IF NEW.role <> 'patient' THEN
+    RETURN NEW;
+  END IF;
+  SELECT raw_user_meta_data INTO v_meta FROM auth.users WHERE id = NEW.id;
+
+  IF jsonb_typeof(v_meta->'allergies') = 'array' THEN
+    INSERT INTO patient_allergies (patient_id, substance, reaction, severity)
+    SELECT NEW.id, btrim(item->>'substance'), COALESCE(item->>'reaction', ''),
+      CASE WHEN item->>'severity' IN ('mild', 'moderate', 'severe') THEN item->>'severity' ELSE 'unknown' END
+    FROM jsonb_array_elements(v_meta->'allergies') AS item
+    WHERE btrim(COALESCE(item->>'substance', '')) <> '';
+  END IF;
+
+  IF jsonb_typeof(v_meta->'conditions') = 'array' THEN
+    INSERT INTO patient_conditions (patient_id, name, onset_date, notes)
+    SELECT NEW.id, btrim(item->>'name'), NULLIF(item->>'onset_date', '')::date, COALESCE(item->>'notes', '')
+    FROM jsonb_array_elements(v_meta->'conditions') AS item
+    WHERE btrim(COALESCE(item->>'name', '')) <> '';
+  END IF;
+
+  IF jsonb_typeof(v_meta->'reported_medications') = 'array' THEN
+    INSERT INTO patient_reported_medications (patient_id, name, dosage, frequency)
+    SELECT NEW.id, btrim(item->>'name'), COALESCE(item->>'dosage', ''), COALESCE(item->>'frequency', '')
+    FROM jsonb_array_elements(v_meta->'reported_medications') AS item
+    WHERE btrim(COALESCE(item->>'name', '')) <> '';
+  END IF;
+
+  -- Older clients still send the free-text fields
+  PERFORM import_legacy_medical_history(NEW.id, NEW.medical_history, NEW.ongoing_medications);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS import_signup_medical_records ON profiles;
+CREATE TRIGGER import_signup_medical_records
+  AFTER INSERT ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION import_signup_medical_records();
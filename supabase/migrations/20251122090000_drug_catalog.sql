@@ -0,0 +1,193 @@
+/*
+  # Drug catalog
+
+  ## Overview
+  Medication names and dosages were typed as free text, so misspellings such as
+  "amoxicilin 500 mg" reached the safety check and reports. Prescribers now pick products
+  from a searchable catalog; free text is still accepted for anything not listed.
+
+  ## Changes
+
+  ### 1. `drug_catalog`
+  One row per product (generic + strength + form + route)
+  - `id` (uuid, primary key)
+  - `generic_name` (text) - e.g. "Amoxicillin"
+  - `brand_names` (text[]) - e.g. {"Amoxil"}
+  - `strength` (text) - e.g. "500 mg", "250 mg/5 mL"
+  - `form` (text) - e.g. "capsule", "oral suspension"
+  - `route` (text) - e.g. "oral", "topical"
+  - `created_at` (timestamptz)
+  Seeded below with a starter set of common generic products and their widely used brand
+  names (public reference information); more rows can be added with further migrations.
+
+  ### 2. `search_drug_catalog(query, limit)`
+  Matches generic or brand names by substring, and generic names by trigram similarity so
+  misspellings still find the drug. A number in the query ("amox 500") ranks matching
+  strengths first.
+
+  ### 3. `prescriptions.medications`
+  - Each medication may carry `catalog_id` (the `drug_catalog` row it was picked from);
+    it is absent for free-text entries. No column change is needed (jsonb).
+
+  ## Security
+  - All signed-in users can read the catalog; it is only changed through migrations
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm WITH SCHEMA extensions;
+
+CREATE TABLE IF NOT EXISTS drug_catalog (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  generic_name text NOT NULL,
+  brand_names text[] NOT NULL DEFAULT '{}',
+  strength text NOT NULL,
+  form text NOT NULL,
+  route text NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (generic_name, strength, form, route)
+);
+
+CREATE INDEX IF NOT EXISTS idx_drug_catalog_generic_trgm
+  ON drug_catalog USING gin (lower(generic_name) extensions.gin_trgm_ops);
+
+ALTER TABLE drug_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view the drug catalog"
+  ON drug_catalog FOR SELECT
+  TO authenticated
+  USING (true);
+
+CREATE OR REPLACE FUNCTION search_drug_catalog(p_query text, p_limit integer DEFAULT 10)
+RETURNS SETOF drug_catalog
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH q AS (
+    SELECT
+      -- "amoxicilin 500 mg" -> name "amoxicilin", strength "500"
+      lower(btrim(regexp_replace(p_query, '\s*\d.*$', ''))) AS name,
+      substring(p_query FROM '\d+(?:\.\d+)?') AS strength
+  )
+  SELECT c.*
+  FROM drug_catalog c, q
+  WHERE length(q.name) >= 2
+    AND (
+      lower(c.generic_name) LIKE '%' || q.name || '%'
+      OR EXISTS (SELECT 1 FROM unnest(c.brand_names) AS brand WHERE lower(brand) LIKE '%' || q.name || '%')
+      OR similarity(lower(c.generic_name), q.name) > 0.3
+    )
+  ORDER BY
+    (lower(c.generic_name) LIKE q.name || '%') DESC,
+    (q.strength IS NOT NULL AND c.strength ~ ('(^|\D)' || replace(q.strength, '.', '\.') || '(\D|$)')) DESC,
+    similarity(lower(c.generic_name), q.name) DESC,
+    c.generic_name,
+    c.strength
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+$$;
+
+INSERT INTO drug_catalog (generic_name, brand_names, strength, form, route) VALUES
+  ('Amoxicillin', ARRAY['Amoxil', 'Mox']::text[], '250 mg', 'capsule', 'oral'),
+  ('Amoxicillin', ARRAY['Amoxil', 'Mox']::text[], '500 mg', 'capsule', 'oral'),
+  ('Amoxicillin', ARRAY['Amoxil']::text[], '875 mg', 'tablet', 'oral'),
+  ('Amoxicillin', ARRAY['Amoxil']::text[], '250 mg/5 mL', 'oral suspension', 'oral'),
+  ('Amoxicillin and clavulanate', ARRAY['Augmentin', 'Clavam']::text[], '500 mg/125 mg', 'tablet', 'oral'),
+  ('Amoxicillin and clavulanate', ARRAY['Augmentin', 'Clavam']::text[], '875 mg/125 mg', 'tablet', 'oral'),
+  ('Azithromycin', ARRAY['Zithromax', 'Azee']::text[], '250 mg', 'tablet', 'oral'),
+  ('Azithromycin', ARRAY['Zithromax', 'Azee']::text[], '500 mg', 'tablet', 'oral'),
+  ('Azithromycin', ARRAY['Zithromax']::text[], '200 mg/5 mL', 'oral suspension', 'oral'),
+  ('Cephalexin', ARRAY['Keflex']::text[], '500 mg', 'capsule', 'oral'),
+  ('Ciprofloxacin', ARRAY['Cipro', 'Ciplox']::text[], '500 mg', 'tablet', 'oral'),
+  ('Clarithromycin', ARRAY['Biaxin']::text[], '500 mg', 'tablet', 'oral'),
+  ('Doxycycline', ARRAY['Vibramycin']::text[], '100 mg', 'capsule', 'oral'),
+  ('Metronidazole', ARRAY['Flagyl']::text[], '400 mg', 'tablet', 'oral'),
+  ('Metronidazole', ARRAY['Flagyl']::text[], '500 mg', 'tablet', 'oral'),
+  ('Nitrofurantoin', ARRAY['Macrobid']::text[], '100 mg', 'capsule', 'oral'),
+  ('Sulfamethoxazole and trimethoprim', ARRAY['Bactrim', 'Septran']::text[], '800 mg/160 mg', 'tablet', 'oral'),
+  ('Fluconazole', ARRAY['Diflucan']::text[], '150 mg', 'capsule', 'oral'),
+  ('Acyclovir', ARRAY['Zovirax']::text[], '400 mg', 'tablet', 'oral'),
+  ('Paracetamol', ARRAY['Tylenol', 'Crocin', 'Dolo', 'Calpol']::text[], '500 mg', 'tablet', 'oral'),
+  ('Paracetamol', ARRAY['Dolo']::text[], '650 mg', 'tablet', 'oral'),
+  ('Paracetamol', ARRAY['Calpol']::text[], '120 mg/5 mL', 'oral suspension', 'oral'),
+  ('Ibuprofen', ARRAY['Advil', 'Motrin', 'Brufen']::text[], '200 mg', 'tablet', 'oral'),
+  ('Ibuprofen', ARRAY['Advil', 'Motrin', 'Brufen']::text[], '400 mg', 'tablet', 'oral'),
+  ('Ibuprofen', ARRAY['Brufen']::text[], '100 mg/5 mL', 'oral suspension', 'oral'),
+  ('Naproxen', ARRAY['Naprosyn', 'Aleve']::text[], '250 mg', 'tablet', 'oral'),
+  ('Naproxen', ARRAY['Naprosyn']::text[], '500 mg', 'tablet', 'oral'),
+  ('Diclofenac', ARRAY['Voltaren', 'Voveran']::text[], '50 mg', 'tablet', 'oral'),
+  ('Diclofenac', ARRAY['Voltaren']::text[], '1%', 'gel', 'topical'),
+  ('Aspirin', ARRAY['Ecosprin', 'Disprin']::text[], '75 mg', 'tablet', 'oral'),
+  ('Aspirin', ARRAY['Ecotrin']::text[], '81 mg', 'tablet', 'oral'),
+  ('Aspirin', ARRAY['Disprin']::text[], '300 mg', 'tablet', 'oral'),
+  ('Tramadol', ARRAY['Ultram']::text[], '50 mg', 'capsule', 'oral'),
+  ('Codeine', '{}'::text[], '30 mg', 'tablet', 'oral'),
+  ('Morphine', '{}'::text[], '10 mg', 'tablet', 'oral'),
+  ('Omeprazole', ARRAY['Prilosec', 'Omez']::text[], '20 mg', 'capsule', 'oral'),
+  ('Omeprazole', ARRAY['Prilosec', 'Omez']::text[], '40 mg', 'capsule', 'oral'),
+  ('Pantoprazole', ARRAY['Protonix', 'Pan']::text[], '40 mg', 'tablet', 'oral'),
+  ('Famotidine', ARRAY['Pepcid']::text[], '20 mg', 'tablet', 'oral'),
+  ('Ondansetron', ARRAY['Zofran']::text[], '4 mg', 'tablet', 'oral'),
+  ('Metoclopramide', ARRAY['Reglan']::text[], '10 mg', 'tablet', 'oral'),
+  ('Loperamide', ARRAY['Imodium']::text[], '2 mg', 'capsule', 'oral'),
+  ('Metformin', ARRAY['Glucophage', 'Glycomet']::text[], '500 mg', 'tablet', 'oral'),
+  ('Metformin', ARRAY['Glucophage', 'Glycomet']::text[], '850 mg', 'tablet', 'oral'),
+  ('Metformin', ARRAY['Glucophage', 'Glycomet']::text[], '1000 mg', 'tablet', 'oral'),
+  ('Glimepiride', ARRAY['Amaryl']::text[], '2 mg', 'tablet', 'oral'),
+  ('Gliclazide', ARRAY['Diamicron']::text[], '80 mg', 'tablet', 'oral'),
+  ('Insulin glargine', ARRAY['Lantus']::text[], '100 units/mL', 'injection', 'subcutaneous'),
+  ('Atorvastatin', ARRAY['Lipitor']::text[], '10 mg', 'tablet', 'oral'),
+  ('Atorvastatin', ARRAY['Lipitor']::text[], '20 mg', 'tablet', 'oral'),
+  ('Atorvastatin', ARRAY['Lipitor']::text[], '40 mg', 'tablet', 'oral'),
+  ('Simvastatin', ARRAY['Zocor']::text[], '20 mg', 'tablet', 'oral'),
+  ('Rosuvastatin', ARRAY['Crestor']::text[], '10 mg', 'tablet', 'oral'),
+  ('Amlodipine', ARRAY['Norvasc']::text[], '5 mg', 'tablet', 'oral'),
+  ('Amlodipine', ARRAY['Norvasc']::text[], '10 mg', 'tablet', 'oral'),
+  ('Lisinopril', ARRAY['Zestril', 'Prinivil']::text[], '10 mg', 'tablet', 'oral'),
+  ('Enalapril', ARRAY['Vasotec']::text[], '5 mg', 'tablet', 'oral'),
+  ('Ramipril', ARRAY['Altace']::text[], '5 mg', 'capsule', 'oral'),
+  ('Losartan', ARRAY['Cozaar']::text[], '50 mg', 'tablet', 'oral'),
+  ('Telmisartan', ARRAY['Micardis', 'Telma']::text[], '40 mg', 'tablet', 'oral'),
+  ('Metoprolol', ARRAY['Lopressor', 'Toprol']::text[], '50 mg', 'tablet', 'oral'),
+  ('Atenolol', ARRAY['Tenormin']::text[], '50 mg', 'tablet', 'oral'),
+  ('Bisoprolol', ARRAY['Concor']::text[], '5 mg', 'tablet', 'oral'),
+  ('Propranolol', ARRAY['Inderal']::text[], '40 mg', 'tablet', 'oral'),
+  ('Hydrochlorothiazide', ARRAY['Microzide']::text[], '25 mg', 'tablet', 'oral'),
+  ('Furosemide', ARRAY['Lasix']::text[], '40 mg', 'tablet', 'oral'),
+  ('Spironolactone', ARRAY['Aldactone']::text[], '25 mg', 'tablet', 'oral'),
+  ('Warfarin', ARRAY['Coumadin', 'Jantoven']::text[], '5 mg', 'tablet', 'oral'),
+  ('Apixaban', ARRAY['Eliquis']::text[], '5 mg', 'tablet', 'oral'),
+  ('Rivaroxaban', ARRAY['Xarelto']::text[], '20 mg', 'tablet', 'oral'),
+  ('Clopidogrel', ARRAY['Plavix']::text[], '75 mg', 'tablet', 'oral'),
+  ('Digoxin', ARRAY['Lanoxin']::text[], '250 mcg', 'tablet', 'oral'),
+  ('Amiodarone', ARRAY['Cordarone']::text[], '200 mg', 'tablet', 'oral'),
+  ('Nitroglycerin', ARRAY['Nitrostat']::text[], '0.4 mg', 'sublingual tablet', 'sublingual'),
+  ('Levothyroxine', ARRAY['Synthroid', 'Thyronorm', 'Eltroxin']::text[], '50 mcg', 'tablet', 'oral'),
+  ('Levothyroxine', ARRAY['Synthroid', 'Thyronorm', 'Eltroxin']::text[], '100 mcg', 'tablet', 'oral'),
+  ('Prednisolone', '{}'::text[], '5 mg', 'tablet', 'oral'),
+  ('Prednisone', ARRAY['Deltasone']::text[], '20 mg', 'tablet', 'oral'),
+  ('Salbutamol', ARRAY['Ventolin', 'Asthalin']::text[], '100 mcg/dose', 'inhaler', 'inhalation'),
+  ('Budesonide and formoterol', ARRAY['Symbicort']::text[], '160 mcg/4.5 mcg per dose', 'inhaler', 'inhalation'),
+  ('Montelukast', ARRAY['Singulair']::text[], '10 mg', 'tablet', 'oral'),
+  ('Cetirizine', ARRAY['Zyrtec']::text[], '10 mg', 'tablet', 'oral'),
+  ('Loratadine', ARRAY['Claritin']::text[], '10 mg', 'tablet', 'oral'),
+  ('Sertraline', ARRAY['Zoloft']::text[], '50 mg', 'tablet', 'oral'),
+  ('Fluoxetine', ARRAY['Prozac']::text[], '20 mg', 'capsule', 'oral'),
+  ('Escitalopram', ARRAY['Lexapro']::text[], '10 mg', 'tablet', 'oral'),
+  ('Amitriptyline', ARRAY['Elavil']::text[], '25 mg', 'tablet', 'oral'),
+  ('Diazepam', ARRAY['Valium']::text[], '5 mg', 'tablet', 'oral'),
+  ('Alprazolam', ARRAY['Xanax']::text[], '0.25 mg', 'tablet', 'oral'),
+  ('Gabapentin', ARRAY['Neurontin']::text[], '300 mg', 'capsule', 'oral'),
+  ('Pregabalin', ARRAY['Lyrica']::text[], '75 mg', 'capsule', 'oral'),
+  ('Levetiracetam', ARRAY['Keppra']::text[], '500 mg', 'tablet', 'oral'),
+  ('Carbamazepine', ARRAY['Tegretol']::text[], '200 mg', 'tablet', 'oral'),
+  ('Sodium valproate', ARRAY['Epilim']::text[], '500 mg', 'tablet', 'oral'),
+  ('Tamsulosin', ARRAY['Flomax']::text[], '0.4 mg', 'capsule', 'oral'),
+  ('Sildenafil', ARRAY['Viagra']::text[], '50 mg', 'tablet', 'oral'),
+  ('Allopurinol', ARRAY['Zyloprim']::text[], '100 mg', 'tablet', 'oral'),
+  ('Colchicine', '{}'::text[], '0.5 mg', 'tablet', 'oral'),
+  ('Methotrexate', ARRAY['Trexall']::text[], '2.5 mg', 'tablet', 'oral'),
+  ('Hydroxychloroquine', ARRAY['Plaquenil']::text[], '200 mg', 'tablet', 'oral'),
+  ('Potassium chloride', ARRAY['K-Dur']::text[], '600 mg', 'extended-release tablet', 'oral'),
+  ('Folic acid', '{}'::text[], '5 mg', 'tablet', 'oral'),
+  ('Ferrous sulfate', '{}'::text[], '200 mg', 'tablet', 'oral'),
+  ('Cholecalciferol', ARRAY['Vitamin D3']::text[], '1000 IU', 'capsule', 'oral')
+ON CONFLICT (generic_name, strength, form, route) DO NOTHING;
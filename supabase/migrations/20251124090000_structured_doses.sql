@@ -0,0 +1,93 @@
+/*
+  # Structured doses
+
+  ## Overview
+  Dosage was a single free-text field ("500mg"), so patients could not tell how many
+  tablets to take or how. Each prescribed medication now carries a structured dose
+  (quantity, unit, dosage form, route and optional strength) that is copied onto every
+  scheduled dose, so the tracker can say exactly what to take.
+
+  ## Changes
+
+  ### 1. `prescriptions.medications`
+  - Each medication may carry `dose`:
+    {"quantity": 2, "unit": "tablet", "form": "tablet", "route": "oral",
+     "strength": {"amount": 500, "unit": "mg", "per": 1}}
+  - `dosage` is kept as its text summary ("2 tablets (1000 mg), oral"). Medications saved
+    before this change have no `dose`. No column change is needed (jsonb).
+
+  ### 2. `medication_logs`
+  - `dose` (jsonb, optional) - Copy of the medication's structured dose at scheduling time;
+    null for older logs and for taper steps, which keep their own `dosage` text
+
+  ### 3. `replace_future_medication_logs`
+  - Also inserts `dose` from each generated log
+
+  ## Security
+  - No policy changes; `replace_future_medication_logs` stays restricted to the server
+*/
+
+ALTER TABLE medication_logs
+  ADD COLUMN IF NOT EXISTS dose jsonb;
+
+CREATE OR REPLACE FUNCTION replace_future_medication_logs(
+  p_prescription_id uuid,
+  p_from timestamptz,
+  p_logs jsonb
+)
+RETURNS TABLE (removed integer, inserted integer)
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_from timestamptz := COALESCE(p_from, '-infinity'::timestamptz);
+  v_prescription prescriptions%ROWTYPE;
+  v_removed integer;
+  v_inserted integer;
+BEGIN
+  -- Serialize concurrent regenerations of the same prescription
+  SELECT * INTO v_prescription FROM prescriptions WHERE id = p_prescription_id FOR UPDATE;
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Prescription % not found', p_prescription_id;
+  END IF;
+
+  PERFORM set_config('app.audit_skip_medication_logs', 'on', true);
+
+  DELETE FROM medication_logs
+  WHERE prescription_id = p_prescription_id
+    AND status = 'pending'
+    AND NOT is_prn
+    AND scheduled_time >= v_from;
+  GET DIAGNOSTICS v_removed = ROW_COUNT;
+
+  INSERT INTO medication_logs (
+    prescription_id, patient_id, medication_id, medication_name, dosage, dose,
+    scheduled_time, dose_slot, status
+  )
+  SELECT
+    p_prescription_id,
+    (log->>'patient_id')::uuid,
+    log->>'medication_id',
+    log->>'medication_name',
+    log->>'dosage',
+    NULLIF(log->'dose', 'null'::jsonb),
+    (log->>'scheduled_time')::timestamptz,
+    log->>'dose_slot',
+    'pending'
+  FROM jsonb_array_elements(p_logs) AS log
+  WHERE (log->>'scheduled_time')::timestamptz >= v_from
+  ON CONFLICT (prescription_id, medication_id, scheduled_time) WHERE NOT is_prn DO NOTHING;
+  GET DIAGNOSTICS v_inserted = ROW_COUNT;
+
+  PERFORM set_config('app.audit_skip_medication_logs', 'off', true);
+
+  IF v_removed > 0 OR v_inserted > 0 THEN
+    PERFORM write_audit_entry('prescription', p_prescription_id, 'schedule_regenerated', p_prescription_id,
+      v_prescription.doctor_id, v_prescription.patient_id,
+      jsonb_build_object('removed', v_removed, 'inserted', v_inserted, 'from', p_from));
+  END IF;
+
+  RETURN QUERY SELECT v_removed, v_inserted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION replace_future_medication_logs(uuid, timestamptz, jsonb) FROM PUBLIC, anon, authenticated;
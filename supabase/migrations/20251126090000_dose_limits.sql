@@ -0,0 +1,160 @@
+/*
+  # Dose limits and patient weight
+
+  ## Overview
+  Nothing checked a prescribed dose against safe limits. The prescription form now works out
+  each medication's total daily dose (amount per dose x doses per day) and compares it with
+  the maximum daily dose for the drug, using the pediatric or geriatric limit when the patient's
+  age calls for it and weight-based (per kg) limits when their weight is known.
+
+  ## Changes
+
+  ### 1. `profiles`
+  - `weight_kg` (numeric, optional) - Patient's body weight
+  - `weight_updated_at` (timestamptz, optional) - Set automatically when the weight changes,
+    so prescribers can tell how current it is
+
+  ### 2. `drug_dose_limits`
+  Maximum total daily dose per generic drug (matching `drug_catalog.generic_name`) and population
+  - `id` (uuid, primary key)
+  - `generic_name` (text) - e.g. "Paracetamol"
+  - `population` (text) - 'adult' (18-64), 'pediatric' (under 18) or 'geriatric' (65 and over).
+    Adult limits also apply when no row exists for the patient's population.
+  - `max_daily` (numeric, optional) - Absolute maximum per day, in `unit`
+  - `max_daily_per_kg` (numeric, optional) - Weight-based maximum per day, in `unit` per kg.
+    When both are set the lower one applies.
+  - `unit` (text) - 'mg', 'mcg', 'g' or 'IU'
+  - `note` (text, optional) - Shown to the prescriber alongside a violation
+  Seeded below with commonly cited labeled maximums for the catalog's drugs. They are a
+  safety net for obvious errors, not a substitute for indication-specific dosing.
+
+  ## Security
+  - All signed-in users can read the limits; they are only changed through migrations
+  - Patients already update their own profile row, which covers the new weight columns
+*/
+
+ALTER TABLE profiles
+  ADD COLUMN IF NOT EXISTS weight_kg numeric(5, 1) CHECK (weight_kg > 0 AND weight_kg < 500),
+  ADD COLUMN IF NOT EXISTS weight_updated_at timestamptz;
+
+CREATE OR REPLACE FUNCTION stamp_weight_update()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.weight_kg IS DISTINCT FROM OLD.weight_kg THEN
+    NEW.weight_updated_at := now();
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER stamp_profile_weight_update
+  BEFORE UPDATE OF weight_kg ON profiles
+  FOR EACH ROW
+  EXECUTE FUNCTION stamp_weight_update();
+
+CREATE TABLE IF NOT EXISTS drug_dose_limits (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  generic_name text NOT NULL,
+  population text NOT NULL CHECK (population IN ('adult', 'pediatric', 'geriatric')),
+  max_daily numeric CHECK (max_daily > 0),
+  max_daily_per_kg numeric CHECK (max_daily_per_kg > 0),
+  unit text NOT NULL CHECK (unit IN ('mg', 'mcg', 'g', 'IU')),
+  note text,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (generic_name, population),
+  CHECK (max_daily IS NOT NULL OR max_daily_per_kg IS NOT NULL)
+);
+
+ALTER TABLE drug_dose_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Signed-in users can view dose limits"
+  ON drug_dose_limits FOR SELECT
+  TO authenticated
+  USING (true);
+
+INSERT INTO drug_dose_limits (generic_name, population, max_daily, max_daily_per_kg, unit, note) VALUES
+  ('Paracetamol', 'adult', 4000, NULL, 'mg', NULL),
+  ('Paracetamol', 'pediatric', 4000, 75, 'mg', NULL),
+  ('Paracetamol', 'geriatric', 3000, NULL, 'mg', 'Lower maximum for older or frail patients and in liver disease.'),
+  ('Ibuprofen', 'adult', 3200, NULL, 'mg', NULL),
+  ('Ibuprofen', 'pediatric', 2400, 40, 'mg', NULL),
+  ('Ibuprofen', 'geriatric', 2400, NULL, 'mg', 'Use the lowest effective dose in older patients.'),
+  ('Naproxen', 'adult', 1500, NULL, 'mg', NULL),
+  ('Naproxen', 'pediatric', 1000, 15, 'mg', NULL),
+  ('Diclofenac', 'adult', 150, NULL, 'mg', NULL),
+  ('Aspirin', 'adult', 4000, NULL, 'mg', NULL),
+  ('Amoxicillin', 'adult', 3000, NULL, 'mg', NULL),
+  ('Amoxicillin', 'pediatric', 4000, 90, 'mg', NULL),
+  ('Azithromycin', 'pediatric', 500, 10, 'mg', NULL),
+  ('Cephalexin', 'adult', 4000, NULL, 'mg', NULL),
+  ('Cephalexin', 'pediatric', 4000, 100, 'mg', NULL),
+  ('Ciprofloxacin', 'adult', 1500, NULL, 'mg', NULL),
+  ('Clarithromycin', 'adult', 1000, NULL, 'mg', NULL),
+  ('Clarithromycin', 'pediatric', 1000, 15, 'mg', NULL),
+  ('Doxycycline', 'adult', 200, NULL, 'mg', NULL),
+  ('Doxycycline', 'pediatric', 200, 4.4, 'mg', 'Generally avoided under 8 years of age.'),
+  ('Metronidazole', 'adult', 4000, NULL, 'mg', NULL),
+  ('Nitrofurantoin', 'adult', 400, NULL, 'mg', NULL),
+  ('Fluconazole', 'adult', 800, NULL, 'mg', NULL),
+  ('Fluconazole', 'pediatric', 800, 12, 'mg', NULL),
+  ('Acyclovir', 'adult', 4000, NULL, 'mg', NULL),
+  ('Acyclovir', 'pediatric', 3200, 80, 'mg', NULL),
+  ('Metformin', 'adult', 2550, NULL, 'mg', NULL),
+  ('Metformin', 'pediatric', 2000, NULL, 'mg', NULL),
+  ('Glimepiride', 'adult', 8, NULL, 'mg', NULL),
+  ('Gliclazide', 'adult', 320, NULL, 'mg', NULL),
+  ('Lisinopril', 'adult', 80, NULL, 'mg', NULL),
+  ('Enalapril', 'adult', 40, NULL, 'mg', NULL),
+  ('Ramipril', 'adult', 10, NULL, 'mg', NULL),
+  ('Losartan', 'adult', 100, NULL, 'mg', NULL),
+  ('Telmisartan', 'adult', 80, NULL, 'mg', NULL),
+  ('Amlodipine', 'adult', 10, NULL, 'mg', NULL),
+  ('Atenolol', 'adult', 100, NULL, 'mg', NULL),
+  ('Bisoprolol', 'adult', 20, NULL, 'mg', NULL),
+  ('Metoprolol', 'adult', 400, NULL, 'mg', NULL),
+  ('Propranolol', 'adult', 640, NULL, 'mg', NULL),
+  ('Hydrochlorothiazide', 'adult', 50, NULL, 'mg', NULL),
+  ('Furosemide', 'adult', 600, NULL, 'mg', NULL),
+  ('Spironolactone', 'adult', 400, NULL, 'mg', NULL),
+  ('Atorvastatin', 'adult', 80, NULL, 'mg', NULL),
+  ('Rosuvastatin', 'adult', 40, NULL, 'mg', NULL),
+  ('Simvastatin', 'adult', 40, NULL, 'mg', '80 mg is restricted because of myopathy risk.'),
+  ('Digoxin', 'adult', 0.5, NULL, 'mg', NULL),
+  ('Digoxin', 'geriatric', 0.125, NULL, 'mg', 'Doses above 0.125 mg/day are best avoided in older patients.'),
+  ('Apixaban', 'adult', 20, NULL, 'mg', NULL),
+  ('Rivaroxaban', 'adult', 30, NULL, 'mg', NULL),
+  ('Sertraline', 'adult', 200, NULL, 'mg', NULL),
+  ('Fluoxetine', 'adult', 80, NULL, 'mg', NULL),
+  ('Escitalopram', 'adult', 20, NULL, 'mg', NULL),
+  ('Escitalopram', 'geriatric', 10, NULL, 'mg', NULL),
+  ('Amitriptyline', 'adult', 300, NULL, 'mg', NULL),
+  ('Alprazolam', 'adult', 4, NULL, 'mg', 'Higher doses are only used for panic disorder.'),
+  ('Alprazolam', 'geriatric', 2, NULL, 'mg', NULL),
+  ('Diazepam', 'adult', 40, NULL, 'mg', NULL),
+  ('Gabapentin', 'adult', 3600, NULL, 'mg', NULL),
+  ('Pregabalin', 'adult', 600, NULL, 'mg', NULL),
+  ('Levetiracetam', 'adult', 3000, NULL, 'mg', NULL),
+  ('Levetiracetam', 'pediatric', 3000, 60, 'mg', NULL),
+  ('Carbamazepine', 'adult', 1600, NULL, 'mg', NULL),
+  ('Carbamazepine', 'pediatric', 1000, 35, 'mg', NULL),
+  ('Sodium valproate', 'adult', NULL, 60, 'mg', NULL),
+  ('Sodium valproate', 'pediatric', NULL, 60, 'mg', NULL),
+  ('Tramadol', 'adult', 400, NULL, 'mg', NULL),
+  ('Tramadol', 'geriatric', 300, NULL, 'mg', 'Maximum applies over 75 years of age.'),
+  ('Codeine', 'adult', 240, NULL, 'mg', NULL),
+  ('Levothyroxine', 'adult', 300, NULL, 'mcg', NULL),
+  ('Folic acid', 'adult', 5, NULL, 'mg', NULL),
+  ('Colchicine', 'adult', 1.8, NULL, 'mg', NULL),
+  ('Allopurinol', 'adult', 800, NULL, 'mg', NULL),
+  ('Hydroxychloroquine', 'adult', 400, 5, 'mg', 'Per kg of actual body weight; higher doses raise the risk of retinal toxicity.'),
+  ('Methotrexate', 'adult', 25, NULL, 'mg', 'Usually given once weekly, not daily.'),
+  ('Metoclopramide', 'adult', 30, NULL, 'mg', NULL),
+  ('Metoclopramide', 'pediatric', 30, 0.5, 'mg', NULL),
+  ('Ondansetron', 'adult', 24, NULL, 'mg', NULL),
+  ('Loperamide', 'adult', 16, NULL, 'mg', NULL),
+  ('Cetirizine', 'adult', 10, NULL, 'mg', NULL),
+  ('Loratadine', 'adult', 10, NULL, 'mg', NULL),
+  ('Montelukast', 'adult', 10, NULL, 'mg', NULL),
+  ('Tamsulosin', 'adult', 0.8, NULL, 'mg', NULL),
+  ('Sildenafil', 'adult', 100, NULL, 'mg', NULL)
+ON CONFLICT (generic_name, population) DO NOTHING;
@@ -0,0 +1,107 @@
+/*
+  # Prescription templates and favorites
+
+  ## Overview
+  Doctors rebuilt the same regimens (a 7-day amoxicillin course, a hypertension starter)
+  medication by medication. A draft's medications, diagnosis and duration can now be saved
+  as a named template, optionally shared with the rest of the practice, and inserted into a
+  new prescription in one step.
+
+  ## Changes
+
+  ### 1. `prescription_templates`
+  - `id` (uuid, primary key)
+  - `doctor_id` (uuid) - Author; references profiles
+  - `name` (text) - e.g. "Amoxicillin 7-day course"
+  - `diagnosis` (text, optional)
+  - `duration_days` (integer) - 1 to 365
+  - `medications` (jsonb) - Array in the `prescriptions.medications` format, without ids
+  - `shared` (boolean) - Visible to every doctor in the practice
+  - `created_at`, `updated_at` (timestamptz)
+
+  ### 2. `prescription_template_favorites`
+  Templates a doctor has starred (their own or shared ones)
+  - `doctor_id` (uuid), `template_id` (uuid) - Primary key
+  - `created_at` (timestamptz)
+
+  ## Security
+  - Doctors see their own templates and shared ones; only the author can change or delete one
+  - Each doctor manages only their own favorites, and only for templates they can see
+*/
+
+CREATE TABLE IF NOT EXISTS prescription_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  doctor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  name text NOT NULL CHECK (btrim(name) <> ''),
+  diagnosis text,
+  duration_days integer NOT NULL DEFAULT 7 CHECK (duration_days BETWEEN 1 AND 365),
+  medications jsonb NOT NULL DEFAULT '[]'::jsonb CHECK (jsonb_typeof(medications) = 'array'),
+  shared boolean NOT NULL DEFAULT false,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_prescription_templates_doctor ON prescription_templates(doctor_id);
+CREATE INDEX IF NOT EXISTS idx_prescription_templates_shared ON prescription_templates(shared) WHERE shared;
+
+CREATE TRIGGER update_prescription_templates_updated_at
+  BEFORE UPDATE ON prescription_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE prescription_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view their own and shared templates"
+  ON prescription_templates FOR SELECT
+  TO authenticated
+  USING (
+    doctor_id = auth.uid()
+    OR (shared AND EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'doctor'))
+  );
+
+CREATE POLICY "Doctors can create their own templates"
+  ON prescription_templates FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    doctor_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM profiles WHERE profiles.id = auth.uid() AND profiles.role = 'doctor')
+  );
+
+CREATE POLICY "Doctors can update their own templates"
+  ON prescription_templates FOR UPDATE
+  TO authenticated
+  USING (doctor_id = auth.uid())
+  WITH CHECK (doctor_id = auth.uid());
+
+CREATE POLICY "Doctors can delete their own templates"
+  ON prescription_templates FOR DELETE
+  TO authenticated
+  USING (doctor_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS prescription_template_favorites (
+  doctor_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  template_id uuid NOT NULL REFERENCES prescription_templates(id) ON DELETE CASCADE,
+  created_at timestamptz DEFAULT now(),
+  PRIMARY KEY (doctor_id, template_id)
+);
+
+ALTER TABLE prescription_template_favorites ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Doctors can view their favorite templates"
+  ON prescription_template_favorites FOR SELECT
+  TO authenticated
+  USING (doctor_id = auth.uid());
+
+-- The subquery is subject to the template policies above, so only visible templates can be starred
+CREATE POLICY "Doctors can favorite visible templates"
+  ON prescription_template_favorites FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    doctor_id = auth.uid()
+    AND EXISTS (SELECT 1 FROM prescription_templates t WHERE t.id = template_id)
+  );
+
+CREATE POLICY "Doctors can remove their favorite templates"
+  ON prescription_template_favorites FOR DELETE
+  TO authenticated
+  USING (doctor_id = auth.uid());
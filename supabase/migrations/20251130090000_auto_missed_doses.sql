@@ -0,0 +1,81 @@
+/*
+  # Automatic marking of overdue doses as missed
+
+  ## Overview
+  Doses stayed `pending` forever unless the patient marked them missed, so adherence for past
+  days was meaningless. A background job on the Node server now calls
+  `mark_overdue_doses_missed()` every few minutes; pending doses whose scheduled time is more
+  than the practice's grace window in the past become `missed`. The change is made without a
+  signed-in user, so the audit log records it as made by the system.
+
+  ## Changes
+
+  ### 1. `practice_settings`
+  - `missed_dose_grace_minutes` (integer) - How long after its scheduled time a pending dose
+    is marked missed; 15 to 1440, default 120
+
+  ### 2. `medication_logs`
+  - `auto_missed_at` (timestamptz, optional) - When the system marked the dose missed. Cleared
+    when a user later changes the status (e.g. the patient records it as taken after all).
+  - Partial index on pending scheduled doses for the sweep
+
+  ### 3. `mark_overdue_doses_missed()`
+  - Marks overdue pending (non-PRN) doses missed and returns how many were changed
+  - Can also be scheduled in the database with pg_cron instead of the Node server:
+    SELECT cron.schedule('mark-overdue-doses', '*/5 * * * *', 'SELECT mark_overdue_doses_missed()');
+
+  ## Security
+  - The function can only be executed by the service role (the Node server)
+  - Users cannot set `auto_missed_at` themselves
+*/
+
+ALTER TABLE practice_settings
+  ADD COLUMN IF NOT EXISTS missed_dose_grace_minutes integer NOT NULL DEFAULT 120
+    CHECK (missed_dose_grace_minutes BETWEEN 15 AND 1440);
+
+ALTER TABLE medication_logs
+  ADD COLUMN IF NOT EXISTS auto_missed_at timestamptz;
+
+CREATE INDEX IF NOT EXISTS idx_medication_logs_pending_scheduled
+  ON medication_logs(scheduled_time)
+  WHERE status = 'pending' AND NOT is_prn;
+
+-- Only the system sets auto_missed_at; a user changing the status clears it
+CREATE OR REPLACE FUNCTION guard_auto_missed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF auth.uid() IS NOT NULL THEN
+    NEW.auto_missed_at := CASE WHEN NEW.status IS DISTINCT FROM OLD.status THEN NULL ELSE OLD.auto_missed_at END;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER guard_medication_log_auto_missed
+  BEFORE UPDATE ON medication_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION guard_auto_missed();
+
+CREATE OR REPLACE FUNCTION mark_overdue_doses_missed()
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_grace integer;
+  v_marked integer;
+BEGIN
+  SELECT missed_dose_grace_minutes INTO v_grace FROM practice_settings WHERE id;
+
+  UPDATE medication_logs
+  SET status = 'missed',
+      auto_missed_at = now()
+  WHERE status = 'pending'
+    AND NOT is_prn
+    AND scheduled_time < now() - make_interval(mins => COALESCE(v_grace, 120));
+  GET DIAGNOSTICS v_marked = ROW_COUNT;
+
+  RETURN v_marked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_overdue_doses_missed() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,55 @@
+/*
+  # Skip reasons and dose times recorded by the patient
+
+  ## Overview
+  Patients can now skip a scheduled dose, which requires a reason, record a dose as taken at
+  a time other than "now", and add a free-text note (the existing `notes` column) to any dose.
+  Doctors see the skip reasons in their adherence view.
+
+  ## Changes
+
+  ### 1. `medication_logs`
+  - `skip_reason` (text, optional) - Why the dose was skipped: `side_effect`, `out_of_stock`,
+    `doctor_advised` or `other`. Required for doses skipped from now on (doses skipped before
+    this migration have none) and only allowed on skipped doses.
+
+  ### 2. `check_medication_log_times()` trigger
+  - Rejects a `taken_at` in the future (a few minutes of clock skew are allowed) or more than
+    a day before the dose's scheduled time
+
+  ## Security
+  - No policy changes: patients already update their own logs, doctors can read them
+*/
+
+ALTER TABLE medication_logs
+  ADD COLUMN IF NOT EXISTS skip_reason text
+    CHECK (skip_reason IN ('side_effect', 'out_of_stock', 'doctor_advised', 'other'));
+
+ALTER TABLE medication_logs
+  ADD CONSTRAINT medication_logs_skip_reason_only_when_skipped
+    CHECK (skip_reason IS NULL OR status = 'skipped');
+
+-- Existing skipped rows have no reason, so only new and updated rows are checked
+ALTER TABLE medication_logs
+  ADD CONSTRAINT medication_logs_skip_reason_required
+    CHECK (status <> 'skipped' OR skip_reason IS NOT NULL) NOT VALID;
+
+CREATE OR REPLACE FUNCTION check_medication_log_times()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.taken_at IS NOT NULL AND NEW.taken_at IS DISTINCT FROM OLD.taken_at THEN
+    IF NEW.taken_at > now() + interval '5 minutes' THEN
+      RAISE EXCEPTION 'A dose cannot be recorded as taken in the future';
+    END IF;
+    IF NEW.taken_at < NEW.scheduled_time - interval '1 day' THEN
+      RAISE EXCEPTION 'A dose cannot be recorded as taken more than a day before it was scheduled';
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER check_medication_log_times
+  BEFORE UPDATE ON medication_logs
+  FOR EACH ROW
+  EXECUTE FUNCTION check_medication_log_times();
@@ -0,0 +1,145 @@
+/*
+  # Side-effect and symptom journal
+
+  ## Overview
+  Patients had nowhere to report adverse effects. They can now add journal entries
+  describing a symptom, its severity and when it started, optionally linked to one of their
+  prescribed medications. Each entry is a new record; entries are never edited. The doctor
+  who wrote the linked prescription (or, for unlinked entries, any of the patient's doctors)
+  sees new reports on their dashboard and marks them reviewed. Severe reports are sent with
+  later safety checks as part of the patient's history.
+
+  ## Changes
+
+  ### 1. `symptom_reports`
+  - `id` (uuid, primary key)
+  - `patient_id` (uuid) - References profiles
+  - `prescription_id` (uuid, optional) - The prescription of the suspected medication
+  - `medication_id` (text, optional) - The medication's id within that prescription
+  - `medication_name` (text, optional) - Copied from the prescription when the entry is saved
+  - `doctor_id` (uuid, optional) - The prescribing doctor, set from the prescription
+  - `symptom` (text) - e.g. "Nausea"
+  - `severity` (text) - 'mild', 'moderate' or 'severe'
+  - `onset_at` (timestamptz) - When the symptom started
+  - `description` (text) - Free text from the patient
+  - `reviewed_by` (uuid, optional), `reviewed_at` (timestamptz, optional) - The doctor who
+    acknowledged the report
+  - `created_at` (timestamptz)
+
+  ### 2. `prepare_symptom_report()` trigger
+  - On insert, copies the prescribing doctor and the medication name from the linked
+    prescription, and rejects a prescription of another patient or an onset in the future
+  - On update, only `reviewed_by` can change, only by a doctor and only to themselves;
+    `reviewed_at` is set by the database
+
+  ## Security
+  - Patients can add and read their own reports; they cannot change or delete them
+  - Doctors can read and mark reviewed the reports of their active patients
+*/
+
+CREATE TABLE IF NOT EXISTS symptom_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  patient_id uuid NOT NULL REFERENCES profiles(id) ON DELETE CASCADE,
+  prescription_id uuid REFERENCES prescriptions(id) ON DELETE SET NULL,
+  medication_id text,
+  medication_name text,
+  doctor_id uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  symptom text NOT NULL CHECK (btrim(symptom) <> ''),
+  severity text NOT NULL CHECK (severity IN ('mild', 'moderate', 'severe')),
+  onset_at timestamptz NOT NULL,
+  description text NOT NULL DEFAULT '',
+  reviewed_by uuid REFERENCES profiles(id) ON DELETE SET NULL,
+  reviewed_at timestamptz,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_symptom_reports_patient ON symptom_reports(patient_id, onset_at DESC);
+CREATE INDEX IF NOT EXISTS idx_symptom_reports_unreviewed
+  ON symptom_reports(doctor_id, created_at DESC)
+  WHERE reviewed_at IS NULL;
+
+ALTER TABLE symptom_reports ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Patients can view own symptom reports"
+  ON symptom_reports FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid());
+
+CREATE POLICY "Patients can create own symptom reports"
+  ON symptom_reports FOR INSERT
+  TO authenticated
+  WITH CHECK (patient_id = auth.uid() AND reviewed_by IS NULL);
+
+CREATE POLICY "Doctors can view their patients' symptom reports"
+  ON symptom_reports FOR SELECT
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = symptom_reports.patient_id AND r.status = 'active'
+  ));
+
+CREATE POLICY "Doctors can review their patients' symptom reports"
+  ON symptom_reports FOR UPDATE
+  TO authenticated
+  USING (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = symptom_reports.patient_id AND r.status = 'active'
+  ))
+  WITH CHECK (EXISTS (
+    SELECT 1 FROM doctor_patient_relationships r
+    WHERE r.doctor_id = auth.uid() AND r.patient_id = symptom_reports.patient_id AND r.status = 'active'
+  ));
+
+CREATE OR REPLACE FUNCTION prepare_symptom_report()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_prescription prescriptions%ROWTYPE;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    IF NEW.onset_at > now() + interval '5 minutes' THEN
+      RAISE EXCEPTION 'A symptom cannot start in the future';
+    END IF;
+
+    NEW.doctor_id := NULL;
+    NEW.medication_name := NULL;
+    IF NEW.prescription_id IS NOT NULL THEN
+      SELECT * INTO v_prescription FROM prescriptions WHERE id = NEW.prescription_id;
+      IF NOT FOUND OR v_prescription.patient_id <> NEW.patient_id THEN
+        RAISE EXCEPTION 'The linked prescription does not belong to this patient';
+      END IF;
+      NEW.doctor_id := v_prescription.doctor_id;
+      SELECT med->>'name' INTO NEW.medication_name
+      FROM jsonb_array_elements(v_prescription.medications) AS med
+      WHERE med->>'id' = NEW.medication_id;
+    ELSE
+      NEW.medication_id := NULL;
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  -- Updates only record the review
+  IF NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by THEN
+    IF NEW.reviewed_by IS NOT NULL AND (
+      NEW.reviewed_by <> auth.uid()
+      OR NOT EXISTS (SELECT 1 FROM profiles WHERE id = auth.uid() AND role = 'doctor')
+    ) THEN
+      RAISE EXCEPTION 'Only a doctor can mark a report reviewed, as themselves';
+    END IF;
+    OLD.reviewed_by := NEW.reviewed_by;
+    OLD.reviewed_at := CASE WHEN NEW.reviewed_by IS NULL THEN NULL ELSE now() END;
+  END IF;
+  -- ON DELETE SET NULL from a deleted prescription or doctor profile
+  IF NEW.prescription_id IS NULL THEN
+    OLD.prescription_id := NULL;
+  END IF;
+  IF NEW.doctor_id IS NULL THEN
+    OLD.doctor_id := NULL;
+  END IF;
+  RETURN OLD;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER prepare_symptom_report
+  BEFORE INSERT OR UPDATE ON symptom_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION prepare_symptom_report();
@@ -0,0 +1,46 @@
+/*
+  # Limit the missed-dose sweep to active prescriptions
+
+  ## Overview
+  `mark_overdue_doses_missed()` marked every overdue pending dose missed, including doses of
+  prescriptions that were completed, cancelled or deleted. Those doses are no longer shown to
+  the patient, yet the sweep kept changing them and writing audit entries. The sweep now only
+  touches doses of active prescriptions that are not deleted.
+
+  ## Changes
+
+  ### 1. `mark_overdue_doses_missed()`
+  - Joins `prescriptions` and skips doses whose prescription is not `active` or has
+    `deleted_at` set; otherwise unchanged
+
+  ## Security
+  - Still executable only by the service role (the Node server)
+*/
+
+CREATE OR REPLACE FUNCTION mark_overdue_doses_missed()
+RETURNS integer
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  v_grace integer;
+  v_marked integer;
+BEGIN
+  SELECT missed_dose_grace_minutes INTO v_grace FROM practice_settings WHERE id;
+
+  UPDATE medication_logs ml
+  SET status = 'missed',
+      auto_missed_at = now()
+  FROM prescriptions p
+  WHERE p.id = ml.prescription_id
+    AND p.status = 'active'
+    AND p.deleted_at IS NULL
+    AND ml.status = 'pending'
+    AND NOT ml.is_prn
+    AND ml.scheduled_time < now() - make_interval(mins => COALESCE(v_grace, 120));
+  GET DIAGNOSTICS v_marked = ROW_COUNT;
+
+  RETURN v_marked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION mark_overdue_doses_missed() FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,57 @@
+/*
+  # Hide the doses of deleted prescriptions
+
+  ## Overview
+  Soft-deleted prescriptions were hidden from both dashboards, but their medication logs were
+  still returned. Their doses appeared in the patient's tracker, calendar and reminders and
+  counted against adherence on both dashboards. Logs of a deleted prescription are now only
+  kept for the audit trail and are no longer readable by clients.
+
+  A client-side join on `prescriptions` cannot do this for doctors: they can only read the
+  prescriptions they wrote, so the doses of other doctors' prescriptions would be dropped as
+  well. The check is therefore made in the policies, through a SECURITY DEFINER helper.
+
+  ## Changes
+
+  ### 1. `prescription_is_live(prescription_id)`
+  - True when the prescription exists and is not soft-deleted
+
+  ### 2. `medication_logs` SELECT policies
+  - "Patients can view own medication logs" and "Doctors can view their patients' medication
+    logs" also require the log's prescription to be live
+
+  ## Security
+  - The helper only reveals whether a prescription is deleted, and is only used on logs the
+    caller may already read
+  - The server's service-role jobs (schedule regeneration, missed-dose sweep) are unaffected
+*/
+
+CREATE OR REPLACE FUNCTION prescription_is_live(p_prescription_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (SELECT 1 FROM prescriptions WHERE id = p_prescription_id AND deleted_at IS NULL);
+$$;
+
+DROP POLICY IF EXISTS "Patients can view own medication logs" ON medication_logs;
+CREATE POLICY "Patients can view own medication logs"
+  ON medication_logs FOR SELECT
+  TO authenticated
+  USING (patient_id = auth.uid() AND prescription_is_live(prescription_id));
+
+DROP POLICY IF EXISTS "Doctors can view their patients' medication logs" ON medication_logs;
+CREATE POLICY "Doctors can view their patients' medication logs"
+  ON medication_logs FOR SELECT
+  TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM doctor_patient_relationships
+      WHERE doctor_patient_relationships.doctor_id = auth.uid()
+      AND doctor_patient_relationships.patient_id = medication_logs.patient_id
+      AND doctor_patient_relationships.status = 'active'
+    )
+    AND prescription_is_live(prescription_id)
+  );
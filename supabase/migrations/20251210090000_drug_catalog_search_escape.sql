@@ -0,0 +1,49 @@
+/*
+  # Treat % and _ literally in the drug catalog search
+
+  ## Overview
+  `search_drug_catalog()` put the typed text straight into LIKE patterns, so "%" or "_" in
+  a query acted as wildcards ("_" matched every name). They are now escaped and only match
+  themselves.
+
+  ## Changes
+
+  ### 1. `search_drug_catalog(query, limit)`
+  - Backslash, "%" and "_" in the name part of the query are escaped before it is used in
+    LIKE; trigram similarity still uses the text as typed. Otherwise unchanged.
+
+  ## Security
+  - No change
+*/
+
+CREATE OR REPLACE FUNCTION search_drug_catalog(p_query text, p_limit integer DEFAULT 10)
+RETURNS SETOF drug_catalog
+LANGUAGE sql
+STABLE
+SET search_path = public, extensions
+AS $$
+  WITH parsed AS (
+    SELECT
+      -- "amoxicilin 500 mg" -> name "amoxicilin", strength "500"
+      lower(btrim(regexp_replace(p_query, '\s*\d.*$', ''))) AS name,
+      substring(p_query FROM '\d+(?:\.\d+)?') AS strength
+  ), q AS (
+    SELECT name, strength, replace(replace(replace(name, '\', '\\'), '%', '\%'), '_', '\_') AS pattern
+    FROM parsed
+  )
+  SELECT c.*
+  FROM drug_catalog c, q
+  WHERE length(q.name) >= 2
+    AND (
+      lower(c.generic_name) LIKE '%' || q.pattern || '%' ESCAPE '\'
+      OR EXISTS (SELECT 1 FROM unnest(c.brand_names) AS brand WHERE lower(brand) LIKE '%' || q.pattern || '%' ESCAPE '\')
+      OR similarity(lower(c.generic_name), q.name) > 0.3
+    )
+  ORDER BY
+    (lower(c.generic_name) LIKE q.pattern || '%' ESCAPE '\') DESC,
+    (q.strength IS NOT NULL AND c.strength ~ ('(^|\D)' || replace(q.strength, '.', '\.') || '(\D|$)')) DESC,
+    similarity(lower(c.generic_name), q.name) DESC,
+    c.generic_name,
+    c.strength
+  LIMIT LEAST(GREATEST(COALESCE(p_limit, 10), 1), 50);
+$$;
@@ -0,0 +1,84 @@
+/*
+  # Stop a malformed condition onset date from blocking sign-up
+
+  ## Overview
+  `import_signup_medical_records()` runs in the AFTER INSERT trigger on `profiles` and cast
+  each sign-up condition's `onset_date` straight to a date. A value that is not a date
+  ("last year", "2025-02-31") raised an error, which rolled back the profile insert and so
+  the whole sign-up. Such dates are now stored as NULL and the condition itself is kept.
+
+  ## Changes
+
+  ### 1. `signup_onset_date(value)`
+  - Returns the date for a `YYYY-MM-DD` value that is a real calendar date, otherwise NULL.
+    Other formats are not guessed at, since their meaning depends on the DateStyle setting.
+
+  ### 2. `import_signup_medical_records()`
+  - Uses `signup_onset_date()` for the condition onset date. Otherwise unchanged.
+
+  ## Security
+  - No change. The helper is internal to the trigger and not executable by API roles.
+*/
+
+CREATE OR REPLACE FUNCTION signup_onset_date(p_value text)
+RETURNS date
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+BEGIN
+  IF p_value IS NULL OR btrim(p_value) !~ '^\d{4}-\d{2}-\d{2}$' THEN
+    RETURN NULL;
+  END IF;
+  -- The pattern still lets through days that do not exist, e.g. 2025-02-31
+  RETURN btrim(p_value)::date;
+EXCEPTION
+  WHEN datetime_field_overflow OR invalid_datetime_format THEN
+    RETURN NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION signup_onset_date(text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION import_signup_medical_records()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_meta jsonb;
+BEGIN
+  IF NEW.role <> 'patient' THEN
+    RETURN NEW;
+  END IF;
+  SELECT raw_user_meta_data INTO v_meta FROM auth.users WHERE id = NEW.id;
+
+  IF jsonb_typeof(v_meta->'allergies') = 'array' THEN
+    INSERT INTO patient_allergies (patient_id, substance, reaction, severity)
+    SELECT NEW.id, btrim(item->>'substance'), COALESCE(item->>'reaction', ''),
+      CASE WHEN item->>'severity' IN ('mild', 'moderate', 'severe') THEN item->>'severity' ELSE 'unknown' END
+    FROM jsonb_array_elements(v_meta->'allergies') AS item
+    WHERE btrim(COALESCE(item->>'substance', '')) <> '';
+  END IF;
+
+  IF jsonb_typeof(v_meta->'conditions') = 'array' THEN
+    INSERT INTO patient_conditions (patient_id, name, onset_date, notes)
+    SELECT NEW.id, btrim(item->>'name'), signup_onset_date(item->>'onset_date'), COALESCE(item->>'notes', '')
+    FROM jsonb_array_elements(v_meta->'conditions') AS item
+    WHERE btrim(COALESCE(item->>'name', '')) <> '';
+  END IF;
+
+  IF jsonb_typeof(v_meta->'reported_medications') = 'array' THEN
+    INSERT INTO patient_reported_medications (patient_id, name, dosage, frequency)
+    SELECT NEW.id, btrim(item->>'name'), COALESCE(item->>'dosage', ''), COALESCE(item->>'frequency', '')
+    FROM jsonb_array_elements(v_meta->'reported_medications') AS item
+    WHERE btrim(COALESCE(item->>'name', '')) <> '';
+  END IF;
+
+  -- Older clients still send the free-text fields
+  PERFORM import_legacy_medical_history(NEW.id, NEW.medical_history, NEW.ongoing_medications);
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,24 @@
+/*
+  # Maintain the drug catalog rows from the seed file
+
+  ## Overview
+  The drug catalog migration inserts a starter set of products. From now on the rows are
+  maintained in supabase/seed/drug_catalog.csv (source and licence in
+  supabase/seed/README.md) and loaded with `npm run seed:drug-catalog`, not with further
+  migrations.
+
+  ## Changes
+
+  ### 1. `drug_catalog`
+  - Table comment pointing to the seed file. No rows are changed or removed: prescriptions
+    keep each medication's `catalog_id` in their jsonb, and the seed script upserts on
+    (generic_name, strength, form, route), so existing products keep their ids. The seed
+    file starts with the same 104 products as the migration.
+
+  ## Security
+  - No change. Signed-in users can read the catalog; only the service role (the seed
+    script) changes it.
+*/
+
+COMMENT ON TABLE drug_catalog IS
+  'Drug products for the prescription form search. Rows are maintained in supabase/seed/drug_catalog.csv and loaded with npm run seed:drug-catalog.';